@@ -0,0 +1,78 @@
+import { Form } from "react-router";
+import type { VariantOption } from "../utils/adminVariants.server";
+
+type ItemReplacementPickerProps = {
+  projectId: string;
+  itemId: string;
+  /** The other variants of the item's product. */
+  options: VariantOption[];
+  /** The last product search, when it was run for this item. */
+  search: { query: string; results: VariantOption[] } | null;
+  showPrices: boolean;
+};
+
+/**
+ * Lets an editor swap an unavailable item for another variant of the same
+ * product, or for one found by a product search. The search is a plain GET
+ * so it works without hydration on the storefront.
+ */
+export function ItemReplacementPicker({
+  projectId,
+  itemId,
+  options,
+  search,
+  showPrices,
+}: ItemReplacementPickerProps) {
+  const results = search?.results ?? [];
+  const renderOption = (option: VariantOption) => (
+    <option key={option.variantId} value={option.variantId}>
+      {option.displayName}
+      {showPrices ? ` (${option.price})` : ""}
+    </option>
+  );
+
+  return (
+    <details open={Boolean(search)}>
+      <summary>Replace</summary>
+      <div className="project-clad-stack">
+        <form method="get" action="/apps/project-clad/project" className="project-clad-inline-form">
+          <input type="hidden" name="id" value={projectId} />
+          <input type="hidden" name="replaceItem" value={itemId} />
+          <input
+            type="search"
+            name="replaceQ"
+            placeholder="Search products or SKUs"
+            defaultValue={search?.query ?? ""}
+          />
+          <button type="submit" className="project-clad-button">Search</button>
+        </form>
+        {options.length + results.length > 0 ? (
+          <Form
+            method="post"
+            action={`/apps/project-clad/project?id=${projectId}`}
+            className="project-clad-inline-form"
+          >
+            <input type="hidden" name="intent" value="replace-item" />
+            <input type="hidden" name="itemId" value={itemId} />
+            <select name="variantId" defaultValue="">
+              <option value="">Choose a replacement</option>
+              {options.length > 0 && (
+                <optgroup label="Same product">{options.map(renderOption)}</optgroup>
+              )}
+              {results.length > 0 && (
+                <optgroup label="Search results">{results.map(renderOption)}</optgroup>
+              )}
+            </select>
+            <button type="submit" className="project-clad-button">Replace item</button>
+          </Form>
+        ) : (
+          <span className="project-clad-muted">
+            {search?.query
+              ? "No products match that search."
+              : "Search for a product to use instead."}
+          </span>
+        )}
+      </div>
+    </details>
+  );
+}
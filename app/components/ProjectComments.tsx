@@ -0,0 +1,200 @@
+import { Form } from "react-router";
+
+export type CommentView = {
+  id: string;
+  authorName: string;
+  isAuthor: boolean;
+  /** Null once the comment is deleted. */
+  body: string | null;
+  mentioned: string[];
+  createdAt: string;
+  editedAt: string | null;
+};
+
+export type CommentGroupView = {
+  key: string;
+  jobId: string;
+  itemId: string;
+  label: string;
+  isWatching: boolean;
+  threads: Array<CommentView & { replies: CommentView[] }>;
+};
+
+type ProjectCommentsProps = {
+  projectId: string;
+  shop: string;
+  comments: {
+    maxLength: number;
+    selectedTarget: string;
+    targets: Array<{ value: string; label: string }>;
+    groups: CommentGroupView[];
+  };
+  canEdit: boolean;
+  error: string | null;
+};
+
+/**
+ * Comment threads on the project, its orders and items, grouped by what
+ * they are about. Editors can post, reply, and edit or delete their own
+ * comments; anyone on the project can watch a group.
+ */
+export function ProjectComments({
+  projectId,
+  shop,
+  comments,
+  canEdit,
+  error,
+}: ProjectCommentsProps) {
+  const actionUrl = `https://${shop}/apps/project-clad/project?id=${projectId}`;
+
+  return (
+    <section className="project-clad-section" id="comments">
+      <h2 className="project-clad-section-title">Comments</h2>
+      {error && <p className="project-clad-muted">{error}</p>}
+      {canEdit ? (
+        <Form method="post" action={actionUrl} className="project-clad-comment-form">
+          <input type="hidden" name="intent" value="add-comment" />
+          <select
+            name="target"
+            aria-label="Comment on"
+            defaultValue={comments.selectedTarget || "project"}
+          >
+            {comments.targets.map((target) => (
+              <option key={target.value} value={target.value}>
+                {target.label}
+              </option>
+            ))}
+          </select>
+          <textarea
+            name="body"
+            rows={3}
+            maxLength={comments.maxLength}
+            placeholder="Write a comment. Mention teammates with @name or @email."
+            required
+          />
+          <button type="submit" className="project-clad-button">
+            Post comment
+          </button>
+        </Form>
+      ) : (
+        <p className="project-clad-muted">
+          You have view access, so you can read comments but not add them.
+        </p>
+      )}
+      {comments.groups.length === 0 ? (
+        <p className="project-clad-muted">No comments yet.</p>
+      ) : (
+        comments.groups.map((group) => (
+          <div key={group.key} className="project-clad-card project-clad-comment-group">
+            <div className="project-clad-summary-row">
+              <h3 className="project-clad-title">{group.label}</h3>
+              <Form method="post" action={actionUrl}>
+                <input
+                  type="hidden"
+                  name="intent"
+                  value={group.isWatching ? "unwatch-comments" : "watch-comments"}
+                />
+                <input type="hidden" name="jobId" value={group.jobId} />
+                <input type="hidden" name="itemId" value={group.itemId} />
+                <button type="submit" className="project-clad-button">
+                  {group.isWatching ? "Stop watching" : "Watch"}
+                </button>
+              </Form>
+            </div>
+            {group.threads.map((thread) => (
+              <div key={thread.id} className="project-clad-comment-thread">
+                {[thread, ...thread.replies].map((comment) => (
+                  <div
+                    key={comment.id}
+                    className={
+                      comment.id === thread.id
+                        ? "project-clad-comment"
+                        : "project-clad-comment project-clad-comment--reply"
+                    }
+                  >
+                    <p className="project-clad-muted">
+                      {comment.authorName} •{" "}
+                      {new Date(comment.createdAt).toLocaleString()}
+                      {comment.editedAt ? " • edited" : ""}
+                    </p>
+                    {comment.body === null ? (
+                      <p className="project-clad-muted">This comment was deleted.</p>
+                    ) : (
+                      <p className="project-clad-comment-body">{comment.body}</p>
+                    )}
+                    {comment.mentioned.length > 0 && (
+                      <p className="project-clad-muted">
+                        Mentioned: {comment.mentioned.join(", ")}
+                      </p>
+                    )}
+                    {comment.isAuthor && comment.body !== null && (
+                      <details>
+                        <summary className="project-clad-muted">Edit</summary>
+                        <Form
+                          method="post"
+                          action={actionUrl}
+                          className="project-clad-comment-form"
+                        >
+                          <input type="hidden" name="intent" value="edit-comment" />
+                          <input type="hidden" name="commentId" value={comment.id} />
+                          <textarea
+                            name="body"
+                            rows={3}
+                            maxLength={comments.maxLength}
+                            defaultValue={comment.body}
+                            required
+                          />
+                          <button type="submit" className="project-clad-button">
+                            Save
+                          </button>
+                        </Form>
+                        <Form
+                          method="post"
+                          action={actionUrl}
+                          onSubmit={(event) => {
+                            if (!confirm("Delete this comment?")) {
+                              event.preventDefault();
+                            }
+                          }}
+                        >
+                          <input type="hidden" name="intent" value="delete-comment" />
+                          <input type="hidden" name="commentId" value={comment.id} />
+                          <button type="submit" className="project-clad-button">
+                            Delete
+                          </button>
+                        </Form>
+                      </details>
+                    )}
+                  </div>
+                ))}
+                {canEdit && (
+                  <details>
+                    <summary className="project-clad-muted">Reply</summary>
+                    <Form
+                      method="post"
+                      action={actionUrl}
+                      className="project-clad-comment-form"
+                    >
+                      <input type="hidden" name="intent" value="add-comment" />
+                      <input type="hidden" name="parentId" value={thread.id} />
+                      <textarea
+                        name="body"
+                        rows={2}
+                        maxLength={comments.maxLength}
+                        placeholder="Reply"
+                        required
+                      />
+                      <button type="submit" className="project-clad-button">
+                        Reply
+                      </button>
+                    </Form>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
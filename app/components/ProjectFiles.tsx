@@ -0,0 +1,169 @@
+import { Form } from "react-router";
+import type { AttachmentPreview } from "../utils/projectAttachments.server";
+
+export type ProjectFileView = {
+  id: string;
+  filename: string;
+  size: number;
+  preview: AttachmentPreview;
+  jobName: string | null;
+  uploadedBy: string;
+  createdAt: string;
+};
+
+type ProjectFilesProps = {
+  projectId: string;
+  shop: string;
+  jobs: Array<{ id: string; name: string }>;
+  files: ProjectFileView[];
+  accept: string;
+  maxSizeMb: number;
+  canEdit: boolean;
+  error: string | null;
+};
+
+const getAttachmentPath = (projectId: string, attachmentId: string, inline = false) =>
+  `/apps/project-clad/attachment?id=${encodeURIComponent(projectId)}&attachmentId=${encodeURIComponent(attachmentId)}${
+    inline ? "&inline=1" : ""
+  }`;
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** The project's uploaded files, with upload and delete for editors. */
+export function ProjectFiles({
+  projectId,
+  shop,
+  jobs,
+  files,
+  accept,
+  maxSizeMb,
+  canEdit,
+  error,
+}: ProjectFilesProps) {
+  const actionUrl = `https://${shop}/apps/project-clad/project?id=${projectId}`;
+
+  return (
+    <section className="project-clad-section" id="files">
+      <h2 className="project-clad-section-title">Files</h2>
+      {error && <p className="project-clad-muted">{error}</p>}
+      {canEdit && (
+        <Form
+          method="post"
+          action={actionUrl}
+          encType="multipart/form-data"
+          className="project-clad-inline-form"
+        >
+          <input type="hidden" name="intent" value="upload-attachment" />
+          <select name="jobId" aria-label="Attach to">
+            <option value="">Whole project</option>
+            {jobs.map((job) => (
+              <option key={job.id} value={job.id}>
+                Order: {job.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="file"
+            name="file"
+            accept={accept}
+            aria-label="File"
+            required
+          />
+          <button type="submit" className="project-clad-button">
+            Upload
+          </button>
+        </Form>
+      )}
+      {canEdit && (
+        <p className="project-clad-muted">
+          Drawings, specs and photos up to {maxSizeMb} MB.
+        </p>
+      )}
+      {files.length === 0 ? (
+        <p className="project-clad-muted">No files yet.</p>
+      ) : (
+        <table className="project-clad-table">
+          <thead>
+            <tr>
+              <th>File</th>
+              <th>Order</th>
+              <th>Added</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {files.map((file) => (
+              <tr key={file.id}>
+                <td>
+                  {file.preview === "image" && (
+                    <a
+                      href={getAttachmentPath(projectId, file.id, true)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      <img
+                        src={getAttachmentPath(projectId, file.id, true)}
+                        alt={file.filename}
+                        className="project-clad-thumb"
+                        loading="lazy"
+                      />
+                    </a>
+                  )}{" "}
+                  {file.filename}
+                  <span className="project-clad-muted"> • {formatFileSize(file.size)}</span>
+                  {file.preview === "pdf" && (
+                    <details>
+                      <summary className="project-clad-muted">Preview</summary>
+                      <iframe
+                        src={getAttachmentPath(projectId, file.id, true)}
+                        title={file.filename}
+                        className="project-clad-attachment-preview"
+                      />
+                    </details>
+                  )}
+                </td>
+                <td>{file.jobName || "—"}</td>
+                <td>
+                  {new Date(file.createdAt).toLocaleDateString()}
+                  <span className="project-clad-muted" style={{ display: "block" }}>
+                    {file.uploadedBy}
+                  </span>
+                </td>
+                <td className="project-clad-table-right">
+                  <div className="project-clad-actions" style={{ gap: "0.5rem" }}>
+                    <a
+                      href={getAttachmentPath(projectId, file.id)}
+                      className="project-clad-button"
+                    >
+                      Download
+                    </a>
+                    {canEdit && (
+                      <Form
+                        method="post"
+                        action={actionUrl}
+                        onSubmit={(event) => {
+                          if (!confirm(`Delete ${file.filename}?`)) {
+                            event.preventDefault();
+                          }
+                        }}
+                      >
+                        <input type="hidden" name="intent" value="delete-attachment" />
+                        <input type="hidden" name="attachmentId" value={file.id} />
+                        <button type="submit" className="project-clad-button">
+                          Delete
+                        </button>
+                      </Form>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,24 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { searchCustomers } from "../utils/adminCustomers.server";
+
+/** One page of customer search results for the admin customer pickers. */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const search = (url.searchParams.get("q") || "").trim().slice(0, 100);
+  const after = url.searchParams.get("after") || null;
+
+  try {
+    const page = await searchCustomers(session.shop, { search, after });
+    return { ...page, after, error: null };
+  } catch (error) {
+    return {
+      customers: [],
+      nextCursor: null,
+      after,
+      error: error instanceof Error ? error.message : "Customer lookup failed.",
+    };
+  }
+};
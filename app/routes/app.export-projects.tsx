@@ -1,6 +1,8 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import { getCsvForProjectIds } from "../utils/exportProjectsCsv.server";
+import { getProjectExport } from "../utils/projectArchive.server";
+import { createQuotePdf } from "../utils/quotePdf.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -11,6 +13,34 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return new Response("Project is required.", { status: 400 });
   }
 
+  if (url.searchParams.get("format") === "json") {
+    const data = await getProjectExport(session.shop, projectId);
+    if (!data) {
+      return new Response("Project not found.", { status: 404 });
+    }
+    return new Response(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="projectclad-project.json"`,
+      },
+    });
+  }
+
+  if (url.searchParams.get("format") === "pdf") {
+    const quote = await createQuotePdf(session.shop, projectId, {
+      jobId: url.searchParams.get("jobId"),
+    });
+    if (!quote) {
+      return new Response("Project not found.", { status: 404 });
+    }
+    return new Response(quote.content, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${quote.filename}"`,
+      },
+    });
+  }
+
   const csv = await getCsvForProjectIds(session.shop, [projectId]);
   return new Response(csv, {
     headers: {
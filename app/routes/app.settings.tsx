@@ -1,47 +1,114 @@
 import { useEffect, useMemo, useState } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
-import { Form, useActionData, useLoaderData } from "react-router";
+import { Form, useActionData, useFetcher, useLoaderData } from "react-router";
 import { authenticate, sessionStorage } from "../shopify.server";
 import prisma from "../db.server";
 import { hashPassword } from "../utils/passwords.server";
 import {
   findCustomerIdByEmail,
   getCustomersByIds,
-  listCustomers,
 } from "../utils/adminCustomers.server";
-import { getAdminVariantInfo } from "../utils/adminVariants.server";
+import {
+  getVariantInfo,
+  isVariantAvailable,
+} from "../utils/variantCache.server";
 import { getCsvForProjectIds } from "../utils/exportProjectsCsv.server";
+import {
+  importProjectExport,
+  parseProjectExport,
+} from "../utils/projectArchive.server";
+import {
+  createProjectFromTemplate,
+  deleteProjectTemplate,
+  listProjectTemplates,
+  saveProjectTemplate,
+} from "../utils/projectTemplates.server";
+import { placeOrderForJob } from "../utils/adminOrders.server";
+import {
+  getAuditEvents,
+  recordAuditEvent,
+  toAuditItem,
+} from "../utils/auditLog.server";
 import { listMediaImages } from "../utils/adminMedia.server";
+import type { loader as customersLoader } from "./app.customers";
+import {
+  getApprovalWorkflowFromForm,
+  MAX_APPROVAL_STEPS,
+  parseApprovalWorkflow,
+  toWorkflowJson,
+} from "../utils/approvalWorkflow.server";
 import {
   getSmtpConfigStatus,
   isEmailConfigured,
   sendEmail,
 } from "../utils/email.server";
+import {
+  buildTemplatedEmail,
+  getEmailTemplates,
+  isEmailTemplateType,
+  previewEmailTemplate,
+  resetEmailTemplate,
+  saveEmailTemplate,
+} from "../utils/emailTemplates.server";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  parseTrashRetentionDays,
+  purgeExpiredTrash,
+  TRASH_RETENTION_OPTIONS,
+  trashData,
+} from "../utils/trash.server";
+import {
+  ensureBaseRevision,
+  recordJobRevision,
+} from "../utils/jobRevisions.server";
+import { sendDueDigests } from "../utils/notifications.server";
+import {
+  changeProjectStatus,
+  getNextProjectStatuses,
+  PROJECT_STATUS_FILTERS,
+  PROJECT_STATUS_LABELS,
+  toProjectStatus,
+} from "../utils/projectStatus.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
+  await purgeExpiredTrash(session.shop);
+  void sendDueDigests(session.shop);
   const settings = await prisma.shopSettings.findUnique({
     where: { shop: session.shop },
   });
   const projects = await prisma.project.findMany({
-    where: { shop: session.shop },
+    where: { shop: session.shop, deletedAt: null },
     include: {
       members: true,
-      jobs: { include: { items: true } },
+      approvers: true,
+      jobs: {
+        where: { deletedAt: null },
+        include: { items: { where: { deletedAt: null } }, orderLink: true },
+      },
     },
     orderBy: { createdAt: "desc" },
   });
+  const auditEvents = await getAuditEvents(session.shop, { take: 200 });
+  const templates = await listProjectTemplates(session.shop);
+  const emailTemplates = await getEmailTemplates(session.shop);
   const memberIds = projects.flatMap((project) => [
     project.ownerCustomerId,
     ...project.members.map((member) => member.customerId),
   ]);
+  const actorIds = auditEvents
+    .map((event) => event.actorCustomerId)
+    .filter((id): id is string => Boolean(id));
   let customerInfo: Record<
     string,
     { email: string | null; firstName: string | null; lastName: string | null }
   > = {};
   let memberLookupError: string | null = null;
   try {
-    customerInfo = await getCustomersByIds(session.shop, memberIds);
+    customerInfo = await getCustomersByIds(
+      session.shop,
+      Array.from(new Set([...memberIds, ...actorIds])),
+    );
   } catch (error) {
     memberLookupError =
       error instanceof Error ? error.message : "Member lookup failed.";
@@ -49,32 +116,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const variantIds = projects.flatMap((project) =>
     project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
   );
-  let variantInfo: Record<
-    string,
-    { title: string; productTitle: string }
-  > = {};
+  let variantInfo: Awaited<ReturnType<typeof getVariantInfo>> = {};
   let variantLookupError: string | null = null;
   try {
-    variantInfo = await getAdminVariantInfo(session.shop, variantIds);
+    variantInfo = await getVariantInfo(session.shop, variantIds);
   } catch (error) {
     variantLookupError =
       error instanceof Error ? error.message : "Product lookup failed.";
   }
 
-  let customers: Array<{
-    id: string;
-    email: string | null;
-    firstName: string | null;
-    lastName: string | null;
-  }> = [];
-  let customerListError: string | null = null;
-  try {
-    customers = await listCustomers(session.shop);
-  } catch (error) {
-    customerListError =
-      error instanceof Error ? error.message : "Customer lookup failed.";
-  }
-
   const sessions = await sessionStorage.findSessionsByShop(session.shop);
   const offlineSession = sessions.find((stored) => !stored.isOnline);
 
@@ -115,19 +165,53 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     mediaImages,
     mediaError,
     navButtons,
+    approvalWorkflow: parseApprovalWorkflow(settings?.approvalWorkflow),
+    maxApprovalSteps: MAX_APPROVAL_STEPS,
+    lockJobsOnApproval: Boolean(settings?.lockJobsOnApproval),
+    requireApprovalForCheckout: Boolean(settings?.requireApprovalForCheckout),
+    attachQuoteToApprovalEmails: Boolean(settings?.attachQuoteToApprovalEmails),
+    autoArchiveOrderedProjects: Boolean(settings?.autoArchiveOrderedProjects),
+    projectStatusFilters: PROJECT_STATUS_FILTERS.map((filter) => ({
+      value: filter,
+      label:
+        filter === "open"
+          ? "Open projects"
+          : filter === "all"
+            ? "All projects"
+            : PROJECT_STATUS_LABELS[filter],
+    })),
+    trashRetentionDays:
+      settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+    trashRetentionOptions: TRASH_RETENTION_OPTIONS,
+    emailTemplates,
     emailConfigured: isEmailConfigured(),
     smtpStatus,
     shop: session.shop,
     projects: projects.map((project) => ({
       id: project.id,
       name: project.name,
+      status: toProjectStatus(project.status),
+      statusLabel: PROJECT_STATUS_LABELS[toProjectStatus(project.status)],
+      nextStatuses: getNextProjectStatuses(project.status).map((status) => ({
+        value: status,
+        label: PROJECT_STATUS_LABELS[status],
+      })),
       poNumber: project.poNumber,
       companyName: project.companyName,
       ownerCustomerId: project.ownerCustomerId,
+      approvalWorkflow:
+        project.approvalWorkflow === null
+          ? null
+          : parseApprovalWorkflow(project.approvalWorkflow),
+      approvers: project.approvers.map((approver) => ({
+        customerId: approver.customerId,
+        role: approver.role,
+      })),
       jobs: project.jobs.map((job) => ({
         id: job.id,
         name: job.name,
-        isLocked: job.isLocked,
+        isLocked: job.isLocked || Boolean(job.orderLink),
+        orderName: job.orderLink?.orderName || null,
         items: job.items.map((item) => {
           const info = variantInfo[item.variantId];
           const displayName = info
@@ -140,6 +224,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             variantId: item.variantId,
             quantity: item.quantity,
             displayName,
+            isUnavailable: !variantLookupError && !isVariantAvailable(info),
           };
         }),
       })),
@@ -162,11 +247,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           })),
       ],
     })),
+    templates,
+    activity: auditEvents.map((event) => {
+      const actor = event.actorCustomerId
+        ? customerInfo[event.actorCustomerId]
+        : null;
+      return {
+        ...event,
+        actorName:
+          event.source === "admin"
+            ? "Shop staff"
+            : (actor
+                ? [actor.firstName, actor.lastName].filter(Boolean).join(" ").trim() ||
+                  actor.email
+                : null) || event.actorCustomerId || "Customer",
+      };
+    }),
     grantedScopes: offlineSession?.scope || "",
     memberLookupError,
     variantLookupError,
-    customers,
-    customerListError,
   };
 };
 
@@ -175,9 +274,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
   const password = String(formData.get("pricingPassword") || "").trim();
+  const audit = (
+    event: {
+      projectId?: string | null;
+      jobId?: string | null;
+      before?: unknown;
+      after?: unknown;
+    },
+    auditIntent = intent,
+  ) =>
+    recordAuditEvent({
+      shop: session.shop,
+      source: "admin",
+      intent: auditIntent,
+      ...event,
+    });
 
   if (intent === "reset-sessions") {
     await prisma.session.deleteMany({ where: { shop: session.shop } });
+    await audit({});
     return { ok: true, sessionsCleared: true };
   }
 
@@ -185,11 +300,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const theme = String(formData.get("storefrontTheme") || "default").trim();
     const validThemes = ["default", "dark", "warm", "ocean"];
     const storefrontTheme = validThemes.includes(theme) ? theme : "default";
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: { storefrontTheme: true },
+    });
     await prisma.shopSettings.upsert({
       where: { shop: session.shop },
       update: { storefrontTheme },
       create: { shop: session.shop, storefrontTheme },
     });
+    await audit({ before: previous, after: { storefrontTheme } });
     return { ok: true, themeSaved: true };
   }
 
@@ -221,6 +341,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         update: { logoDataUrl: dataUrl },
         create: { shop: session.shop, logoDataUrl: dataUrl },
       });
+      await audit({ after: { logoMediaUrl: mediaUrl } });
       return { ok: true, logoSaved: true };
     } catch (err) {
       console.error("Logo from media error:", err);
@@ -251,6 +372,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         update: { logoDataUrl: dataUrl },
         create: { shop: session.shop, logoDataUrl: dataUrl },
       });
+      await audit({
+        after: { fileName: file.name, fileType: file.type, fileSize: file.size },
+      });
       return { ok: true, logoSaved: true };
     } catch (err) {
       console.error("Logo upload error:", err);
@@ -265,6 +389,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       update: { logoDataUrl: null },
       create: { shop: session.shop },
     });
+    await audit({});
     return { ok: true, logoRemoved: true };
   }
 
@@ -275,6 +400,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const navButton2Url = String(formData.get("navButton2Url") || "").trim();
     const navButton3Label = String(formData.get("navButton3Label") || "").trim();
     const navButton3Url = String(formData.get("navButton3Url") || "").trim();
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: {
+        navButton1Label: true,
+        navButton1Url: true,
+        navButton2Label: true,
+        navButton2Url: true,
+        navButton3Label: true,
+        navButton3Url: true,
+      },
+    });
 
     await prisma.shopSettings.upsert({
       where: { shop: session.shop },
@@ -296,9 +432,180 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         navButton3Url: navButton3Url || null,
       },
     });
+    await audit({
+      before: previous,
+      after: {
+        navButton1Label: navButton1Label || null,
+        navButton1Url: navButton1Url || null,
+        navButton2Label: navButton2Label || null,
+        navButton2Url: navButton2Url || null,
+        navButton3Label: navButton3Label || null,
+        navButton3Url: navButton3Url || null,
+      },
+    });
     return { ok: true, navButtonsSaved: true };
   }
 
+  if (intent === "save-approval-workflow") {
+    const approvalWorkflow = getApprovalWorkflowFromForm(formData);
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: { approvalWorkflow: true },
+    });
+    await prisma.shopSettings.upsert({
+      where: { shop: session.shop },
+      update: { approvalWorkflow: toWorkflowJson(approvalWorkflow) },
+      create: {
+        shop: session.shop,
+        approvalWorkflow: toWorkflowJson(approvalWorkflow),
+      },
+    });
+    await audit({
+      before: previous?.approvalWorkflow ?? null,
+      after: approvalWorkflow,
+    });
+    return { ok: true, approvalWorkflowSaved: true };
+  }
+
+  if (intent === "save-approval-rules") {
+    const rules = {
+      lockJobsOnApproval: formData.get("lockJobsOnApproval") === "on",
+      requireApprovalForCheckout:
+        formData.get("requireApprovalForCheckout") === "on",
+      attachQuoteToApprovalEmails:
+        formData.get("attachQuoteToApprovalEmails") === "on",
+    };
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: {
+        lockJobsOnApproval: true,
+        requireApprovalForCheckout: true,
+        attachQuoteToApprovalEmails: true,
+      },
+    });
+    await prisma.shopSettings.upsert({
+      where: { shop: session.shop },
+      update: rules,
+      create: { shop: session.shop, ...rules },
+    });
+    await audit({ before: previous, after: rules });
+    return { ok: true, approvalRulesSaved: true };
+  }
+
+  if (intent === "save-trash-retention") {
+    const trashRetentionDays = parseTrashRetentionDays(
+      formData.get("trashRetentionDays"),
+    );
+    if (trashRetentionDays === null) {
+      return Response.json(
+        { trashError: "Choose how long to keep deleted items." },
+        { status: 400 },
+      );
+    }
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: { trashRetentionDays: true },
+    });
+    await prisma.shopSettings.upsert({
+      where: { shop: session.shop },
+      update: { trashRetentionDays },
+      create: { shop: session.shop, trashRetentionDays },
+    });
+    await audit({ before: previous, after: { trashRetentionDays } });
+    return { ok: true, trashRetentionSaved: true };
+  }
+
+  if (
+    intent === "save-email-template" ||
+    intent === "preview-email-template" ||
+    intent === "reset-email-template"
+  ) {
+    const type = formData.get("templateType");
+    if (!isEmailTemplateType(type)) {
+      return Response.json(
+        { emailTemplateError: "Choose an email template." },
+        { status: 400 },
+      );
+    }
+    if (intent === "reset-email-template") {
+      await resetEmailTemplate(session.shop, type);
+      await audit({ after: { type } });
+      return { ok: true, emailTemplateSaved: type };
+    }
+    const content = {
+      subject: String(formData.get("subject") || "").trim(),
+      html: String(formData.get("html") || "").trim(),
+      text: String(formData.get("text") || "").trim(),
+    };
+    if (!content.subject || !content.html || !content.text) {
+      return Response.json(
+        { emailTemplateError: "Subject, HTML and plain text are all required." },
+        { status: 400 },
+      );
+    }
+    if (intent === "preview-email-template") {
+      return {
+        emailPreview: {
+          type,
+          ...(await previewEmailTemplate(session.shop, content)),
+        },
+      };
+    }
+    await saveEmailTemplate(session.shop, type, content);
+    await audit({ after: { type, subject: content.subject } });
+    return { ok: true, emailTemplateSaved: type };
+  }
+
+  if (intent === "save-project-approvers") {
+    const projectId = String(formData.get("projectId") || "").trim();
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, shop: session.shop, deletedAt: null },
+      include: { members: true, approvers: true },
+    });
+    if (!project) {
+      return Response.json({ projectError: "Project not found." }, { status: 404 });
+    }
+
+    // Saving approvers also stores the shop's current workflow on the project.
+    const settings = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: { approvalWorkflow: true },
+    });
+    const workflow = parseApprovalWorkflow(settings?.approvalWorkflow);
+    const projectCustomerIds = new Set([
+      project.ownerCustomerId,
+      ...project.members.map((member) => member.customerId),
+    ]);
+    const approvers = workflow.flatMap((step, index) =>
+      formData
+        .getAll(`approvers${index + 1}`)
+        .map((value) => String(value))
+        .filter((customerId) => projectCustomerIds.has(customerId))
+        .map((customerId) => ({ projectId, customerId, role: step.role })),
+    );
+
+    await prisma.$transaction([
+      prisma.projectApprover.deleteMany({ where: { projectId } }),
+      prisma.projectApprover.createMany({ data: approvers, skipDuplicates: true }),
+      prisma.project.update({
+        where: { id: projectId },
+        data: { approvalWorkflow: toWorkflowJson(workflow) },
+      }),
+    ]);
+    await audit({
+      projectId,
+      before: {
+        workflow: project.approvalWorkflow,
+        approvers: project.approvers.map(({ customerId, role }) => ({ customerId, role })),
+      },
+      after: {
+        workflow,
+        approvers: approvers.map(({ customerId, role }) => ({ customerId, role })),
+      },
+    });
+    return { ok: true, projectUpdated: true };
+  }
+
   if (intent === "update-project") {
     const projectId = String(formData.get("projectId") || "").trim();
     const name = String(formData.get("name") || "").trim();
@@ -312,18 +619,80 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
+    const previous = await prisma.project.findFirst({
+      where: { id: projectId, shop: session.shop, deletedAt: null },
+      select: { name: true, poNumber: true, companyName: true },
+    });
+    if (!previous) {
+      return Response.json(
+        { projectError: "Project not found." },
+        { status: 404 },
+      );
+    }
     await prisma.project.update({
-      where: { id: projectId, shop: session.shop },
+      where: { id: projectId, shop: session.shop, deletedAt: null },
       data: {
         name,
         poNumber: poNumber || null,
         companyName: companyName || null,
       },
     });
+    await audit({
+      projectId,
+      before: previous,
+      after: {
+        name,
+        poNumber: poNumber || null,
+        companyName: companyName || null,
+      },
+    });
+
+    return { ok: true, projectUpdated: true };
+  }
 
+  if (intent === "set-project-status-admin") {
+    const projectId = String(formData.get("projectId") || "").trim();
+    try {
+      const { before, after } = await changeProjectStatus(
+        session.shop,
+        projectId,
+        String(formData.get("status") || ""),
+      );
+      await audit({
+        projectId,
+        before: { status: before.status },
+        after: { status: after.status },
+      });
+    } catch (error) {
+      return Response.json(
+        {
+          projectError:
+            error instanceof Error ? error.message : "Status change failed.",
+        },
+        { status: 400 },
+      );
+    }
     return { ok: true, projectUpdated: true };
   }
 
+  if (intent === "save-project-rules") {
+    const rules = {
+      autoArchiveOrderedProjects:
+        formData.get("autoArchiveOrderedProjects") === "on",
+    };
+    const previous = await prisma.shopSettings.findUnique({
+      where: { shop: session.shop },
+      select: { autoArchiveOrderedProjects: true },
+    });
+    await prisma.shopSettings.upsert({
+      where: { shop: session.shop },
+      update: rules,
+      create: { shop: session.shop, ...rules },
+    });
+    await audit({ before: previous, after: rules });
+    return { ok: true, projectRulesSaved: true };
+  }
+
   if (intent === "delete-job-admin") {
     const projectId = String(formData.get("projectId") || "").trim();
     const jobId = String(formData.get("jobId") || "").trim();
@@ -331,8 +700,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return Response.json({ projectError: "Order is required." }, { status: 400 });
     }
     const job = await prisma.job.findFirst({
-      where: { id: jobId, projectId },
-      include: { orderLink: true },
+      where: {
+        id: jobId,
+        projectId,
+        deletedAt: null,
+        project: { shop: session.shop },
+      },
+      include: { orderLink: true, items: { where: { deletedAt: null } } },
     });
     if (!job) {
       return Response.json({ projectError: "Order not found." }, { status: 404 });
@@ -341,7 +715,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (isLocked) {
       return Response.json({ projectError: "Order is locked." }, { status: 403 });
     }
-    await prisma.job.delete({ where: { id: jobId } });
+    await prisma.job.update({ where: { id: jobId }, data: trashData(null) });
+    await audit({
+      projectId,
+      jobId,
+      before: { name: job.name, items: job.items.map(toAuditItem) },
+    });
     return { ok: true, projectUpdated: true };
   }
 
@@ -352,7 +731,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return Response.json({ projectError: "Item is required." }, { status: 400 });
     }
     const item = await prisma.jobItem.findFirst({
-      where: { id: itemId },
+      where: { id: itemId, deletedAt: null },
       include: { job: { include: { orderLink: true } } },
     });
     if (!item || item.job.projectId !== projectId) {
@@ -362,10 +741,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (isLocked) {
       return Response.json({ projectError: "Order is locked." }, { status: 403 });
     }
-    await prisma.jobItem.delete({ where: { id: itemId } });
+    await ensureBaseRevision(item.jobId);
+    await prisma.jobItem.update({ where: { id: itemId }, data: trashData(null) });
+    await recordJobRevision(item.jobId, { reason: "delete-item-admin" });
+    await audit({ projectId, jobId: item.jobId, before: toAuditItem(item) });
     return { ok: true, projectUpdated: true };
   }
 
+  if (intent === "place-order-admin") {
+    const projectId = String(formData.get("projectId") || "").trim();
+    const jobId = String(formData.get("jobId") || "").trim();
+    if (!projectId || !jobId) {
+      return Response.json({ projectError: "Order is required." }, { status: 400 });
+    }
+    const job = await prisma.job.findFirst({
+      where: {
+        id: jobId,
+        projectId,
+        deletedAt: null,
+        project: { shop: session.shop },
+      },
+    });
+    if (!job) {
+      return Response.json({ projectError: "Order not found." }, { status: 404 });
+    }
+    try {
+      const placed = await placeOrderForJob(session.shop, jobId);
+      await audit({ projectId, jobId, after: placed });
+      return { ok: true, projectUpdated: true, orderPlaced: placed.orderName };
+    } catch (error) {
+      return Response.json(
+        {
+          projectError:
+            error instanceof Error ? error.message : "Unable to place order.",
+        },
+        { status: 400 },
+      );
+    }
+  }
+
   if (intent === "remove-member") {
     const projectId = String(formData.get("projectId") || "").trim();
     const memberCustomerId = String(formData.get("memberCustomerId") || "").trim();
@@ -378,7 +792,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     const project = await prisma.project.findFirst({
-      where: { id: projectId, shop: session.shop },
+      where: { id: projectId, shop: session.shop, deletedAt: null },
     });
 
     if (!project) {
@@ -395,15 +809,27 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
+    const existingMember = await prisma.projectMember.findUnique({
+      where: {
+        projectId_customerId: { projectId, customerId: memberCustomerId },
+      },
+    });
     await prisma.projectMember.deleteMany({
       where: { projectId, customerId: memberCustomerId },
     });
+    if (existingMember) {
+      await audit({
+        projectId,
+        before: { customerId: memberCustomerId, role: existingMember.role },
+      });
+    }
 
     return { ok: true, memberRemoved: true };
   }
 
   if (intent === "add-member") {
     const projectId = String(formData.get("projectId") || "").trim();
+    const customerId = String(formData.get("customerId") || "").trim();
     const email = String(formData.get("email") || "").trim();
     const role = String(formData.get("role") || "view");
 
@@ -413,15 +839,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         { status: 400 },
       );
     }
-    if (!email) {
+    if (!customerId && !email) {
       return Response.json(
-        { memberError: "Email is required." },
+        { memberError: "Choose a customer to add." },
         { status: 400 },
       );
     }
 
     const project = await prisma.project.findFirst({
-      where: { id: projectId, shop: session.shop },
+      where: { id: projectId, shop: session.shop, deletedAt: null },
     });
 
     if (!project) {
@@ -431,9 +857,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
+    // The picker sends the customer's id; an email still works for scripts.
     let memberCustomerId: string | null = null;
     try {
-      memberCustomerId = await findCustomerIdByEmail(session.shop, email);
+      memberCustomerId = customerId
+        ? (await getCustomersByIds(session.shop, [customerId]))[customerId]?.id ||
+          null
+        : await findCustomerIdByEmail(session.shop, email);
     } catch (error) {
       return Response.json(
         {
@@ -448,7 +878,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (!memberCustomerId) {
       return Response.json(
-        { memberError: "No customer found with that email." },
+        {
+          memberError: customerId
+            ? "That customer no longer exists."
+            : "No customer found with that email.",
+        },
         { status: 404 },
       );
     }
@@ -460,7 +894,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       );
     }
 
-    await prisma.projectMember.upsert({
+    const existingMember = await prisma.projectMember.findUnique({
+      where: {
+        projectId_customerId: { projectId, customerId: memberCustomerId },
+      },
+    });
+    const member = await prisma.projectMember.upsert({
       where: {
         projectId_customerId: {
           projectId,
@@ -474,10 +913,124 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         role: role === "edit" ? "edit" : "view",
       },
     });
+    await audit({
+      projectId,
+      before: existingMember
+        ? { customerId: memberCustomerId, role: existingMember.role }
+        : null,
+      after: { customerId: memberCustomerId, role: member.role },
+    });
 
     return { ok: true, memberAdded: true };
   }
 
+  if (intent === "import-project") {
+    const ownerCustomerId = String(formData.get("ownerCustomerId") || "").trim();
+    try {
+      const data = parseProjectExport(String(formData.get("projectJson") || ""));
+      const project = await importProjectExport(session.shop, data, {
+        ownerCustomerId,
+      });
+      await audit({
+        projectId: project.id,
+        after: {
+          name: project.name,
+          ownerCustomerId: project.ownerCustomerId,
+          fromShop: data.shop,
+          exportedAt: data.exportedAt,
+        },
+      });
+      return { ok: true, projectImported: project.name };
+    } catch (error) {
+      return Response.json(
+        {
+          importError:
+            error instanceof Error ? error.message : "Unable to import project.",
+        },
+        { status: 400 },
+      );
+    }
+  }
+
+  if (intent === "save-template-admin") {
+    const projectId = String(formData.get("projectId") || "").trim();
+    const name = String(formData.get("templateName") || "").trim();
+    if (!name) {
+      return Response.json(
+        { templateError: "Template name is required." },
+        { status: 400 },
+      );
+    }
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, shop: session.shop, deletedAt: null },
+      select: { id: true },
+    });
+    if (!project) {
+      return Response.json({ templateError: "Project not found." }, { status: 404 });
+    }
+    const template = await saveProjectTemplate(session.shop, projectId, {
+      name,
+      createdByCustomerId: null,
+    });
+    await audit({ projectId, after: { templateId: template.id, name } });
+    return { ok: true, templateSaved: name };
+  }
+
+  if (intent === "create-from-template-admin") {
+    const templateId = String(formData.get("templateId") || "").trim();
+    const name = String(formData.get("projectName") || "").trim();
+    const ownerCustomerId = String(formData.get("ownerCustomerId") || "").trim();
+    if (!templateId || !name || !ownerCustomerId) {
+      return Response.json(
+        { templateError: "Choose a template, a project name and an owner." },
+        { status: 400 },
+      );
+    }
+    try {
+      const created = await createProjectFromTemplate(session.shop, templateId, {
+        name,
+        ownerCustomerId,
+      });
+      if (!created) {
+        return Response.json({ templateError: "Template not found." }, { status: 404 });
+      }
+      await audit({
+        projectId: created.project.id,
+        after: {
+          templateId,
+          templateName: created.template.name,
+          ownerCustomerId,
+          skippedItems: created.skippedItems,
+        },
+      });
+      return {
+        ok: true,
+        templateProjectCreated: created.project.name,
+        skippedItems: created.skippedItems,
+      };
+    } catch (error) {
+      return Response.json(
+        {
+          templateError:
+            error instanceof Error ? error.message : "Price lookup failed.",
+        },
+        { status: 400 },
+      );
+    }
+  }
+
+  if (intent === "delete-template-admin") {
+    const templateId = String(formData.get("templateId") || "").trim();
+    const deleted = templateId
+      ? await deleteProjectTemplate(session.shop, templateId)
+      : false;
+    if (!deleted) {
+      return Response.json({ templateError: "Template not found." }, { status: 404 });
+    }
+    await audit({ before: { templateId } });
+    return { ok: true, templateDeleted: true };
+  }
+
   if (intent === "email-csv") {
     const projectId = String(formData.get("projectId") || "").trim();
     const toEmail = String(formData.get("toEmail") || "").trim();
@@ -497,17 +1050,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     try {
       const csv = await getCsvForProjectIds(session.shop, [projectId]);
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, shop: session.shop },
+        select: { name: true },
+      });
+      const email = await buildTemplatedEmail(session.shop, "export", {
+        projectName: project?.name || "Project",
+      });
       await sendEmail({
+        ...email,
         to: toEmail,
-        subject: "ProjectClad project export",
-        text: "Project export CSV is attached.",
         attachments: [
+          ...(email.attachments ?? []),
           {
             filename: "projectclad-projects.csv",
             content: csv,
           },
         ],
       });
+      await audit({ projectId, after: { toEmail } });
       return { ok: true, emailSent: true };
     } catch (error) {
       return {
@@ -523,6 +1084,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       update: { pricingPasswordHash: null, pricingPasswordSalt: null },
       create: { shop: session.shop },
     });
+    await audit({}, "clear-pricing-password");
 
     return { ok: true, cleared: true };
   }
@@ -538,6 +1100,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       pricingPasswordSalt: salt,
     },
   });
+  await audit({}, "set-pricing-password");
 
   return { ok: true, cleared: false };
 };
@@ -550,15 +1113,25 @@ export default function Settings() {
     mediaImages,
     mediaError,
     navButtons,
+    approvalWorkflow,
+    maxApprovalSteps,
+    lockJobsOnApproval,
+    requireApprovalForCheckout,
+    attachQuoteToApprovalEmails,
+    autoArchiveOrderedProjects,
+    projectStatusFilters,
+    trashRetentionDays,
+    trashRetentionOptions,
+    emailTemplates,
     emailConfigured,
     smtpStatus,
     projects,
     shop,
     grantedScopes,
+    templates,
+    activity,
     memberLookupError,
     variantLookupError,
-    customers,
-    customerListError,
   } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const memberError =
@@ -589,23 +1162,90 @@ export default function Settings() {
     actionData && typeof actionData === "object" && "emailError" in actionData
       ? (actionData.emailError as string)
       : null;
+  const approvalWorkflowSaved =
+    actionData && typeof actionData === "object" && "approvalWorkflowSaved" in actionData
+      ? Boolean(actionData.approvalWorkflowSaved)
+      : false;
+  const approvalRulesSaved =
+    actionData && typeof actionData === "object" && "approvalRulesSaved" in actionData
+      ? Boolean(actionData.approvalRulesSaved)
+      : false;
+  const projectRulesSaved =
+    actionData && typeof actionData === "object" && "projectRulesSaved" in actionData
+      ? Boolean(actionData.projectRulesSaved)
+      : false;
+  const trashRetentionSaved =
+    actionData && typeof actionData === "object" && "trashRetentionSaved" in actionData
+      ? Boolean(actionData.trashRetentionSaved)
+      : false;
+  const trashError =
+    actionData && typeof actionData === "object" && "trashError" in actionData
+      ? (actionData.trashError as string)
+      : null;
+  const emailTemplateSaved =
+    actionData && typeof actionData === "object" && "emailTemplateSaved" in actionData
+      ? (actionData.emailTemplateSaved as string)
+      : null;
+  const emailTemplateError =
+    actionData && typeof actionData === "object" && "emailTemplateError" in actionData
+      ? (actionData.emailTemplateError as string)
+      : null;
+  const emailPreview =
+    actionData && typeof actionData === "object" && "emailPreview" in actionData
+      ? actionData.emailPreview
+      : null;
   const sessionsCleared =
     actionData && typeof actionData === "object" && "sessionsCleared" in actionData
       ? Boolean(actionData.sessionsCleared)
       : false;
+  const projectImported =
+    actionData && typeof actionData === "object" && "projectImported" in actionData
+      ? (actionData.projectImported as string)
+      : null;
+  const importError =
+    actionData && typeof actionData === "object" && "importError" in actionData
+      ? (actionData.importError as string)
+      : null;
+  const templateError =
+    actionData && typeof actionData === "object" && "templateError" in actionData
+      ? (actionData.templateError as string)
+      : null;
+  const templateSaved =
+    actionData && typeof actionData === "object" && "templateSaved" in actionData
+      ? (actionData.templateSaved as string)
+      : null;
+  const templateProjectCreated =
+    actionData && typeof actionData === "object" && "templateProjectCreated" in actionData
+      ? {
+          name: actionData.templateProjectCreated as string,
+          skippedItems: Number(
+            "skippedItems" in actionData ? actionData.skippedItems : 0,
+          ),
+        }
+      : null;
+  const [importJson, setImportJson] = useState("");
+  const [emailTemplateType, setEmailTemplateType] = useState<string>(
+    emailPreview?.type || emailTemplates[0]?.type || "",
+  );
+  const selectedEmailTemplate = emailTemplates.find(
+    (template) => template.type === emailTemplateType,
+  );
   const [downloadError, setDownloadError] = useState<string | null>(null);
   const [downloading, setDownloading] = useState(false);
-  const [selectedCustomerId, setSelectedCustomerId] = useState(
-    customers[0]?.id || "",
-  );
+  const [selectedCustomerId, setSelectedCustomerId] = useState("");
+  const [projectStatusFilter, setProjectStatusFilter] = useState("open");
   const customerProjects = useMemo(() => {
     if (!selectedCustomerId) return [];
     return projects.filter(
       (project) =>
-        project.ownerCustomerId === selectedCustomerId ||
-        project.members.some((member) => member.customerId === selectedCustomerId),
+        (project.ownerCustomerId === selectedCustomerId ||
+          project.members.some((member) => member.customerId === selectedCustomerId)) &&
+        (projectStatusFilter === "all" ||
+          (projectStatusFilter === "open"
+            ? project.status !== "archived"
+            : project.status === projectStatusFilter)),
     );
-  }, [projects, selectedCustomerId]);
+  }, [projects, selectedCustomerId, projectStatusFilter]);
   const [selectedProjectId, setSelectedProjectId] = useState(
     customerProjects[0]?.id || "",
   );
@@ -626,7 +1266,7 @@ export default function Settings() {
     [customerProjects, selectedProjectId],
   );
 
-  const handleDownloadCsv = async () => {
+  const handleDownload = async (format: "csv" | "json" | "pdf", jobId = "") => {
     if (!shop || downloading) return;
     if (!selectedProjectId) {
       setDownloadError("Select a project first.");
@@ -638,23 +1278,28 @@ export default function Settings() {
       const response = await fetch(
         `/app/export-projects?shop=${encodeURIComponent(shop)}&projectId=${encodeURIComponent(
           selectedProjectId,
-        )}`,
+        )}&format=${format}${jobId ? `&jobId=${encodeURIComponent(jobId)}` : ""}`,
       );
       if (!response.ok) {
-        throw new Error("Unable to download CSV.");
+        throw new Error(`Unable to download ${format.toUpperCase()}.`);
       }
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = "projectclad-projects.csv";
+      link.download =
+        format === "json"
+          ? "projectclad-project.json"
+          : format === "pdf"
+            ? "projectclad-quote.pdf"
+            : "projectclad-projects.csv";
       document.body.appendChild(link);
       link.click();
       link.remove();
       window.URL.revokeObjectURL(url);
     } catch (error) {
       setDownloadError(
-        error instanceof Error ? error.message : "Unable to download CSV.",
+        error instanceof Error ? error.message : "Unable to download export.",
       );
     } finally {
       setDownloading(false);
@@ -902,6 +1547,213 @@ export default function Settings() {
           </s-stack>
         </Form>
       </s-section>
+      <s-section heading="Approval workflow">
+        <s-paragraph>
+          Orders go through these steps in order. A step only applies when the
+          order subtotal is at least its minimum, and needs the given number of
+          approvers holding the role. Assign approvers on each project below.
+          Leave every role blank to let any member without the NA tag approve.
+        </s-paragraph>
+        <Form method="post">
+          <input type="hidden" name="intent" value="save-approval-workflow" />
+          <s-stack direction="block" gap="base">
+            {Array.from({ length: maxApprovalSteps }, (_, index) => index + 1).map((i) => (
+              <div
+                key={i}
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "120px 1fr 1fr 1fr",
+                  gap: "0.5rem",
+                  alignItems: "center",
+                }}
+              >
+                <span>Step {i}</span>
+                <input
+                  name={`approvalStep${i}Role`}
+                  type="text"
+                  aria-label={`Step ${i} role`}
+                  placeholder={i === 1 ? "Site lead" : "Role"}
+                  defaultValue={approvalWorkflow[i - 1]?.role || ""}
+                />
+                <input
+                  name={`approvalStep${i}MinSubtotal`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  aria-label={`Step ${i} minimum subtotal`}
+                  placeholder="Minimum subtotal"
+                  defaultValue={approvalWorkflow[i - 1]?.minSubtotal ?? ""}
+                />
+                <input
+                  name={`approvalStep${i}Required`}
+                  type="number"
+                  min={1}
+                  aria-label={`Step ${i} approvals required`}
+                  placeholder="Approvals required"
+                  defaultValue={approvalWorkflow[i - 1]?.requiredApprovals ?? ""}
+                />
+              </div>
+            ))}
+            <button type="submit">Save approval workflow</button>
+            {approvalWorkflowSaved && <s-paragraph>Approval workflow saved.</s-paragraph>}
+          </s-stack>
+        </Form>
+        <Form method="post">
+          <input type="hidden" name="intent" value="save-approval-rules" />
+          <s-stack direction="block" gap="base">
+            <label>
+              <input
+                type="checkbox"
+                name="lockJobsOnApproval"
+                defaultChecked={lockJobsOnApproval}
+              />{" "}
+              Lock orders once they are approved, so quantities can&apos;t change
+              after sign-off. Project owners can unlock an order from the
+              storefront.
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                name="requireApprovalForCheckout"
+                defaultChecked={requireApprovalForCheckout}
+              />{" "}
+              Hide add to cart, checkout and place order until the order or its
+              project is approved.
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                name="attachQuoteToApprovalEmails"
+                defaultChecked={attachQuoteToApprovalEmails}
+              />{" "}
+              Attach a PDF quote of the order or project to approval request
+              emails.
+            </label>
+            <button type="submit">Save approval rules</button>
+            {approvalRulesSaved && <s-paragraph>Approval rules saved.</s-paragraph>}
+          </s-stack>
+        </Form>
+      </s-section>
+      <s-section heading="Trash">
+        <s-paragraph>
+          Deleted projects, orders and items stay in the trash so customers can
+          restore them. After this many days they are removed for good.
+        </s-paragraph>
+        <Form method="post">
+          <input type="hidden" name="intent" value="save-trash-retention" />
+          <s-stack direction="block" gap="base">
+            <label style={{ display: "grid", gap: "0.25rem" }}>
+              <span>Keep deleted items for</span>
+              <select name="trashRetentionDays" defaultValue={trashRetentionDays}>
+                {trashRetentionOptions.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit">Save trash settings</button>
+            {trashRetentionSaved && <s-paragraph>Trash settings saved.</s-paragraph>}
+            {trashError && <s-paragraph>{trashError}</s-paragraph>}
+          </s-stack>
+        </Form>
+      </s-section>
+      <s-section heading="Email templates">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Each email is sent as HTML with your logo, plus a plain-text
+            version for mail clients that don&apos;t show HTML. Use{" "}
+            {"{{variable}}"} placeholders for project details and links.
+          </s-paragraph>
+          <label style={{ display: "grid", gap: "0.25rem" }}>
+            <span>Email</span>
+            <select
+              value={emailTemplateType}
+              onChange={(event) => setEmailTemplateType(event.currentTarget.value)}
+            >
+              {emailTemplates.map((template) => (
+                <option key={template.type} value={template.type}>
+                  {template.label}
+                  {template.isCustom ? " (customized)" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+          {selectedEmailTemplate && (
+            <Form method="post" key={selectedEmailTemplate.type}>
+              <input
+                type="hidden"
+                name="templateType"
+                value={selectedEmailTemplate.type}
+              />
+              <s-stack direction="block" gap="base">
+                <s-paragraph>{selectedEmailTemplate.description}</s-paragraph>
+                <s-paragraph>
+                  Variables:{" "}
+                  {Object.entries(selectedEmailTemplate.variables)
+                    .map(([name, description]) => `{{${name}}} – ${description}`)
+                    .join("; ")}
+                </s-paragraph>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  <span>Subject</span>
+                  <input
+                    name="subject"
+                    type="text"
+                    defaultValue={selectedEmailTemplate.subject}
+                  />
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  <span>HTML</span>
+                  <textarea
+                    name="html"
+                    rows={8}
+                    defaultValue={selectedEmailTemplate.html}
+                    style={{ fontFamily: "monospace" }}
+                  />
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  <span>Plain text</span>
+                  <textarea
+                    name="text"
+                    rows={6}
+                    defaultValue={selectedEmailTemplate.text}
+                    style={{ fontFamily: "monospace" }}
+                  />
+                </label>
+                <s-stack direction="inline" gap="base">
+                  <button type="submit" name="intent" value="preview-email-template">
+                    Preview
+                  </button>
+                  <button type="submit" name="intent" value="save-email-template">
+                    Save template
+                  </button>
+                  {selectedEmailTemplate.isCustom && (
+                    <button type="submit" name="intent" value="reset-email-template">
+                      Reset to default
+                    </button>
+                  )}
+                </s-stack>
+                {emailTemplateSaved === selectedEmailTemplate.type && (
+                  <s-paragraph>Email template saved.</s-paragraph>
+                )}
+                {emailTemplateError && <s-paragraph>{emailTemplateError}</s-paragraph>}
+              </s-stack>
+            </Form>
+          )}
+          {emailPreview && emailPreview.type === emailTemplateType && (
+            <s-stack direction="block" gap="base">
+              <s-paragraph>Subject: {emailPreview.subject}</s-paragraph>
+              <iframe
+                title="Email preview"
+                srcDoc={emailPreview.html}
+                sandbox=""
+                style={{ width: "100%", height: "360px", border: "1px solid #ddd" }}
+              />
+              <pre style={{ whiteSpace: "pre-wrap" }}>{emailPreview.text}</pre>
+            </s-stack>
+          )}
+        </s-stack>
+      </s-section>
       <s-section heading="Pricing visibility password">
         <s-paragraph>
           Customers must enter this password to reveal pricing in project views.
@@ -930,10 +1782,81 @@ export default function Settings() {
       </s-section>
       <s-section heading="Projects">
         <s-stack direction="block" gap="base">
-          <button type="button" onClick={handleDownloadCsv} disabled={downloading}>
-            {downloading ? "Downloading..." : "Download projects CSV"}
-          </button>
+          <s-stack direction="inline" gap="base">
+            <button
+              type="button"
+              onClick={() => handleDownload("csv")}
+              disabled={downloading}
+            >
+              {downloading ? "Downloading..." : "Download projects CSV"}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDownload("json")}
+              disabled={downloading}
+            >
+              Download project backup (JSON)
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDownload("pdf")}
+              disabled={downloading}
+            >
+              Download quote (PDF)
+            </button>
+          </s-stack>
           {downloadError && <s-paragraph>{downloadError}</s-paragraph>}
+          <Form method="post">
+            <input type="hidden" name="intent" value="save-project-rules" />
+            <s-stack direction="block" gap="base">
+              <label>
+                <input
+                  type="checkbox"
+                  name="autoArchiveOrderedProjects"
+                  defaultChecked={autoArchiveOrderedProjects}
+                />{" "}
+                Archive a project automatically once every order in it has
+                been placed. Archived projects are read-only and hidden from
+                the storefront projects list until they are unarchived.
+              </label>
+              <button type="submit">Save project rules</button>
+              {projectRulesSaved && <s-paragraph>Project rules saved.</s-paragraph>}
+            </s-stack>
+          </Form>
+          <Form method="post">
+            <input type="hidden" name="intent" value="import-project" />
+            <input type="hidden" name="projectJson" value={importJson} />
+            <s-stack direction="block" gap="base">
+              <s-paragraph>
+                Restore a project from a JSON backup, from this shop or another
+                one. Projects from another shop need a new owner; their members,
+                approvers and share links are not carried over.
+              </s-paragraph>
+              <label style={{ display: "grid", gap: "0.25rem" }}>
+                <span>Backup file</span>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={async (event) => {
+                    const file = event.currentTarget.files?.[0];
+                    setImportJson(file ? await file.text() : "");
+                  }}
+                />
+              </label>
+              <CustomerPicker
+                label="Owner"
+                name="ownerCustomerId"
+                emptyLabel="Keep the original owner"
+              />
+              <button type="submit" disabled={!importJson}>
+                Import project
+              </button>
+              {projectImported && (
+                <s-paragraph>Imported project {projectImported}.</s-paragraph>
+              )}
+              {importError && <s-paragraph>{importError}</s-paragraph>}
+            </s-stack>
+          </Form>
           <s-stack direction="block" gap="base">
             <s-paragraph>
               {emailConfigured
@@ -979,27 +1902,29 @@ export default function Settings() {
               {emailError && <s-paragraph>{emailError}</s-paragraph>}
             </Form>
           </s-stack>
+          <CustomerPicker
+            label="User account e-mail"
+            emptyLabel="Select a customer"
+            onChange={(nextId) => {
+              setSelectedCustomerId(nextId);
+              const nextProjects = projects.filter(
+                (project) =>
+                  project.ownerCustomerId === nextId ||
+                  project.members.some((member) => member.customerId === nextId),
+              );
+              setSelectedProjectId(nextProjects[0]?.id || "");
+            }}
+          />
+
           <label style={{ display: "grid", gap: "0.25rem" }}>
-            <span>User account e-mail</span>
+            <span>Show</span>
             <select
-              value={selectedCustomerId}
-              onChange={(event) => {
-                const nextId = event.target.value;
-                setSelectedCustomerId(nextId);
-                const nextProjects = projects.filter(
-                  (project) =>
-                    project.ownerCustomerId === nextId ||
-                    project.members.some(
-                      (member) => member.customerId === nextId,
-                    ),
-                );
-                setSelectedProjectId(nextProjects[0]?.id || "");
-              }}
+              value={projectStatusFilter}
+              onChange={(event) => setProjectStatusFilter(event.target.value)}
             >
-              <option value="">Select a customer</option>
-              {customers.map((customer) => (
-                <option key={customer.id} value={customer.id}>
-                  {customer.email || "No email"}
+              {projectStatusFilters.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
                 </option>
               ))}
             </select>
@@ -1014,7 +1939,7 @@ export default function Settings() {
               <option value="">Select a project</option>
               {customerProjects.map((project) => (
                 <option key={project.id} value={project.id}>
-                  {project.name}
+                  {project.name} ({project.statusLabel})
                 </option>
               ))}
             </select>
@@ -1049,6 +1974,25 @@ export default function Settings() {
                   {projectError && <s-paragraph>{projectError}</s-paragraph>}
                 </s-stack>
               </Form>
+              <Form method="post">
+                <input type="hidden" name="intent" value="set-project-status-admin" />
+                <input type="hidden" name="projectId" value={selectedProject.id} />
+                <s-stack direction="inline" gap="base">
+                  <label style={{ display: "grid", gap: "0.25rem" }}>
+                    <span>Status: {selectedProject.statusLabel}</span>
+                    <select name="status">
+                      {selectedProject.nextStatuses.map((status) => (
+                        <option key={status.value} value={status.value}>
+                          {status.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button type="submit" style={{ alignSelf: "end" }}>
+                    Change status
+                  </button>
+                </s-stack>
+              </Form>
 
               <s-stack direction="block" gap="base">
                 <s-paragraph>Orders and products</s-paragraph>
@@ -1059,13 +2003,43 @@ export default function Settings() {
                   selectedProject.jobs.map((job) => (
                     <s-card key={job.id} padding="base">
                       <s-stack direction="block" gap="base">
-                        <s-paragraph>{job.name}</s-paragraph>
-                        <Form method="post">
-                          <input type="hidden" name="intent" value="delete-job-admin" />
-                          <input type="hidden" name="projectId" value={selectedProject.id} />
-                          <input type="hidden" name="jobId" value={job.id} />
-                          <button type="submit">Delete order</button>
-                        </Form>
+                        <s-paragraph>
+                          {job.name}
+                          {job.orderName
+                            ? ` • Ordered as ${job.orderName}`
+                            : job.isLocked
+                              ? " • Locked"
+                              : ""}
+                        </s-paragraph>
+                        <s-stack direction="inline" gap="base">
+                          <button
+                            type="button"
+                            onClick={() => handleDownload("pdf", job.id)}
+                            disabled={downloading}
+                          >
+                            Download order quote (PDF)
+                          </button>
+                        </s-stack>
+                        {!job.orderName && (
+                          <s-stack direction="inline" gap="base">
+                            <Form method="post">
+                              <input type="hidden" name="intent" value="place-order-admin" />
+                              <input type="hidden" name="projectId" value={selectedProject.id} />
+                              <input type="hidden" name="jobId" value={job.id} />
+                              <button type="submit" disabled={job.items.length === 0}>
+                                Create Shopify order
+                              </button>
+                            </Form>
+                            {!job.isLocked && (
+                              <Form method="post">
+                                <input type="hidden" name="intent" value="delete-job-admin" />
+                                <input type="hidden" name="projectId" value={selectedProject.id} />
+                                <input type="hidden" name="jobId" value={job.id} />
+                                <button type="submit">Delete order</button>
+                              </Form>
+                            )}
+                          </s-stack>
+                        )}
                         {job.items.length === 0 ? (
                           <s-paragraph>No items.</s-paragraph>
                         ) : (
@@ -1079,6 +2053,7 @@ export default function Settings() {
                             >
                               <s-paragraph>
                                 {item.displayName} • Quantity {item.quantity}
+                                {item.isUnavailable && " • Unavailable: no longer for sale"}
                               </s-paragraph>
                               <Form method="post">
                                 <input
@@ -1146,10 +2121,11 @@ export default function Settings() {
                   <input type="hidden" name="intent" value="add-member" />
                   <input type="hidden" name="projectId" value={selectedProject.id} />
                   <s-stack direction="block" gap="base">
-                    <label style={{ display: "grid", gap: "0.25rem" }}>
-                      <span>Add member email</span>
-                      <input name="email" type="email" placeholder="email@example.com" />
-                    </label>
+                    <CustomerPicker
+                      label="Add member"
+                      name="customerId"
+                      emptyLabel="Select a customer"
+                    />
                     <label style={{ display: "grid", gap: "0.25rem" }}>
                       <span>Role</span>
                       <select name="role" defaultValue="edit">
@@ -1165,12 +2141,332 @@ export default function Settings() {
                   </s-stack>
                 </Form>
               </s-stack>
+
+              <Form method="post">
+                <input type="hidden" name="intent" value="save-project-approvers" />
+                <input type="hidden" name="projectId" value={selectedProject.id} />
+                <s-stack direction="block" gap="base">
+                  <s-paragraph>Approvers</s-paragraph>
+                  {approvalWorkflow.length === 0 ? (
+                    <s-paragraph>
+                      No approval workflow is configured. Any member without the
+                      NA tag can approve.
+                    </s-paragraph>
+                  ) : (
+                    approvalWorkflow.map((step, index) => (
+                      <s-stack key={`${step.role}-${index}`} direction="block" gap="base">
+                        <s-paragraph>
+                          Step {index + 1}: {step.role} • {step.requiredApprovals} required
+                          {step.minSubtotal > 0 ? ` • from ${step.minSubtotal.toFixed(2)}` : ""}
+                        </s-paragraph>
+                        {selectedProject.members.map((member) => {
+                          const name =
+                            [member.firstName, member.lastName].filter(Boolean).join(" ") ||
+                            member.email ||
+                            member.customerId;
+                          return (
+                            <label
+                              key={member.customerId}
+                              style={{ display: "flex", gap: "0.5rem" }}
+                            >
+                              <input
+                                type="checkbox"
+                                name={`approvers${index + 1}`}
+                                value={member.customerId}
+                                defaultChecked={selectedProject.approvers.some(
+                                  (approver) =>
+                                    approver.role === step.role &&
+                                    approver.customerId === member.customerId,
+                                )}
+                              />
+                              {name}
+                            </label>
+                          );
+                        })}
+                      </s-stack>
+                    ))
+                  )}
+                  {selectedProject.approvalWorkflow !== null &&
+                    JSON.stringify(selectedProject.approvalWorkflow) !==
+                      JSON.stringify(approvalWorkflow) && (
+                      <s-paragraph>
+                        This project still uses an earlier workflow. Saving
+                        approvers applies the current shop workflow.
+                      </s-paragraph>
+                    )}
+                  {approvalWorkflow.length > 0 && (
+                    <button type="submit">Save approvers</button>
+                  )}
+                </s-stack>
+              </Form>
+
+              <Form method="post">
+                <input type="hidden" name="intent" value="save-template-admin" />
+                <input type="hidden" name="projectId" value={selectedProject.id} />
+                <s-stack direction="block" gap="base">
+                  <label style={{ display: "grid", gap: "0.25rem" }}>
+                    <span>Save as shop template</span>
+                    <input
+                      name="templateName"
+                      type="text"
+                      defaultValue={selectedProject.name}
+                    />
+                  </label>
+                  <button type="submit">Save as template</button>
+                  {templateSaved && (
+                    <s-paragraph>Saved template {templateSaved}.</s-paragraph>
+                  )}
+                </s-stack>
+              </Form>
+
+              <s-stack direction="block" gap="base">
+                <s-paragraph>Activity</s-paragraph>
+                <AuditTimeline
+                  events={activity.filter(
+                    (event) => event.projectId === selectedProject.id,
+                  )}
+                  jobNames={Object.fromEntries(
+                    selectedProject.jobs.map((job) => [job.id, job.name]),
+                  )}
+                />
+              </s-stack>
             </s-card>
           )}
 
-          {customerListError && <s-paragraph>{customerListError}</s-paragraph>}
         </s-stack>
       </s-section>
+
+      <s-section heading="Project templates">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Shop templates are offered to every customer on their projects page.
+            Customers can also save their own, which only they see. New projects
+            take current prices; products no longer for sale are left out.
+          </s-paragraph>
+          {templates.length === 0 ? (
+            <s-paragraph>
+              No templates yet. Save one from a project above.
+            </s-paragraph>
+          ) : (
+            templates.map((template) => (
+              <s-stack key={template.id} direction="inline" gap="base">
+                <s-paragraph>
+                  {template.name} • {template.jobCount} orders • {template.itemCount} items •{" "}
+                  {template.isShopTemplate ? "Shop template" : "Saved by a customer"}
+                </s-paragraph>
+                <Form method="post">
+                  <input type="hidden" name="intent" value="delete-template-admin" />
+                  <input type="hidden" name="templateId" value={template.id} />
+                  <button type="submit">Delete</button>
+                </Form>
+              </s-stack>
+            ))
+          )}
+          {templates.length > 0 && (
+            <Form method="post">
+              <input type="hidden" name="intent" value="create-from-template-admin" />
+              <s-stack direction="block" gap="base">
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  <span>Template</span>
+                  <select name="templateId">
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  <span>Project name</span>
+                  <input name="projectName" type="text" />
+                </label>
+                <CustomerPicker
+                  label="Owner"
+                  name="ownerCustomerId"
+                  emptyLabel="Select a customer"
+                />
+                <button type="submit">Create project from template</button>
+                {templateProjectCreated && (
+                  <s-paragraph>
+                    Created project {templateProjectCreated.name}.
+                    {templateProjectCreated.skippedItems > 0 &&
+                      ` ${templateProjectCreated.skippedItems} items are no longer for sale and were left out.`}
+                  </s-paragraph>
+                )}
+              </s-stack>
+            </Form>
+          )}
+          {templateError && <s-paragraph>{templateError}</s-paragraph>}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Shop activity">
+        <AuditTimeline
+          events={activity.filter((event) => !event.projectId)}
+          jobNames={{}}
+        />
+      </s-section>
     </s-page>
   );
 }
+
+type AuditTimelineEvent = {
+  id: string;
+  summary: string;
+  actorName: string;
+  jobId: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+};
+
+type PickerCustomer = {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  company: string | null;
+};
+
+const formatPickerCustomer = (customer: PickerCustomer) =>
+  [
+    [customer.firstName, customer.lastName].filter(Boolean).join(" "),
+    customer.email || "No email",
+    customer.company,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
+/**
+ * Searches the shop's customers by email, name or company a page at a time,
+ * so large shops are not cut off at the first few hundred.
+ */
+function CustomerPicker({
+  label,
+  name,
+  emptyLabel,
+  onChange,
+}: {
+  label: string;
+  name?: string;
+  emptyLabel: string;
+  onChange?: (customerId: string) => void;
+}) {
+  const fetcher = useFetcher<typeof customersLoader>();
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<PickerCustomer[]>([]);
+  const [selected, setSelected] = useState<PickerCustomer | null>(null);
+  const load = fetcher.load;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      load(`/app/customers?q=${encodeURIComponent(search.trim())}`);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [load, search]);
+
+  useEffect(() => {
+    const page = fetcher.data;
+    if (!page) return;
+    setResults((current) =>
+      page.after
+        ? [
+            ...current,
+            ...page.customers.filter(
+              (customer) => !current.some((entry) => entry.id === customer.id),
+            ),
+          ]
+        : page.customers,
+    );
+  }, [fetcher.data]);
+
+  const options =
+    selected && !results.some((customer) => customer.id === selected.id)
+      ? [selected, ...results]
+      : results;
+  const nextCursor = fetcher.data?.nextCursor || null;
+
+  return (
+    <s-stack direction="block" gap="base">
+      <label style={{ display: "grid", gap: "0.25rem" }}>
+        <span>{label}</span>
+        <input
+          type="search"
+          value={search}
+          placeholder="Search by email, name or company"
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </label>
+      <select
+        name={name}
+        aria-label={label}
+        value={selected?.id || ""}
+        onChange={(event) => {
+          const nextId = event.target.value;
+          setSelected(options.find((customer) => customer.id === nextId) || null);
+          onChange?.(nextId);
+        }}
+      >
+        <option value="">{emptyLabel}</option>
+        {options.map((customer) => (
+          <option key={customer.id} value={customer.id}>
+            {formatPickerCustomer(customer)}
+          </option>
+        ))}
+      </select>
+      {fetcher.state === "loading" && <s-paragraph>Searching customers…</s-paragraph>}
+      {fetcher.state === "idle" &&
+        fetcher.data &&
+        !fetcher.data.error &&
+        results.length === 0 && (
+          <s-paragraph>No customers match that search.</s-paragraph>
+        )}
+      {nextCursor && (
+        <button
+          type="button"
+          disabled={fetcher.state !== "idle"}
+          onClick={() =>
+            load(
+              `/app/customers?q=${encodeURIComponent(search.trim())}&after=${encodeURIComponent(nextCursor)}`,
+            )
+          }
+        >
+          Load more customers
+        </button>
+      )}
+      {fetcher.data?.error && <s-paragraph>{fetcher.data.error}</s-paragraph>}
+    </s-stack>
+  );
+}
+
+function AuditTimeline({
+  events,
+  jobNames,
+}: {
+  events: AuditTimelineEvent[];
+  jobNames: Record<string, string>;
+}) {
+  if (events.length === 0) {
+    return <s-paragraph>No activity recorded yet.</s-paragraph>;
+  }
+
+  return (
+    <s-stack direction="block" gap="base">
+      {events.map((event) => (
+        <details key={event.id}>
+          <summary>
+            {new Date(event.createdAt).toLocaleString()} • {event.actorName} •{" "}
+            {event.summary}
+            {event.jobId ? ` • ${jobNames[event.jobId] || "Deleted order"}` : ""}
+          </summary>
+          {event.before != null && (
+            <pre>Before: {JSON.stringify(event.before, null, 2)}</pre>
+          )}
+          {event.after != null && (
+            <pre>After: {JSON.stringify(event.after, null, 2)}</pre>
+          )}
+        </details>
+      ))}
+    </s-stack>
+  );
+}
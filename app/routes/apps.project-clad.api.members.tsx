@@ -2,6 +2,9 @@ import type { ActionFunctionArgs } from "react-router";
 import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
 import { findCustomerIdByEmail } from "../utils/adminCustomers.server";
+import { recordAuditEvent } from "../utils/auditLog.server";
+import { sendMemberAddedEmail } from "../utils/emailTemplates.server";
+import { isProjectArchived } from "../utils/projectStatus.server";
 
 type MemberPayload = {
   intent?: "add" | "remove";
@@ -24,7 +27,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: { members: true },
   });
 
@@ -40,6 +43,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
+  // Archived projects are read-only until they are moved back to active.
+  if (isProjectArchived(project)) {
+    return Response.json(
+      { error: "This project is archived. Unarchive it to change members." },
+      { status: 400 },
+    );
+  }
+
   if (intent === "add") {
     const email = String(payload.email || "").trim();
     const role = payload.role === "edit" ? "edit" : "view";
@@ -91,6 +102,28 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         role,
       },
     });
+    const previousRole = project.members.find(
+      (member) => member.customerId === memberCustomerId,
+    )?.role;
+    await recordAuditEvent({
+      shop,
+      projectId,
+      actorCustomerId: customerId,
+      intent: "add-member",
+      before: previousRole
+        ? { customerId: memberCustomerId, role: previousRole }
+        : null,
+      after: { customerId: memberCustomerId, role },
+    });
+    if (!previousRole) {
+      await sendMemberAddedEmail(shop, {
+        projectId,
+        projectName: project.name,
+        email,
+        role,
+        inviterCustomerId: customerId,
+      });
+    }
 
     return Response.json({ ok: true });
   }
@@ -101,9 +134,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return Response.json({ error: "Invalid member." }, { status: 400 });
     }
 
-    await prisma.projectMember.deleteMany({
+    const removed = await prisma.projectMember.deleteMany({
       where: { projectId, customerId: memberCustomerId },
     });
+    if (removed.count) {
+      await recordAuditEvent({
+        shop,
+        projectId,
+        actorCustomerId: customerId,
+        intent: "remove-member",
+        before: {
+          customerId: memberCustomerId,
+          role: project.members.find(
+            (member) => member.customerId === memberCustomerId,
+          )?.role,
+        },
+      });
+    }
 
     return Response.json({ ok: true });
   }
@@ -1,4 +1,3 @@
-import crypto from "node:crypto";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
@@ -6,8 +5,40 @@ import {
   findCustomerIdByEmail,
   getCustomersByIds,
 } from "../utils/adminCustomers.server";
-import { getAdminVariantInfo } from "../utils/adminVariants.server";
+import { getVariantInfo } from "../utils/variantCache.server";
+import { placeOrderForJob } from "../utils/adminOrders.server";
+import { recordAuditEvent, toAuditItem } from "../utils/auditLog.server";
+import { getBudgetSummary, isJobOverBudget } from "../utils/budgets.server";
+import { isProjectArchived } from "../utils/projectStatus.server";
+import {
+  createShareToken,
+  getShareLinkPath,
+  revokeShareToken,
+} from "../utils/shareTokens.server";
 import { isEmailConfigured, sendEmail } from "../utils/email.server";
+import { buildTemplatedEmail } from "../utils/emailTemplates.server";
+import { getRecipientsByDelivery } from "../utils/notifications.server";
+import { getApprovalQuoteAttachments } from "../utils/quotePdf.server";
+import {
+  ensureBaseRevision,
+  recordJobRevision,
+  recordSubmissionRevisions,
+} from "../utils/jobRevisions.server";
+import { restoreItem, restoreJob, trashData } from "../utils/trash.server";
+import {
+  getApplicableSteps,
+  getApprovalEnforcement,
+  getApprovalSubtotal,
+  getProjectApprovalWorkflow,
+  getStepApproverIds,
+  isJobApproved,
+  lockApprovedJobs,
+  parseApprovalWorkflow,
+  recordApprovalHistory,
+  toWorkflowJson,
+  type ApprovalOutcome,
+  type ApprovalStep,
+} from "../utils/approvalWorkflow.server";
 import { verifyPassword } from "../utils/passwords.server";
 
 const PRICING_COOKIE = "projectclad_pricing=1";
@@ -23,6 +54,34 @@ const getNextJobSortOrder = async (projectId: string) => {
   return (result._max.sortOrder ?? 0) + 1;
 };
 
+const getApprovalContextLabel = async (
+  shop: string,
+  project: { id: string; name: string },
+  jobId: string,
+  itemId: string,
+) => {
+  if (!jobId) return project.name;
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, projectId: project.id },
+    select: { name: true },
+  });
+  const jobName = job?.name || "an order";
+  if (!itemId) return `${jobName} in ${project.name}`;
+  const item = await prisma.jobItem.findFirst({
+    where: { id: itemId },
+    include: { job: { select: { name: true } } },
+  });
+  if (!item?.job) return `item in ${jobName}, ${project.name}`;
+  const variantInfo = await getVariantInfo(shop, [item.variantId]).catch(
+    () => ({}) as Awaited<ReturnType<typeof getVariantInfo>>,
+  );
+  const productLabel =
+    variantInfo[item.variantId]?.productTitle ||
+    variantInfo[item.variantId]?.title ||
+    "Item";
+  return `${productLabel} in ${item.job.name}, ${project.name}`;
+};
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { shop, customerId } = requireAppProxyCustomer(request, {
     jsonOnFail: true,
@@ -36,8 +95,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
-    include: { members: true },
+    where: { id: projectId, shop, deletedAt: null },
+    include: { members: true, approvers: true },
   });
 
   if (!project) {
@@ -56,6 +115,39 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   )?.role;
   const isOwner = project.ownerCustomerId === customerId;
   const canEdit = isOwner || memberRole === "edit";
+  const audit = (event: {
+    jobId?: string | null;
+    before?: unknown;
+    after?: unknown;
+  }) =>
+    recordAuditEvent({
+      shop,
+      projectId,
+      actorCustomerId: customerId,
+      intent,
+      ...event,
+    });
+  // Archived projects are read-only until they are moved back to active.
+  if (isProjectArchived(project) && intent !== "unlock-pricing") {
+    return Response.json(
+      { error: "This project is archived. Unarchive it to make changes." },
+      { status: 400 },
+    );
+  }
+  const lockOnApproval = async (jobId: string, itemId: string) => {
+    if (itemId) return;
+    const lockedJobIds = await lockApprovedJobs(shop, projectId, jobId);
+    if (lockedJobIds.length > 0) {
+      await recordAuditEvent({
+        shop,
+        projectId,
+        jobId: jobId || null,
+        actorCustomerId: customerId,
+        intent: "lock-on-approval",
+        after: { lockedJobIds },
+      });
+    }
+  };
 
   if (intent === "unlock-pricing") {
     const password = (url.searchParams.get("password") || "").trim();
@@ -71,6 +163,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         settings.pricingPasswordHash,
       )
     ) {
+      await audit({});
       return Response.json(
         { pricingUnlocked: true },
         { headers: { "Set-Cookie": createPricingCookie() } },
@@ -88,7 +181,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return Response.json({ error: "Order name is required." }, { status: 400 });
     }
     const existingNames = await prisma.job.findMany({
-      where: { projectId },
+      where: { projectId, deletedAt: null },
       select: { name: true },
     });
     const normalizedName = name.toLowerCase();
@@ -99,9 +192,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return Response.json({ error: "This order already exists." }, { status: 400 });
     }
     const nextSortOrder = await getNextJobSortOrder(projectId);
-    await prisma.job.create({
+    const job = await prisma.job.create({
       data: { projectId, name, sortOrder: nextSortOrder },
     });
+    await audit({ jobId: job.id, after: { name } });
     return Response.json({ ok: true });
   }
 
@@ -114,8 +208,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return Response.json({ error: "Order is required." }, { status: 400 });
     }
     const job = await prisma.job.findFirst({
-      where: { id: jobId, projectId },
-      include: { orderLink: true },
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { orderLink: true, items: { where: { deletedAt: null } } },
     });
     if (!job) {
       return Response.json({ error: "Order not found." }, { status: 404 });
@@ -124,7 +218,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (isLocked) {
       return Response.json({ error: "Order is locked." }, { status: 403 });
     }
-    await prisma.job.delete({ where: { id: jobId } });
+    await prisma.job.update({ where: { id: jobId }, data: trashData(customerId) });
+    await audit({
+      jobId,
+      before: { name: job.name, items: job.items.map(toAuditItem) },
+    });
     return Response.json({ ok: true });
   }
 
@@ -137,7 +235,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return Response.json({ error: "Item is required." }, { status: 400 });
     }
     const item = await prisma.jobItem.findFirst({
-      where: { id: itemId },
+      where: { id: itemId, deletedAt: null },
       include: { job: { include: { orderLink: true } } },
     });
     if (!item || item.job.projectId !== projectId) {
@@ -147,7 +245,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (isLocked) {
       return Response.json({ error: "Order is locked." }, { status: 403 });
     }
-    await prisma.jobItem.delete({ where: { id: itemId } });
+    await ensureBaseRevision(item.jobId);
+    await prisma.jobItem.update({ where: { id: itemId }, data: trashData(customerId) });
     await prisma.approvalRequest.deleteMany({
       where: {
         projectId,
@@ -155,23 +254,197 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         itemId: "",
       },
     });
+    await audit({ jobId: item.jobId, before: toAuditItem(item) });
+    await recordJobRevision(item.jobId, { reason: intent, customerId });
     return Response.json({ ok: true });
   }
 
-  if (intent === "share-project") {
+  if (intent === "restore-job") {
     if (!canEdit) {
       return Response.json({ error: "Forbidden." }, { status: 403 });
     }
-    const role = url.searchParams.get("role") || "view";
-    const token = crypto.randomBytes(16).toString("hex");
-    await prisma.projectShareToken.create({
-      data: {
+    const jobId = url.searchParams.get("jobId") || "";
+    const job = jobId ? await restoreJob(projectId, jobId) : null;
+    if (!job) {
+      return Response.json({ error: "Order is no longer in the trash." }, { status: 404 });
+    }
+    await audit({ jobId, after: { name: job.name } });
+    return Response.json({ ok: true });
+  }
+
+  if (intent === "restore-item") {
+    if (!canEdit) {
+      return Response.json({ error: "Forbidden." }, { status: 403 });
+    }
+    const itemId = url.searchParams.get("itemId") || "";
+    try {
+      const item = itemId ? await restoreItem(projectId, itemId) : null;
+      if (!item) {
+        return Response.json({ error: "Item is no longer in the trash." }, { status: 404 });
+      }
+      await prisma.approvalRequest.deleteMany({
+        where: { projectId, jobId: item.jobId, itemId: "" },
+      });
+      await audit({ jobId: item.jobId, after: toAuditItem(item) });
+      await recordJobRevision(item.jobId, { reason: intent, customerId });
+    } catch (error) {
+      return Response.json(
+        { error: error instanceof Error ? error.message : "Restore failed." },
+        { status: 400 },
+      );
+    }
+    return Response.json({ ok: true });
+  }
+
+  if (intent === "place-order") {
+    if (!canEdit) {
+      return Response.json({ error: "Forbidden." }, { status: 403 });
+    }
+    const jobId = url.searchParams.get("jobId") || "";
+    if (!jobId) {
+      return Response.json({ error: "Order is required." }, { status: 400 });
+    }
+    let customerInfo: Awaited<ReturnType<typeof getCustomersByIds>> = {};
+    try {
+      customerInfo = await getCustomersByIds(shop, [customerId]);
+    } catch {
+      // If customer lookup fails, allow ordering (no NA restriction)
+    }
+    const viewerTags = customerInfo[customerId]?.tags ?? [];
+    if (viewerTags.some((t) => String(t).trim().toUpperCase() === "NA")) {
+      return Response.json(
+        { error: "Submit this order for approval instead." },
+        { status: 403 },
+      );
+    }
+    // Rejected and sent-back requests hold the order as well as pending ones.
+    const openApproval = await prisma.approvalRequest.findFirst({
+      where: {
         projectId,
-        token,
-        role: role === "edit" ? "edit" : "view",
+        itemId: "",
+        approvedAt: null,
+        jobId: { in: [jobId, ""] },
+      },
+    });
+    if (openApproval) {
+      return Response.json(
+        {
+          error: openApproval.outcome
+            ? "An approver sent this order back. Resubmit it for approval before placing it."
+            : "Order is awaiting approval.",
+        },
+        { status: 400 },
+      );
+    }
+    const { requireApprovalForCheckout } = await getApprovalEnforcement(shop);
+    if (requireApprovalForCheckout && !(await isJobApproved(projectId, jobId))) {
+      return Response.json(
+        { error: "This order must be approved before it can be placed." },
+        { status: 400 },
+      );
+    }
+    const budget = await getBudgetSummary(projectId);
+    if (
+      budget?.needsApproval &&
+      isJobOverBudget(budget, jobId) &&
+      !(await isJobApproved(projectId, jobId))
+    ) {
+      return Response.json(
+        { error: "This order is over budget and must be approved before it can be placed." },
+        { status: 400 },
+      );
+    }
+    try {
+      const placed = await placeOrderForJob(shop, jobId, { customerId });
+      await audit({ jobId, after: placed });
+      return Response.json({ ok: true, orderName: placed.orderName });
+    } catch (error) {
+      return Response.json(
+        {
+          error:
+            error instanceof Error ? error.message : "Unable to place order.",
+        },
+        { status: 400 },
+      );
+    }
+  }
+
+  if (intent === "share-project") {
+    if (!canEdit) {
+      return Response.json({ error: "Forbidden." }, { status: 403 });
+    }
+    const shareToken = await createShareToken(projectId, {
+      role: url.searchParams.get("role"),
+      expiresInDays: url.searchParams.get("expiresInDays"),
+      maxUses: url.searchParams.get("maxUses"),
+      createdByCustomerId: customerId,
+    });
+    await audit({
+      after: {
+        shareTokenId: shareToken.id,
+        role: shareToken.role,
+        expiresAt: shareToken.expiresAt,
+        maxUses: shareToken.maxUses,
       },
     });
-    return Response.json({ shareLink: `/apps/project-clad/share/${token}` });
+    return Response.json({ shareLink: getShareLinkPath(shareToken.token) });
+  }
+
+  if (intent === "revoke-share-link") {
+    if (!isOwner) {
+      return Response.json(
+        { error: "Only the project owner can revoke share links." },
+        { status: 403 },
+      );
+    }
+    const shareTokenId = url.searchParams.get("shareTokenId") || "";
+    const revoked = await revokeShareToken(projectId, shareTokenId);
+    if (!revoked) {
+      return Response.json(
+        { error: "Share link not found or already revoked." },
+        { status: 404 },
+      );
+    }
+    await audit({ before: { shareTokenId } });
+    return Response.json({ ok: true });
+  }
+
+  if (intent === "unlock-job") {
+    if (!isOwner) {
+      return Response.json(
+        { error: "Only the project owner can unlock orders." },
+        { status: 403 },
+      );
+    }
+    const jobId = url.searchParams.get("jobId") || "";
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { orderLink: true },
+    });
+    if (!job) {
+      return Response.json({ error: "Order not found." }, { status: 404 });
+    }
+    if (job.orderLink) {
+      return Response.json(
+        { error: "Placed orders cannot be unlocked." },
+        { status: 400 },
+      );
+    }
+    if (!job.isLocked) {
+      return Response.json({ ok: true });
+    }
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { isLocked: false },
+    });
+    await recordApprovalHistory({
+      projectId,
+      jobId,
+      action: "unlocked",
+      customerId,
+    });
+    await audit({ jobId, before: { isLocked: true }, after: { isLocked: false } });
+    return Response.json({ ok: true });
   }
 
   if (intent === "add-member") {
@@ -222,6 +495,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       update: { role },
       create: { projectId, customerId: memberCustomerId, role },
     });
+    const previousRole = project.members.find(
+      (member) => member.customerId === memberCustomerId,
+    )?.role;
+    await audit({
+      before: previousRole
+        ? { customerId: memberCustomerId, role: previousRole }
+        : null,
+      after: { customerId: memberCustomerId, role },
+    });
     return Response.json({ ok: true });
   }
 
@@ -236,38 +518,124 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (!memberCustomerId || memberCustomerId === project.ownerCustomerId) {
       return Response.json({ error: "Invalid member." }, { status: 400 });
     }
-    await prisma.projectMember.deleteMany({
+    const removed = await prisma.projectMember.deleteMany({
       where: { projectId, customerId: memberCustomerId },
     });
+    if (removed.count) {
+      await audit({
+        before: {
+          customerId: memberCustomerId,
+          role: project.members.find(
+            (member) => member.customerId === memberCustomerId,
+          )?.role,
+        },
+      });
+    }
     return Response.json({ ok: true });
   }
 
   if (intent === "submit-for-approval") {
-    if (!isEmailConfigured()) {
-      return Response.json(
-        { error: "Email is not configured. Approval requests cannot be sent." },
-        { status: 400 },
-      );
-    }
     const memberIds = [
       project.ownerCustomerId,
       ...project.members.map((m) => m.customerId),
     ];
     let customerInfo: Awaited<ReturnType<typeof getCustomersByIds>> = {};
     try {
-      customerInfo = await getCustomersByIds(shop, memberIds);
+      customerInfo = await getCustomersByIds(
+        shop,
+        Array.from(
+          new Set([...memberIds, ...project.approvers.map((a) => a.customerId)]),
+        ),
+      );
     } catch {
       return Response.json(
         { error: "Could not load project members." },
         { status: 500 },
       );
     }
-    const hasNATag = (tags: string[]) =>
-      tags.some((t) => String(t).trim().toUpperCase() === "NA");
-    const approverIds = memberIds.filter((id) => {
-      const tags = customerInfo[id]?.tags ?? [];
-      return !hasNATag(tags) && id !== customerId;
-    });
+    const jobId = url.searchParams.get("jobId") || "";
+    const itemId = url.searchParams.get("itemId") || "";
+
+    // Without a configured workflow, any member without the NA tag approves.
+    const workflow = await getProjectApprovalWorkflow(project);
+    let steps: ApprovalStep[] | null = null;
+    let approverIds: string[];
+    if (workflow.length) {
+      steps = getApplicableSteps(
+        workflow,
+        await getApprovalSubtotal(projectId, jobId),
+      );
+      const understaffed = steps.find(
+        (step) =>
+          getStepApproverIds(project.approvers, step, customerId).length <
+          step.requiredApprovals,
+      );
+      if (understaffed) {
+        return Response.json(
+          {
+            error: `Assign at least ${understaffed.requiredApprovals} ${understaffed.role} approver(s) to this project to continue.`,
+          },
+          { status: 400 },
+        );
+      }
+      approverIds = getStepApproverIds(project.approvers, steps[0], customerId);
+    } else {
+      const hasNATag = (tags: string[]) =>
+        tags.some((t) => String(t).trim().toUpperCase() === "NA");
+      approverIds = memberIds.filter((id) => {
+        const tags = customerInfo[id]?.tags ?? [];
+        return !hasNATag(tags) && id !== customerId;
+      });
+    }
+
+    const requestScope = {
+      projectId,
+      jobId: jobId || "",
+      itemId: itemId || "",
+    };
+
+    // Below every threshold: nothing to sign off, so it is approved as submitted.
+    if (steps && steps.length === 0) {
+      const now = new Date();
+      await prisma.approvalRequest.upsert({
+        where: { projectId_jobId_itemId: requestScope },
+        update: {
+          requestedAt: now,
+          requestedByCustomerId: customerId,
+          steps: toWorkflowJson(steps),
+          currentStep: 0,
+          approvedAt: now,
+          approvedByCustomerId: null,
+          outcome: null,
+          outcomeComment: null,
+          outcomeAt: null,
+          outcomeByCustomerId: null,
+          decisions: { deleteMany: {} },
+        },
+        create: {
+          ...requestScope,
+          requestedByCustomerId: customerId,
+          steps: toWorkflowJson(steps),
+          approvedAt: now,
+        },
+      });
+      await recordApprovalHistory({
+        ...requestScope,
+        action: "auto-approved",
+        customerId,
+      });
+      await recordSubmissionRevisions(projectId, requestScope.jobId, customerId);
+      await audit({ jobId, after: { jobId, itemId, autoApproved: true } });
+      await lockOnApproval(requestScope.jobId, requestScope.itemId);
+      return Response.json({ ok: true, autoApproved: true });
+    }
+
+    if (!isEmailConfigured()) {
+      return Response.json(
+        { error: "Email is not configured. Approval requests cannot be sent." },
+        { status: 400 },
+      );
+    }
     const approverEmails = approverIds
       .map((id) => customerInfo[id]?.email)
       .filter((e): e is string => Boolean(e?.trim()));
@@ -282,50 +650,34 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       .filter(Boolean)
       .join(" ")
       .trim() || "A team member";
-    const projectLink = `https://${shop}/apps/project-clad/project?id=${projectId}`;
-    const jobId = url.searchParams.get("jobId") || "";
-    const itemId = url.searchParams.get("itemId") || "";
-
-    let contextLabel = project.name;
-    if (jobId) {
-      const job = await prisma.job.findFirst({
-        where: { id: jobId, projectId },
-        select: { name: true },
-      });
-      const jobName = job?.name || "an order";
-      if (itemId) {
-        const item = await prisma.jobItem.findFirst({
-          where: { id: itemId },
-          include: { job: { select: { name: true } } },
-        });
-        if (item?.job) {
-          const variantInfo = await getAdminVariantInfo(shop, [
-            item.variantId,
-          ]).catch(() => ({}));
-          const productLabel =
-            variantInfo[item.variantId]?.productTitle ||
-            variantInfo[item.variantId]?.title ||
-            "Item";
-          contextLabel = `${productLabel} in ${item.job.name}, ${project.name}`;
-        } else {
-          contextLabel = `item in ${jobName}, ${project.name}`;
-        }
-      } else {
-        contextLabel = `${jobName} in ${project.name}`;
-      }
-    }
+    const contextLabel = await getApprovalContextLabel(
+      shop,
+      project,
+      jobId,
+      itemId,
+    );
 
     const approveQuery = new URLSearchParams({ id: projectId, approve: "1" });
     if (jobId) approveQuery.set("approveJobId", jobId);
     if (itemId) approveQuery.set("approveItemId", itemId);
     const approveLink = `https://${shop}/apps/project-clad/project?${approveQuery.toString()}`;
 
-    const subject = `Approval request: ${contextLabel}`;
-    const text = `${requesterName} has submitted the following for approval: ${contextLabel}\n\nView and approve: ${approveLink}`;
-
+    const email = await buildTemplatedEmail(shop, "approval-request", {
+      projectName: project.name,
+      contextLabel,
+      requesterName,
+      stepText: steps
+        ? `Approval step 1 of ${steps.length}: ${steps[0].role}`
+        : "",
+      approveLink,
+    });
+    const attachments = [
+      ...(email.attachments ?? []),
+      ...(await getApprovalQuoteAttachments(shop, projectId, requestScope.jobId)),
+    ];
     try {
       for (const to of approverEmails) {
-        await sendEmail({ to, subject, text });
+        await sendEmail({ ...email, to, attachments });
       }
     } catch (err) {
       return Response.json(
@@ -338,20 +690,36 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }
 
     await prisma.approvalRequest.upsert({
-      where: {
-        projectId_jobId_itemId: {
-          projectId,
-          jobId: jobId || "",
-          itemId: itemId || "",
-        },
+      where: { projectId_jobId_itemId: requestScope },
+      update: {
+        requestedAt: new Date(),
+        requestedByCustomerId: customerId,
+        steps: toWorkflowJson(steps),
+        currentStep: 0,
+        approvedAt: null,
+        approvedByCustomerId: null,
+        outcome: null,
+        outcomeComment: null,
+        outcomeAt: null,
+        outcomeByCustomerId: null,
+        decisions: { deleteMany: {} },
       },
-      update: { requestedAt: new Date() },
       create: {
-        projectId,
-        jobId: jobId || "",
-        itemId: itemId || "",
+        ...requestScope,
+        requestedByCustomerId: customerId,
+        steps: toWorkflowJson(steps),
       },
     });
+    await recordApprovalHistory({
+      ...requestScope,
+      action: "submitted",
+      customerId,
+    });
+    await recordSubmissionRevisions(projectId, requestScope.jobId, customerId);
+    await audit({
+      jobId,
+      after: { jobId, itemId, steps, approvers: approverIds },
+    });
     return Response.json({ ok: true });
   }
 
@@ -387,6 +755,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     await prisma.approvalRequest.delete({
       where: { id: existing.id },
     });
+    await recordApprovalHistory({
+      projectId,
+      jobId,
+      itemId,
+      action: "cancelled",
+      customerId,
+    });
+    await audit({ jobId, before: existing });
     return Response.json({ ok: true });
   }
 
@@ -397,22 +773,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     ];
     let customerInfo: Awaited<ReturnType<typeof getCustomersByIds>> = {};
     try {
-      customerInfo = await getCustomersByIds(shop, memberIds);
+      customerInfo = await getCustomersByIds(
+        shop,
+        Array.from(
+          new Set([...memberIds, ...project.approvers.map((a) => a.customerId)]),
+        ),
+      );
     } catch {
       return Response.json(
         { error: "Could not load project members." },
         { status: 500 },
       );
     }
-    const hasNATag = (tags: string[]) =>
-      tags.some((t) => String(t).trim().toUpperCase() === "NA");
-    const currentTags = customerInfo[customerId]?.tags ?? [];
-    if (hasNATag(currentTags)) {
-      return Response.json(
-        { error: "Only approvers (members without NA tag) can approve." },
-        { status: 403 },
-      );
-    }
     const jobId = url.searchParams.get("approveJobId") || url.searchParams.get("jobId") || "";
     const itemId = url.searchParams.get("approveItemId") || url.searchParams.get("itemId") || "";
 
@@ -424,6 +796,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           itemId: itemId || "",
         },
       },
+      include: { decisions: true },
     });
     if (!existing) {
       return Response.json(
@@ -434,11 +807,160 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (existing.approvedAt) {
       return Response.json({ ok: true, alreadyApproved: true });
     }
+    if (existing.outcome) {
+      return Response.json(
+        { error: "This request was sent back and must be submitted again." },
+        { status: 400 },
+      );
+    }
+
+    const steps =
+      existing.steps === null ? null : parseApprovalWorkflow(existing.steps);
+    const step = steps ? steps[existing.currentStep] : undefined;
+    if (!steps) {
+      const hasNATag = (tags: string[]) =>
+        tags.some((t) => String(t).trim().toUpperCase() === "NA");
+      const currentTags = customerInfo[customerId]?.tags ?? [];
+      if (hasNATag(currentTags)) {
+        return Response.json(
+          { error: "Only approvers (members without NA tag) can approve." },
+          { status: 403 },
+        );
+      }
+    } else {
+      const stepApproverIds = getStepApproverIds(
+        project.approvers,
+        step,
+        existing.requestedByCustomerId,
+      );
+      if (!step || !stepApproverIds.includes(customerId)) {
+        return Response.json(
+          {
+            error: step
+              ? `Only ${step.role} approvers can approve this step.`
+              : "This approval request has no open step.",
+          },
+          { status: 403 },
+        );
+      }
+    }
+
+    const stepIndex = existing.currentStep;
+    const alreadyDecided = existing.decisions.some(
+      (decision) =>
+        decision.stepIndex === stepIndex && decision.customerId === customerId,
+    );
+    if (alreadyDecided) {
+      return Response.json({ ok: true, alreadyApproved: true });
+    }
+    await prisma.approvalDecision.create({
+      data: {
+        approvalRequestId: existing.id,
+        stepIndex,
+        role: step?.role || "Approver",
+        customerId,
+      },
+    });
+    const stepApprovals =
+      existing.decisions.filter((decision) => decision.stepIndex === stepIndex)
+        .length + 1;
+    const isFinalApproval =
+      !steps ||
+      !step ||
+      (stepApprovals >= step.requiredApprovals && !steps[stepIndex + 1]);
+    await recordApprovalHistory({
+      projectId,
+      jobId,
+      itemId,
+      action: isFinalApproval ? "approved" : "step-approved",
+      role: step?.role,
+      customerId,
+    });
 
-    await prisma.approvalRequest.update({
+    if (steps && step) {
+      if (stepApprovals < step.requiredApprovals) {
+        await audit({
+          jobId,
+          after: { step: step.role, approvals: stepApprovals, required: step.requiredApprovals },
+        });
+        return Response.json({
+          ok: true,
+          stepPending: true,
+          message: `${stepApprovals} of ${step.requiredApprovals} ${step.role} approvals recorded.`,
+        });
+      }
+
+      const nextStep = steps[stepIndex + 1];
+      if (nextStep) {
+        await prisma.approvalRequest.update({
+          where: { id: existing.id },
+          data: { currentStep: stepIndex + 1 },
+        });
+        await audit({
+          jobId,
+          before: { step: step.role },
+          after: { step: nextStep.role },
+        });
+
+        if (isEmailConfigured()) {
+          const nextEmails = getStepApproverIds(
+            project.approvers,
+            nextStep,
+            existing.requestedByCustomerId,
+          )
+            .map((id) => customerInfo[id]?.email)
+            .filter((e): e is string => Boolean(e?.trim()));
+          const contextLabel = await getApprovalContextLabel(
+            shop,
+            project,
+            jobId,
+            itemId,
+          );
+          const approveQuery = new URLSearchParams({ id: projectId, approve: "1" });
+          if (jobId) approveQuery.set("approveJobId", jobId);
+          if (itemId) approveQuery.set("approveItemId", itemId);
+          const approveLink = `https://${shop}/apps/project-clad/project?${approveQuery.toString()}`;
+          const requester = existing.requestedByCustomerId
+            ? customerInfo[existing.requestedByCustomerId]
+            : null;
+          const email = await buildTemplatedEmail(shop, "approval-request", {
+            projectName: project.name,
+            contextLabel,
+            requesterName:
+              [requester?.firstName, requester?.lastName]
+                .filter(Boolean)
+                .join(" ")
+                .trim() || "A team member",
+            stepText: `${step.role} approval is complete. Approval step ${stepIndex + 2} of ${steps.length}: ${nextStep.role}`,
+            approveLink,
+          });
+          const attachments = [
+            ...(email.attachments ?? []),
+            ...(await getApprovalQuoteAttachments(shop, projectId, jobId || "")),
+          ];
+          try {
+            for (const to of nextEmails) {
+              await sendEmail({ ...email, to, attachments });
+            }
+          } catch (err) {
+            console.error("Approval step notification email error:", err);
+          }
+        }
+
+        return Response.json({
+          ok: true,
+          stepPending: true,
+          message: `${step.role} approval complete. Sent to ${nextStep.role}.`,
+        });
+      }
+    }
+
+    const approved = await prisma.approvalRequest.update({
       where: { id: existing.id },
       data: { approvedAt: new Date(), approvedByCustomerId: customerId },
     });
+    await audit({ jobId, before: existing, after: approved });
+    await lockOnApproval(jobId, itemId);
 
     if (isEmailConfigured()) {
       const approver = customerInfo[customerId];
@@ -453,8 +975,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
       if (jobId) {
         const job = await prisma.job.findFirst({
-          where: { id: jobId, projectId },
-          include: { items: { where: { quantity: { gt: 0 } }, orderBy: { sortOrder: "asc" } } },
+          where: { id: jobId, projectId, deletedAt: null },
+          include: {
+            items: {
+              where: { quantity: { gt: 0 }, deletedAt: null },
+              orderBy: { sortOrder: "asc" },
+            },
+          },
         });
         const jobName = job?.name || "an order";
         if (itemId) {
@@ -463,7 +990,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             include: { job: { select: { name: true } } },
           });
           if (item?.job) {
-            const variantInfo = await getAdminVariantInfo(shop, [
+            const variantInfo = await getVariantInfo(shop, [
               item.variantId,
             ]).catch(() => ({}));
             const productLabel =
@@ -484,7 +1011,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         } else if (job) {
           contextLabel = `${jobName} in ${project.name}`;
           const variantIds = job.items.map((i) => i.variantId);
-          const variantInfo = await getAdminVariantInfo(shop, variantIds).catch(() => ({}));
+          const variantInfo = await getVariantInfo(shop, variantIds).catch(() => ({}));
           for (const i of job.items) {
             const label =
               variantInfo[i.variantId]?.productTitle ||
@@ -495,12 +1022,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         }
       } else {
         const jobs = await prisma.job.findMany({
-          where: { projectId },
-          include: { items: { where: { quantity: { gt: 0 } }, orderBy: { sortOrder: "asc" } } },
+          where: { projectId, deletedAt: null },
+          include: {
+            items: {
+              where: { quantity: { gt: 0 }, deletedAt: null },
+              orderBy: { sortOrder: "asc" },
+            },
+          },
           orderBy: { sortOrder: "asc" },
         });
         const variantIds = jobs.flatMap((j) => j.items.map((i) => i.variantId));
-        const variantInfo = await getAdminVariantInfo(shop, variantIds).catch(() => ({}));
+        const variantInfo = await getVariantInfo(shop, variantIds).catch(() => ({}));
         for (const j of jobs) {
           for (const i of j.items) {
             const label =
@@ -513,27 +1045,38 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }
 
       const projectLink = `https://${shop}/apps/project-clad/project?id=${projectId}`;
-      const memberEmails = memberIds
+      const { instant: instantIds } = await getRecipientsByDelivery(
+        projectId,
+        memberIds,
+        "approvals",
+      );
+      // The requester always hears about the decision, whatever they chose
+      // for other approval activity.
+      const recipientIds = new Set(instantIds);
+      if (existing.requestedByCustomerId) {
+        recipientIds.add(existing.requestedByCustomerId);
+      }
+      const memberEmails = Array.from(recipientIds)
         .map((id) => customerInfo[id]?.email)
         .filter((e): e is string => Boolean(e?.trim()));
 
-      const subject = `Order approved: ${contextLabel}`;
-      const itemsList =
-        itemsToInclude.length > 0
-          ? "\n\nItems:\n" +
-            itemsToInclude
-              .map(
-                (i) =>
-                  `  • ${i.displayName} (×${i.quantity})${itemsToInclude.some((x) => x.jobName !== i.jobName) ? ` — ${i.jobName}` : ""}`,
-              )
-              .join("\n") +
-            "\n"
-          : "";
-      const text = `${approverName} has approved: ${contextLabel}${itemsList}\nView project: ${projectLink}`;
+      const itemsList = itemsToInclude
+        .map(
+          (i) =>
+            `• ${i.displayName} (×${i.quantity})${itemsToInclude.some((x) => x.jobName !== i.jobName) ? ` — ${i.jobName}` : ""}`,
+        )
+        .join("\n");
+      const email = await buildTemplatedEmail(shop, "approval-granted", {
+        projectName: project.name,
+        contextLabel,
+        approverName,
+        items: itemsList,
+        projectLink,
+      });
 
       try {
         for (const to of memberEmails) {
-          await sendEmail({ to, subject, text });
+          await sendEmail({ ...email, to });
         }
       } catch (err) {
         console.error("Approval notification email error:", err);
@@ -546,7 +1089,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   return Response.json({ error: "Unsupported action." }, { status: 400 });
 };
 
-/** Handles POST for reject-with-reason (cancel-approval-request with rejectReason). */
+const APPROVAL_OUTCOMES: Record<string, ApprovalOutcome> = {
+  "reject-approval-request": "rejected",
+  "request-changes": "changes-requested",
+};
+
+/** Handles POST for the reject and request-changes outcomes (comment required). */
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
     return Response.json({ error: "Method not allowed." }, { status: 405 });
@@ -564,19 +1112,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const projectId = String(body.projectId || "");
   const jobId = String(body.jobId ?? "");
   const itemId = String(body.itemId ?? "");
-  const rejectReason = String(body.rejectReason ?? "").trim();
+  const comment = String(body.comment ?? "").trim();
+  const outcome = APPROVAL_OUTCOMES[intent];
 
-  if (intent !== "cancel-approval-request" || !projectId) {
+  if (!outcome || !projectId) {
     return Response.json({ error: "Invalid request." }, { status: 400 });
   }
+  if (!comment) {
+    return Response.json({ error: "A comment is required." }, { status: 400 });
+  }
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
-    include: { members: true },
+    where: { id: projectId, shop, deletedAt: null },
+    include: { members: true, approvers: true },
   });
   if (!project) {
     return Response.json({ error: "Project not found." }, { status: 404 });
   }
+  // Archived projects are read-only until they are moved back to active.
+  if (isProjectArchived(project)) {
+    return Response.json(
+      { error: "This project is archived. Unarchive it to make changes." },
+      { status: 400 },
+    );
+  }
 
   const isMember =
     project.ownerCustomerId === customerId ||
@@ -585,15 +1144,6 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Unauthorized." }, { status: 403 });
   }
 
-  const memberRole = project.members.find(
-    (member) => member.customerId === customerId,
-  )?.role;
-  const isOwner = project.ownerCustomerId === customerId;
-  const canEdit = isOwner || memberRole === "edit";
-  if (!canEdit) {
-    return Response.json({ error: "Forbidden." }, { status: 403 });
-  }
-
   const existing = await prisma.approvalRequest.findUnique({
     where: {
       projectId_jobId_itemId: {
@@ -611,7 +1161,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
   if (existing.approvedAt) {
     return Response.json(
-      { error: "Cannot cancel an approved request." },
+      { error: "Cannot reject an approved request." },
+      { status: 400 },
+    );
+  }
+  if (existing.outcome) {
+    return Response.json(
+      { error: "This request has already been sent back." },
       { status: 400 },
     );
   }
@@ -630,62 +1186,99 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
-  const rejector = customerInfo[customerId];
-  const rejectorName =
-    [rejector?.firstName, rejector?.lastName]
+  // Whoever may approve the open step may also send it back.
+  const steps =
+    existing.steps === null ? null : parseApprovalWorkflow(existing.steps);
+  const step = steps ? steps[existing.currentStep] : undefined;
+  const canDecide = steps
+    ? getStepApproverIds(
+        project.approvers,
+        step,
+        existing.requestedByCustomerId,
+      ).includes(customerId)
+    : !(customerInfo[customerId]?.tags ?? []).some(
+        (t) => String(t).trim().toUpperCase() === "NA",
+      );
+  if (!canDecide) {
+    return Response.json(
+      { error: "Only approvers for this request can send it back." },
+      { status: 403 },
+    );
+  }
+
+  const decider = customerInfo[customerId];
+  const deciderName =
+    [decider?.firstName, decider?.lastName]
       .filter(Boolean)
       .join(" ")
       .trim() || "A team member";
+  const contextLabel = await getApprovalContextLabel(
+    shop,
+    project,
+    jobId,
+    itemId,
+  );
 
-  let contextLabel = project.name;
-  if (jobId) {
-    const job = await prisma.job.findFirst({
-      where: { id: jobId, projectId },
-      select: { name: true },
-    });
-    const jobName = job?.name || "an order";
-    if (itemId) {
-      const item = await prisma.jobItem.findFirst({
-        where: { id: itemId },
-        include: { job: { select: { name: true } } },
-      });
-      if (item?.job) {
-        const variantInfo = await getAdminVariantInfo(shop, [
-          item.variantId,
-        ]).catch(() => ({}));
-        const productLabel =
-          variantInfo[item.variantId]?.productTitle ||
-          variantInfo[item.variantId]?.title ||
-          "Item";
-        contextLabel = `${productLabel} in ${item.job.name}, ${project.name}`;
-      } else {
-        contextLabel = `item in ${jobName}, ${project.name}`;
-      }
-    } else {
-      contextLabel = `${jobName} in ${project.name}`;
-    }
-  }
-
-  await prisma.approvalRequest.delete({
+  const updated = await prisma.approvalRequest.update({
     where: { id: existing.id },
+    data: {
+      outcome,
+      outcomeComment: comment,
+      outcomeAt: new Date(),
+      outcomeByCustomerId: customerId,
+    },
+  });
+  await recordApprovalHistory({
+    projectId,
+    jobId,
+    itemId,
+    action: outcome,
+    role: step?.role,
+    comment,
+    customerId,
+  });
+  await recordAuditEvent({
+    shop,
+    projectId,
+    jobId,
+    actorCustomerId: customerId,
+    intent,
+    before: existing,
+    after: updated,
   });
 
   if (isEmailConfigured()) {
-    const projectLink = `https://${shop}/apps/project-clad/project?id=${projectId}`;
-    const memberEmails = memberIds
+    const projectLink = `https://${shop}/apps/project-clad/project?id=${projectId}${
+      jobId ? `&job=${encodeURIComponent(jobId)}` : ""
+    }`;
+    // The requester always gets this email so they can act on it; without
+    // one, members are told as their preferences say.
+    const recipientIds = existing.requestedByCustomerId
+      ? [existing.requestedByCustomerId]
+      : (
+          await getRecipientsByDelivery(
+            projectId,
+            memberIds.filter((id) => id !== customerId),
+            "approvals",
+          )
+        ).instant;
+    const recipientEmails = recipientIds
       .map((id) => customerInfo[id]?.email)
       .filter((e): e is string => Boolean(e?.trim()));
 
-    const subject = `Order rejected: ${contextLabel}`;
-    const reasonText = rejectReason
-      ? `\n\nRejection reason:\n${rejectReason}\n`
-      : "";
-    const text =
-      `${rejectorName} has rejected: ${contextLabel}${reasonText}\nView project: ${projectLink}`;
+    const email = await buildTemplatedEmail(shop, "approval-returned", {
+      projectName: project.name,
+      contextLabel,
+      deciderName,
+      outcomeTitle: outcome === "rejected" ? "Order rejected" : "Changes requested",
+      outcomeVerb: outcome === "rejected" ? "rejected" : "requested changes to",
+      comment,
+      projectLink,
+    });
 
     try {
-      for (const to of memberEmails) {
-        await sendEmail({ to, subject, text });
+      for (const to of recipientEmails) {
+        await sendEmail({ ...email, to });
       }
     } catch (err) {
       console.error("Rejection notification email error:", err);
@@ -0,0 +1,80 @@
+import type { LoaderFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import { getVariantInfo } from "../utils/variantCache.server";
+
+// The orders and items of one project, loaded when the projects list opens it.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop, customerId } = requireAppProxyCustomer(request, {
+    jsonOnFail: true,
+  });
+  const projectId = new URL(request.url).searchParams.get("projectId") || "";
+
+  const project = projectId
+    ? await prisma.project.findFirst({
+        where: {
+          id: projectId,
+          shop,
+          deletedAt: null,
+          OR: [
+            { ownerCustomerId: customerId },
+            { members: { some: { customerId } } },
+          ],
+        },
+        include: {
+          jobs: {
+            where: { deletedAt: null },
+            orderBy: { sortOrder: "asc" },
+            include: {
+              items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+              orderLink: true,
+            },
+          },
+        },
+      })
+    : null;
+
+  if (!project) {
+    return Response.json({ error: "Project not found." }, { status: 404 });
+  }
+
+  let variantInfo: Awaited<ReturnType<typeof getVariantInfo>> = {};
+  let variantLookupError: string | null = null;
+  try {
+    variantInfo = await getVariantInfo(
+      shop,
+      project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
+    );
+  } catch (error) {
+    variantLookupError =
+      error instanceof Error ? error.message : "Product lookup failed.";
+  }
+
+  return Response.json({
+    jobs: project.jobs.map((job) => ({
+      id: job.id,
+      name: job.name,
+      status: job.orderLink
+        ? `Ordered${job.orderLink.orderName ? ` (${job.orderLink.orderName})` : ""}`
+        : job.isLocked
+          ? "Locked"
+          : "",
+      items: job.items.map((item) => {
+        const info = variantInfo[item.variantId];
+        return {
+          id: item.id,
+          quantity: item.quantity,
+          displayName: info
+            ? info.title && info.title !== "Default Title"
+              ? `${info.productTitle} — ${info.title}`
+              : info.productTitle
+            : `Variant ${item.variantId}`,
+          productUrl: info?.productHandle
+            ? `https://${shop}/products/${info.productHandle}?variant=${item.variantId}`
+            : null,
+        };
+      }),
+    })),
+    variantLookupError,
+  });
+};
@@ -10,12 +10,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const projects = await prisma.project.findMany({
     where: {
       shop,
+      deletedAt: null,
+      status: { not: "archived" },
       OR: [
         { ownerCustomerId: customerId },
         { members: { some: { customerId } } },
       ],
     },
-    include: { jobs: { include: { orderLink: true } } },
+    include: {
+      jobs: { where: { deletedAt: null }, include: { orderLink: true } },
+    },
     orderBy: { createdAt: "desc" },
   });
 
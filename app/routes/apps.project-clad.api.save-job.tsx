@@ -2,6 +2,14 @@ import type { ActionFunctionArgs } from "react-router";
 import { Prisma } from "@prisma/client";
 import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import { recordAuditEvent, toAuditItem } from "../utils/auditLog.server";
+import { getBudgetSummary, wentOverBudget } from "../utils/budgets.server";
+import { isProjectArchived } from "../utils/projectStatus.server";
+import { applyJobItems } from "../utils/jobItems.server";
+import {
+  ensureBaseRevision,
+  recordJobRevision,
+} from "../utils/jobRevisions.server";
 
 type SaveJobPayload = {
   mode: "newProject" | "existingProject" | "existingJob";
@@ -28,14 +36,6 @@ const normalizeItems = (items: SaveJobPayload["items"] = []) =>
       priceSnapshot: new Prisma.Decimal(item.priceSnapshot ?? 0),
     }));
 
-const getNextSortOrder = async (jobId: string) => {
-  const result = await prisma.jobItem.aggregate({
-    where: { jobId },
-    _max: { sortOrder: true },
-  });
-  return (result._max.sortOrder ?? 0) + 1;
-};
-
 const getNextJobSortOrder = async (projectId: string) => {
   const result = await prisma.job.aggregate({
     where: { projectId },
@@ -101,6 +101,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       },
       include: { jobs: true },
     });
+    if (project.jobs[0]) {
+      await recordJobRevision(project.jobs[0].id, {
+        reason: "save-job",
+        customerId,
+      });
+    }
+    await recordAuditEvent({
+      shop,
+      projectId: project.id,
+      jobId: project.jobs[0]?.id,
+      actorCustomerId: customerId,
+      intent: "save-job",
+      after: {
+        mode: payload.mode,
+        projectName: project.name,
+        jobName: payload.jobName,
+        items: items.map(toAuditItem),
+      },
+    });
 
     return Response.json({
       projectId: project.id,
@@ -120,6 +139,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       where: {
         id: payload.projectId,
         shop,
+        deletedAt: null,
         OR: [
           { ownerCustomerId: customerId },
           { members: { some: { customerId } } },
@@ -142,6 +162,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return Response.json({ error: "Forbidden." }, { status: 403 });
     }
 
+    if (isProjectArchived(project)) {
+      return Response.json(
+        { error: "This project is archived. Unarchive it to add orders." },
+        { status: 400 },
+      );
+    }
+
+    const budgetBefore = await getBudgetSummary(project.id);
     const nextJobSortOrder = await getNextJobSortOrder(project.id);
     const job = await prisma.job.create({
       data: {
@@ -161,8 +189,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       where: { id: project.id },
       data: { poNumber, companyName },
     });
+    await recordJobRevision(job.id, { reason: "save-job", customerId });
+    await recordAuditEvent({
+      shop,
+      projectId: project.id,
+      jobId: job.id,
+      actorCustomerId: customerId,
+      intent: "save-job",
+      after: {
+        mode: payload.mode,
+        jobName: job.name,
+        items: items.map(toAuditItem),
+      },
+    });
 
-    return Response.json({ projectId: project.id, jobId: job.id });
+    return Response.json({
+      projectId: project.id,
+      jobId: job.id,
+      overBudget: wentOverBudget(
+        budgetBefore,
+        await getBudgetSummary(project.id),
+        job.id,
+      ),
+    });
   }
 
   if (payload.mode === "existingJob") {
@@ -177,6 +226,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       where: {
         id: payload.projectId,
         shop,
+        deletedAt: null,
         OR: [
           { ownerCustomerId: customerId },
           { members: { some: { customerId } } },
@@ -199,9 +249,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return Response.json({ error: "Forbidden." }, { status: 403 });
     }
 
+    if (isProjectArchived(project)) {
+      return Response.json(
+        { error: "This project is archived. Unarchive it to add orders." },
+        { status: 400 },
+      );
+    }
+
     const job = await prisma.job.findFirst({
-      where: { id: payload.jobId, projectId: project.id },
-      include: { items: true, orderLink: true },
+      where: { id: payload.jobId, projectId: project.id, deletedAt: null },
+      include: { items: { where: { deletedAt: null } }, orderLink: true },
     });
 
     if (!job) {
@@ -213,6 +270,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       data: { poNumber, companyName },
     });
 
+    const budgetBefore = await getBudgetSummary(project.id);
     const isLocked = job.isLocked || Boolean(job.orderLink);
     let targetJobId = job.id;
     let copied = false;
@@ -240,48 +298,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       copied = true;
     }
 
-    if (payload.quantityMode === "replace") {
-      await prisma.$transaction([
-        prisma.jobItem.deleteMany({ where: { jobId: targetJobId } }),
-        prisma.jobItem.createMany({
-          data: items.map((item, index) => ({
-            jobId: targetJobId,
-            variantId: item.variantId,
-            quantity: item.quantity,
-            priceSnapshot: item.priceSnapshot,
-            sortOrder: index + 1,
-          })),
-        }),
-      ]);
-    } else {
-      let nextSortOrder = await getNextSortOrder(targetJobId);
-      for (const item of items) {
-        const existing = await prisma.jobItem.findFirst({
-          where: { jobId: targetJobId, variantId: item.variantId },
-        });
-
-        if (existing) {
-          await prisma.jobItem.update({
-            where: { id: existing.id },
-            data: {
-              quantity: existing.quantity + item.quantity,
-              priceSnapshot: item.priceSnapshot,
-            },
-          });
-        } else {
-          await prisma.jobItem.create({
-            data: {
-              jobId: targetJobId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              priceSnapshot: item.priceSnapshot,
-              sortOrder: nextSortOrder,
-            },
-          });
-          nextSortOrder += 1;
-        }
-      }
-    }
+    await ensureBaseRevision(targetJobId);
+    await applyJobItems(
+      targetJobId,
+      items,
+      payload.quantityMode === "replace" ? "replace" : "add",
+    );
+    await recordJobRevision(targetJobId, { reason: "save-job", customerId });
 
     await prisma.approvalRequest.deleteMany({
       where: {
@@ -291,10 +314,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       },
     });
 
+    await recordAuditEvent({
+      shop,
+      projectId: project.id,
+      jobId: targetJobId,
+      actorCustomerId: customerId,
+      intent: "save-job",
+      before: copied ? null : job.items.map(toAuditItem),
+      after: {
+        mode: payload.mode,
+        quantityMode: payload.quantityMode === "replace" ? "replace" : "add",
+        copiedFromJobId: copied ? job.id : null,
+        items: items.map(toAuditItem),
+      },
+    });
+
     return Response.json({
       projectId: project.id,
       jobId: targetJobId,
       copied,
+      overBudget: wentOverBudget(
+        budgetBefore,
+        await getBudgetSummary(project.id),
+        targetJobId,
+      ),
     });
   }
 
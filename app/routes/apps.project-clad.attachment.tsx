@@ -0,0 +1,65 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { redirect } from "react-router";
+import prisma from "../db.server";
+import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import {
+  findProjectAttachment,
+  getAttachmentPreview,
+  openProjectAttachment,
+} from "../utils/projectAttachments.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop, customerId } = requireAppProxyCustomer(request);
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get("id") || "";
+  const attachmentId = url.searchParams.get("attachmentId") || "";
+
+  const project = projectId
+    ? await prisma.project.findFirst({
+        where: {
+          id: projectId,
+          shop,
+          deletedAt: null,
+          OR: [
+            { ownerCustomerId: customerId },
+            { members: { some: { customerId } } },
+          ],
+        },
+        select: { id: true },
+      })
+    : null;
+  if (!project) {
+    throw new Response("Project not found", { status: 404 });
+  }
+
+  const attachment = attachmentId
+    ? await findProjectAttachment(project.id, attachmentId)
+    : null;
+  if (!attachment) {
+    throw new Response("Attachment not found", { status: 404 });
+  }
+
+  const opened = await openProjectAttachment(shop, attachment);
+  if (!opened) {
+    throw new Response("The file is still processing. Try again in a moment.", {
+      status: 409,
+    });
+  }
+  if ("url" in opened) {
+    return redirect(opened.url);
+  }
+
+  // Images and PDFs open in the browser for previews; everything else downloads.
+  const inline =
+    url.searchParams.get("inline") === "1" &&
+    getAttachmentPreview(attachment.contentType) !== null;
+  return new Response(new Uint8Array(opened.content), {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${attachment.filename.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+      "Content-Length": String(opened.content.length),
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+};
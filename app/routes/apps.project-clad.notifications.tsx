@@ -0,0 +1,221 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { redirect, useLoaderData } from "react-router";
+import prisma from "../db.server";
+import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import {
+  getNotificationPreferences,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATIONS_PATH,
+  saveNotificationPreference,
+} from "../utils/notifications.server";
+import { getThemeStyles } from "../utils/themeAssets.server";
+import proxyStylesText from "../styles/project-clad-proxy.css?raw";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop, customerId } = requireAppProxyCustomer(request);
+  const themeStyles = await getThemeStyles(shop);
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+  });
+
+  const projects = await prisma.project.findMany({
+    where: {
+      shop,
+      deletedAt: null,
+      OR: [
+        { ownerCustomerId: customerId },
+        { members: { some: { customerId } } },
+      ],
+    },
+    select: { id: true, name: true },
+    orderBy: { createdAt: "desc" },
+  });
+  const preferences = await getNotificationPreferences(
+    customerId,
+    projects.map((project) => project.id),
+  );
+
+  const defaultNavButtons = [
+    { label: "Projects", url: "/apps/project-clad/projects" },
+    { label: "Store", url: "/" },
+    { label: "Cart", url: "/cart" },
+  ];
+  const navButtons = [
+    {
+      label: settings?.navButton1Label || defaultNavButtons[0].label,
+      url: settings?.navButton1Url || defaultNavButtons[0].url,
+    },
+    {
+      label: settings?.navButton2Label || defaultNavButtons[1].label,
+      url: settings?.navButton2Url || defaultNavButtons[1].url,
+    },
+    {
+      label: settings?.navButton3Label || defaultNavButtons[2].label,
+      url: settings?.navButton3Url || defaultNavButtons[2].url,
+    },
+  ];
+
+  return {
+    projects: projects.map((project) => ({
+      id: project.id,
+      name: project.name,
+      preference: preferences[project.id],
+    })),
+    categories: NOTIFICATION_CATEGORIES.map((category) => ({
+      key: category,
+      label: NOTIFICATION_CATEGORY_LABELS[category],
+    })),
+    savedProjectId: new URL(request.url).searchParams.get("saved"),
+    themeStyles,
+    storefrontTheme: settings?.storefrontTheme || "default",
+    navButtons,
+    logoDataUrl: settings?.logoDataUrl || null,
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, customerId } = requireAppProxyCustomer(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const projectId = String(formData.get("projectId") || "");
+
+  if (intent !== "save-preferences") {
+    return new Response("Unsupported action", { status: 400 });
+  }
+
+  const project = projectId
+    ? await prisma.project.findFirst({
+        where: {
+          id: projectId,
+          shop,
+          deletedAt: null,
+          OR: [
+            { ownerCustomerId: customerId },
+            { members: { some: { customerId } } },
+          ],
+        },
+        select: { id: true },
+      })
+    : null;
+  if (!project) {
+    return new Response("Project not found", { status: 404 });
+  }
+
+  await saveNotificationPreference(project.id, customerId, {
+    orders: formData.get("orders") === "on",
+    items: formData.get("items") === "on",
+    approvals: formData.get("approvals") === "on",
+    members: formData.get("members") === "on",
+    delivery: formData.get("delivery") === "digest" ? "digest" : "instant",
+  });
+  return redirect(`${NOTIFICATIONS_PATH}?saved=${encodeURIComponent(project.id)}`);
+};
+
+export default function NotificationsPage() {
+  const {
+    projects,
+    categories,
+    savedProjectId,
+    themeStyles,
+    storefrontTheme,
+    navButtons,
+    logoDataUrl,
+  } = useLoaderData<typeof loader>();
+  const inlineStyles = themeStyles?.styles || [];
+
+  return (
+    <>
+      <style dangerouslySetInnerHTML={{ __html: proxyStylesText }} />
+      {inlineStyles.map((css, index) => (
+        <style key={index} dangerouslySetInnerHTML={{ __html: css }} />
+      ))}
+      <main
+        className="project-clad-page"
+        data-theme={storefrontTheme || "default"}
+      >
+        <div className="page-width project-clad-container">
+          {logoDataUrl && (
+            <div className="project-clad-logo">
+              <a href="/apps/project-clad/projects" className="project-clad-logo__link">
+                <img
+                  src={logoDataUrl}
+                  alt="Logo"
+                  className="project-clad-logo__img"
+                />
+              </a>
+            </div>
+          )}
+          <header className="project-clad-header">
+            <div className="project-clad-header-row">
+              <h1 className="main-page-title page-title">Notifications</h1>
+              <nav className="project-clad-nav">
+                <a href="/apps/project-clad/projects" className="project-clad-button">
+                  Back to projects
+                </a>
+                {navButtons
+                  .filter((_, i) => i !== 0)
+                  .map((btn, i) => (
+                    <a key={i} href={btn.url} className="project-clad-button">
+                      {btn.label}
+                    </a>
+                  ))}
+              </nav>
+            </div>
+            <p className="project-clad-muted">
+              Choose what you hear about for each project, and whether it
+              arrives right away or in one email a day.
+            </p>
+          </header>
+          {projects.length === 0 ? (
+            <section className="project-clad-card">
+              <p className="project-clad-muted">
+                You are not part of any projects yet.
+              </p>
+            </section>
+          ) : (
+            <section className="project-clad-grid">
+              {projects.map((project) => (
+                <div key={project.id} className="project-clad-card">
+                  <h2 className="project-clad-title">{project.name}</h2>
+                  <form method="post" action="/apps/project-clad/notifications">
+                    <input type="hidden" name="intent" value="save-preferences" />
+                    <input type="hidden" name="projectId" value={project.id} />
+                    {categories.map((category) => (
+                      <p key={category.key}>
+                        <label>
+                          <input
+                            type="checkbox"
+                            name={category.key}
+                            defaultChecked={project.preference[category.key]}
+                          />{" "}
+                          {category.label}
+                        </label>
+                      </p>
+                    ))}
+                    <div className="project-clad-inline-form">
+                      <select
+                        name="delivery"
+                        aria-label="Delivery"
+                        defaultValue={project.preference.delivery}
+                      >
+                        <option value="instant">Email me right away</option>
+                        <option value="digest">Send a daily digest</option>
+                      </select>
+                      <button type="submit" className="project-clad-button">
+                        Save
+                      </button>
+                    </div>
+                    {savedProjectId === project.id && (
+                      <p className="project-clad-muted">Preferences saved.</p>
+                    )}
+                  </form>
+                </div>
+              ))}
+            </section>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,4 +1,3 @@
-import crypto from "node:crypto";
 import { useEffect, useRef, useState } from "react";
 import type { ActionFunctionArgs, LinksFunction, LoaderFunctionArgs } from "react-router";
 import {
@@ -11,13 +10,110 @@ import {
 import { redirect } from "react-router";
 import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
-import { getAdminVariantInfo } from "../utils/adminVariants.server";
+import {
+  getAdminProductVariants,
+  getAdminVariantAvailability,
+  getAdminVariantInfo,
+  getAdminVariantPrices,
+  searchAdminVariants,
+  type VariantAvailability,
+  type VariantInfo,
+  type VariantOption,
+} from "../utils/adminVariants.server";
+import {
+  getVariantInfo,
+  isVariantAvailable,
+} from "../utils/variantCache.server";
 import {
   findCustomerIdByEmail,
   getCustomersByIds,
 } from "../utils/adminCustomers.server";
 import { verifyPassword } from "../utils/passwords.server";
+import {
+  mergeImportMatches,
+  resolveItemImport,
+} from "../utils/itemImport.server";
+import { applyJobItems } from "../utils/jobItems.server";
+import {
+  describeRevisionReason,
+  diffRevisionItems,
+  ensureBaseRevision,
+  getRevisionLabel,
+  getRevisionSubtotal,
+  parseRevisionItems,
+  recordJobRevision,
+  restoreJobRevision,
+} from "../utils/jobRevisions.server";
+import {
+  APPROVAL_HISTORY_LABELS,
+  getStepApproverIds,
+  parseApprovalWorkflow,
+  type ApprovalHistoryAction,
+} from "../utils/approvalWorkflow.server";
+import {
+  getAuditEvents,
+  recordAuditEvent,
+  toAuditItem,
+} from "../utils/auditLog.server";
+import {
+  duplicateProject,
+  saveProjectTemplate,
+} from "../utils/projectTemplates.server";
+import { sendMemberAddedEmail } from "../utils/emailTemplates.server";
+import {
+  getBudgetSummary,
+  parseBudget,
+  summarizeBudgets,
+  wentOverBudget,
+} from "../utils/budgets.server";
+import {
+  addProjectAttachment,
+  ATTACHMENT_ACCEPT,
+  deleteProjectAttachment,
+  getAttachmentPreview,
+  listProjectAttachments,
+  MAX_ATTACHMENT_BYTES,
+} from "../utils/projectAttachments.server";
+import {
+  addComment,
+  deleteComment,
+  editComment,
+  MAX_COMMENT_LENGTH,
+  parseCommentTarget,
+  parseMentionIds,
+  unwatchCommentTarget,
+  watchCommentTarget,
+} from "../utils/comments.server";
+import {
+  changeProjectStatus,
+  findOrderTargetProject,
+  getNextProjectStatuses,
+  getOrderTargetProjectWhere,
+  isProjectArchived,
+  PROJECT_STATUS_LABELS,
+  toProjectStatus,
+} from "../utils/projectStatus.server";
 import { getThemeStyles } from "../utils/themeAssets.server";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getPurgeDate,
+  getProjectTrash,
+  purgeExpiredTrash,
+  restoreItem,
+  restoreJob,
+  trashData,
+} from "../utils/trash.server";
+import {
+  createShareToken,
+  getShareLinkPath,
+  getShareTokenStatus,
+  revokeShareToken,
+  SHARE_LINK_EXPIRY_DAYS,
+} from "../utils/shareTokens.server";
+import { JOB_LINE_PROPERTY, PROJECT_LINE_PROPERTY } from "../utils/cartProperties";
+import { ItemReplacementPicker } from "../components/ItemReplacementPicker";
+import { ProjectComments } from "../components/ProjectComments";
+import { ProjectFiles } from "../components/ProjectFiles";
 import proxyStylesUrl from "../styles/project-clad-proxy.css?url";
 import proxyStylesText from "../styles/project-clad-proxy.css?raw";
 
@@ -26,10 +122,16 @@ type JobItemView = {
   variantId: string;
   quantity: number;
   priceSnapshot: string;
+  livePrice: string | null;
+  priceDelta: number | null;
   displayName: string;
   imageUrl: string | null;
   imageAlt: string | null;
   productUrl: string | null;
+  available: number | null;
+  availableLocations: Array<{ name: string; available: number }>;
+  isUnavailable: boolean;
+  substitutedFrom: string | null;
 };
 
 type JobView = {
@@ -37,8 +139,10 @@ type JobView = {
   name: string;
   createdAt: string;
   isLocked: boolean;
+  orderName: string | null;
   items: JobItemView[];
   subtotal: number;
+  priceDelta: number | null;
 };
 
 type ProjectView = {
@@ -76,8 +180,32 @@ const getProjectId = (request: Request) => {
 const getProjectPath = (projectId: string) =>
   `/apps/project-clad/project?id=${encodeURIComponent(projectId)}`;
 
+const getLivePricesPath = (projectId: string) =>
+  `${getProjectPath(projectId)}&prices=live`;
+
+const getQuotePath = (projectId: string, jobId?: string) =>
+  `/apps/project-clad/quote?id=${encodeURIComponent(projectId)}${
+    jobId ? `&jobId=${encodeURIComponent(jobId)}` : ""
+  }`;
+
+const getPriceDelta = (snapshot: unknown, livePrice: string | undefined, quantity: number) =>
+  livePrice === undefined
+    ? null
+    : (Number(livePrice) - Number(snapshot || 0)) * quantity;
+
 const getProjectsPath = () => "/apps/project-clad/projects";
 
+// The only changes an archived project accepts. Duplicating and saving as
+// a template only read it, and reusing finished work is what they are for.
+const ARCHIVED_PROJECT_INTENTS = new Set([
+  "set-project-status",
+  "unlock-pricing",
+  "watch-comments",
+  "unwatch-comments",
+  "duplicate-project",
+  "save-as-template",
+]);
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { shop, customerId } = requireAppProxyCustomer(request);
   const themeStyles = await getThemeStyles(shop);
@@ -90,12 +218,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return redirect(getProjectsPath());
   }
 
+  await purgeExpiredTrash(shop);
+
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: {
       jobs: {
+        where: { deletedAt: null },
         orderBy: { sortOrder: "asc" },
-        include: { items: { orderBy: { sortOrder: "asc" } }, orderLink: true },
+        include: {
+          items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+          orderLink: true,
+        },
       },
       members: true,
     },
@@ -117,16 +251,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     (member) => member.customerId === customerId,
   )?.role;
   const isOwner = project.ownerCustomerId === customerId;
-  const canEdit = isOwner || memberRole === "edit";
+  const isEditor = isOwner || memberRole === "edit";
+  // Archived projects are read-only until they are moved back to active.
+  const canEdit = isEditor && !isProjectArchived(project);
 
   const otherProjects = await prisma.project.findMany({
     where: {
-      shop,
+      ...getOrderTargetProjectWhere(shop, customerId),
       id: { not: projectId },
-      OR: [
-        { ownerCustomerId: customerId },
-        { members: { some: { customerId } } },
-      ],
     },
     orderBy: { createdAt: "desc" },
   });
@@ -134,13 +266,56 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const variantIds = project.jobs.flatMap((job) =>
     job.items.map((item) => item.variantId),
   );
-  let variantInfo: Record<
-    string,
-    { title: string; productTitle: string; imageUrl?: string | null; imageAlt?: string | null; productHandle?: string | null }
-  > = {};
+  const trash = await getProjectTrash(projectId);
+  const revisions = await prisma.jobRevision.findMany({
+    where: { jobId: { in: project.jobs.map((job) => job.id) } },
+    orderBy: { number: "desc" },
+  });
+  const comments = await prisma.projectComment.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "asc" },
+  });
+  const commentWatches = await prisma.projectCommentWatcher.findMany({
+    where: { projectId, customerId },
+  });
+  const attachments = await listProjectAttachments(projectId);
+  // Comparing two revisions is a plain GET so it works without scripts.
+  const searchParams = new URL(request.url).searchParams;
+  const compareJobId = searchParams.get("revJob") || "";
+  const compareFrom = revisions.find(
+    (revision) =>
+      revision.jobId === compareJobId && revision.id === searchParams.get("revFrom"),
+  );
+  const compareTo = revisions.find(
+    (revision) =>
+      revision.jobId === compareJobId && revision.id === searchParams.get("revTo"),
+  );
+  const revisionDiff =
+    compareFrom && compareTo
+      ? diffRevisionItems(
+          parseRevisionItems(compareFrom.items),
+          parseRevisionItems(compareTo.items),
+        )
+      : null;
+  const trashRetentionDays =
+    settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  let variantInfo: Record<string, VariantInfo> = {};
   let variantLookupError: string | null = null;
   try {
-    variantInfo = await getAdminVariantInfo(shop, variantIds);
+    variantInfo = await getVariantInfo(shop, [
+      ...variantIds,
+      ...project.jobs.flatMap((job) =>
+        job.items.map((item) => item.substitutedVariantId || ""),
+      ),
+      ...trash.items.map((item) => item.variantId),
+      ...(revisionDiff
+        ? [
+            ...revisionDiff.added,
+            ...revisionDiff.removed,
+            ...revisionDiff.changed,
+          ].map((item) => item.variantId)
+        : []),
+    ]);
   } catch (error) {
     variantLookupError =
       error instanceof Error ? error.message : "Product lookup failed.";
@@ -149,10 +324,55 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     project.ownerCustomerId,
     ...project.members.map((member) => member.customerId),
   ];
+  const auditEvents = await getAuditEvents(shop, { projectId });
+  const actorIds = auditEvents
+    .map((event) => event.actorCustomerId)
+    .filter((id): id is string => Boolean(id));
+  const shareTokens = isOwner
+    ? await prisma.projectShareToken.findMany({
+        where: { projectId },
+        include: { redemptions: { orderBy: { redeemedAt: "desc" } } },
+        orderBy: { createdAt: "desc" },
+      })
+    : [];
+  const redeemerIds = shareTokens.flatMap((shareToken) =>
+    shareToken.redemptions.map((redemption) => redemption.customerId),
+  );
+  const approvalHistory = await prisma.approvalHistoryEntry.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+  });
+  const historyIds = approvalHistory
+    .map((entry) => entry.customerId)
+    .filter((id): id is string => Boolean(id));
+  const deleterIds = [...trash.jobs, ...trash.items]
+    .map((entry) => entry.deletedByCustomerId)
+    .filter((id): id is string => Boolean(id));
+  const revisionAuthorIds = revisions
+    .map((revision) => revision.createdByCustomerId)
+    .filter((id): id is string => Boolean(id));
+  const commentAuthorIds = comments.map((comment) => comment.authorCustomerId);
+  const uploaderIds = attachments
+    .map((attachment) => attachment.uploadedByCustomerId)
+    .filter((id): id is string => Boolean(id));
   let customerInfo: Awaited<ReturnType<typeof getCustomersByIds>> = {};
   let memberLookupError: string | null = null;
   try {
-    customerInfo = await getCustomersByIds(shop, memberIds);
+    customerInfo = await getCustomersByIds(
+      shop,
+      Array.from(
+        new Set([
+          ...memberIds,
+          ...actorIds,
+          ...redeemerIds,
+          ...historyIds,
+          ...deleterIds,
+          ...revisionAuthorIds,
+          ...commentAuthorIds,
+          ...uploaderIds,
+        ]),
+      ),
+    );
   } catch (error) {
     memberLookupError =
       error instanceof Error ? error.message : "Member lookup failed.";
@@ -165,8 +385,96 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const approvalRequests = await prisma.approvalRequest.findMany({
     where: { projectId },
+    include: { decisions: { orderBy: { decidedAt: "asc" } } },
+  });
+  const projectApprovers = await prisma.projectApprover.findMany({
+    where: { projectId },
   });
 
+  const canViewPricing = !hideAddToCart || hasPricingAccess(request);
+  const showLivePrices =
+    new URL(request.url).searchParams.get("prices") === "live";
+  let livePrices: Record<string, string> = {};
+  let priceLookupError: string | null = null;
+  if (showLivePrices && canViewPricing) {
+    try {
+      livePrices = await getAdminVariantPrices(shop, variantIds);
+    } catch (error) {
+      priceLookupError =
+        error instanceof Error ? error.message : "Price lookup failed.";
+    }
+  }
+
+  // Stock is live, never cached; only shown to customers who can order.
+  let availability: Record<string, VariantAvailability> = {};
+  let availabilityError: string | null = null;
+  if (!hideAddToCart) {
+    try {
+      availability = await getAdminVariantAvailability(shop, variantIds);
+    } catch (error) {
+      availabilityError =
+        error instanceof Error ? error.message : "Stock lookup failed.";
+    }
+  }
+
+  // Items whose variant was deleted, archived or unpublished can't go to the
+  // cart. Editors are offered the product's other variants, or a search.
+  const isItemUnavailable = (variantId: string) =>
+    !variantLookupError && !isVariantAvailable(variantInfo[variantId]);
+  const replaceableItems = project.jobs.flatMap((job) =>
+    job.isLocked || job.orderLink
+      ? []
+      : job.items.filter(
+          (item) => item.quantity > 0 && isItemUnavailable(item.variantId),
+        ),
+  );
+  let replacementOptions: Record<string, VariantOption[]> = {};
+  const replacementSearch = {
+    itemId: searchParams.get("replaceItem") || "",
+    query: (searchParams.get("replaceQ") || "").trim().slice(0, 100),
+    results: [] as VariantOption[],
+  };
+  let replacementError: string | null = null;
+  if (canEdit && replaceableItems.length > 0) {
+    try {
+      const siblings = await getAdminProductVariants(
+        shop,
+        replaceableItems
+          .map((item) => variantInfo[item.variantId]?.productId || "")
+          .filter(Boolean),
+      );
+      replacementOptions = Object.fromEntries(
+        replaceableItems.map((item) => [
+          item.id,
+          (siblings[variantInfo[item.variantId]?.productId || ""] || []).filter(
+            (option) => option.variantId !== item.variantId,
+          ),
+        ]),
+      );
+      if (
+        replacementSearch.query &&
+        replaceableItems.some((item) => item.id === replacementSearch.itemId)
+      ) {
+        replacementSearch.results = await searchAdminVariants(
+          shop,
+          replacementSearch.query,
+        );
+      }
+    } catch (error) {
+      replacementError =
+        error instanceof Error ? error.message : "Replacement lookup failed.";
+    }
+  }
+
+  const getVariantName = (variantId: string) => {
+    const info = variantInfo[variantId];
+    return info
+      ? info.title && info.title !== "Default Title"
+        ? `${info.productTitle} — ${info.title}`
+        : info.productTitle
+      : `Variant ${variantId}`;
+  };
+
   const payload: ProjectView = {
     id: project.id,
     name: project.name,
@@ -178,32 +486,45 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         const price = Number(item.priceSnapshot || 0);
         return sum + price * item.quantity;
       }, 0);
+      const itemDeltas = job.items.map((item) =>
+        getPriceDelta(item.priceSnapshot, livePrices[item.variantId], item.quantity),
+      );
       return {
         id: job.id,
         name: job.name,
         createdAt: job.createdAt.toISOString(),
         isLocked: job.isLocked || Boolean(job.orderLink),
+        orderName: job.orderLink?.orderName || null,
         subtotal: jobSubtotal,
-        items: job.items.map((item) => {
+        priceDelta: itemDeltas.some((delta) => delta !== null)
+          ? itemDeltas.reduce<number>((sum, delta) => sum + (delta ?? 0), 0)
+          : null,
+        items: job.items.map((item, index) => {
         const info = variantInfo[item.variantId];
-        const displayName = info
-          ? info.title && info.title !== "Default Title"
-            ? `${info.productTitle} — ${info.title}`
-            : info.productTitle
-          : `Variant ${item.variantId}`;
-        const productUrl = info?.productHandle
-          ? `https://${shop}/products/${info.productHandle}?variant=${item.variantId}`
-          : null;
+        const displayName = getVariantName(item.variantId);
+        // Archived and deleted products have no storefront page to link to.
+        const productUrl =
+          info?.productHandle && isVariantAvailable(info)
+            ? `https://${shop}/products/${info.productHandle}?variant=${item.variantId}`
+            : null;
 
         return {
           id: item.id,
           variantId: item.variantId,
           quantity: item.quantity,
           priceSnapshot: item.priceSnapshot.toString(),
+          livePrice: livePrices[item.variantId] ?? null,
+          priceDelta: itemDeltas[index],
           displayName,
           imageUrl: info?.imageUrl || null,
           imageAlt: info?.imageAlt || null,
           productUrl,
+          available: availability[item.variantId]?.available ?? null,
+          availableLocations: availability[item.variantId]?.locations ?? [],
+          isUnavailable: isItemUnavailable(item.variantId),
+          substitutedFrom: item.substitutedVariantId
+            ? getVariantName(item.substitutedVariantId)
+            : null,
         };
         }),
       };
@@ -243,25 +564,385 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       id: other.id,
       name: other.name,
     })),
-    canViewPricing: !hideAddToCart || hasPricingAccess(request),
+    canViewPricing,
+    showLivePrices,
+    priceLookupError,
+    availabilityError,
+    replacementOptions,
+    replacementSearch,
+    replacementError,
     canEdit,
+    canReuse: isEditor,
     isOwner,
+    projectStatus: {
+      value: toProjectStatus(project.status),
+      label: PROJECT_STATUS_LABELS[toProjectStatus(project.status)],
+      archivedAt: project.archivedAt?.toISOString() ?? null,
+      // Editors move work along; only the owner archives or unarchives.
+      next: isEditor
+        ? getNextProjectStatuses(project.status)
+            .filter((status) => isOwner || (status !== "archived" && !isProjectArchived(project)))
+            .map((status) => ({ value: status, label: PROJECT_STATUS_LABELS[status] }))
+        : [],
+    },
     hideAddToCart,
+    requireApprovalForCheckout: Boolean(settings?.requireApprovalForCheckout),
+    budget: summarizeBudgets(project),
     approvalRequests: approvalRequests.map((r) => {
-      const approver = r.approvedByCustomerId
-        ? customerInfo[r.approvedByCustomerId]
-        : null;
-      const approvedByName = approver
-        ? [approver.firstName, approver.lastName].filter(Boolean).join(" ").trim() || approver.email || r.approvedByCustomerId
-        : null;
+      const getName = (id: string) => {
+        const info = customerInfo[id];
+        return info
+          ? [info.firstName, info.lastName].filter(Boolean).join(" ").trim() || info.email || id
+          : id;
+      };
+      const approvedByName = r.approvedByCustomerId
+        ? getName(r.approvedByCustomerId)
+        : r.approvedAt
+          ? "approval threshold"
+          : null;
+      const steps = r.steps === null ? null : parseApprovalWorkflow(r.steps);
+      const currentStep = steps?.[r.currentStep];
+      const canApprove =
+        !r.approvedAt &&
+        !r.outcome &&
+        (steps
+          ? getStepApproverIds(
+              projectApprovers,
+              currentStep,
+              r.requestedByCustomerId,
+            ).includes(customerId) &&
+            !r.decisions.some(
+              (decision) =>
+                decision.stepIndex === r.currentStep &&
+                decision.customerId === customerId,
+            )
+          : !hideAddToCart);
       return {
         jobId: r.jobId,
         itemId: r.itemId,
         requestedAt: r.requestedAt.toISOString(),
         approvedAt: r.approvedAt?.toISOString() ?? null,
         approvedBy: approvedByName,
+        outcome: r.outcome,
+        outcomeComment: r.outcomeComment,
+        outcomeAt: r.outcomeAt?.toISOString() ?? null,
+        outcomeBy: r.outcomeByCustomerId ? getName(r.outcomeByCustomerId) : null,
+        canApprove,
+        stepLabel:
+          steps && currentStep && !r.approvedAt && !r.outcome
+            ? `Step ${r.currentStep + 1} of ${steps.length}: ${currentStep.role} (${
+                r.decisions.filter((decision) => decision.stepIndex === r.currentStep).length
+              } of ${currentStep.requiredApprovals})`
+            : null,
+        decisions: r.decisions.map((decision) => ({
+          id: decision.id,
+          role: decision.role,
+          approvedBy: getName(decision.customerId),
+          decidedAt: decision.decidedAt.toISOString(),
+        })),
+      };
+    }),
+    shareLinks: shareTokens.map((shareToken) => ({
+      id: shareToken.id,
+      url: `https://${shop}${getShareLinkPath(shareToken.token)}`,
+      role: shareToken.role,
+      createdAt: shareToken.createdAt.toISOString(),
+      expiresAt: shareToken.expiresAt?.toISOString() ?? null,
+      maxUses: shareToken.maxUses,
+      useCount: shareToken.useCount,
+      status: getShareTokenStatus(shareToken),
+      redemptions: shareToken.redemptions.map((redemption) => {
+        const redeemer = customerInfo[redemption.customerId];
+        return {
+          id: redemption.id,
+          name:
+            (redeemer
+              ? [redeemer.firstName, redeemer.lastName].filter(Boolean).join(" ").trim() ||
+                redeemer.email
+              : null) || `Customer ${redemption.customerId}`,
+          redeemedAt: redemption.redeemedAt.toISOString(),
+        };
+      }),
+    })),
+    shareLinkExpiryDays: SHARE_LINK_EXPIRY_DAYS,
+    approvalHistory: approvalHistory.map((entry) => {
+      const actor = entry.customerId ? customerInfo[entry.customerId] : null;
+      const label =
+        APPROVAL_HISTORY_LABELS[entry.action as ApprovalHistoryAction] ||
+        entry.action;
+      return {
+        id: entry.id,
+        summary: entry.role ? `${label} (${entry.role})` : label,
+        comment: entry.comment,
+        actorName:
+          (actor
+            ? [actor.firstName, actor.lastName].filter(Boolean).join(" ").trim() ||
+              actor.email
+            : null) || "A team member",
+        target: entry.itemId
+          ? "Item"
+          : [...project.jobs, ...trash.jobs].find((job) => job.id === entry.jobId)?.name ||
+            (entry.jobId ? "Deleted order" : "Project"),
+        createdAt: entry.createdAt.toISOString(),
+      };
+    }),
+    activity: auditEvents.map((event) => {
+      const actor = event.actorCustomerId
+        ? customerInfo[event.actorCustomerId]
+        : null;
+      return {
+        ...event,
+        actorName:
+          event.source === "admin"
+            ? "Shop staff"
+            : (actor
+                ? [actor.firstName, actor.lastName].filter(Boolean).join(" ").trim() ||
+                  actor.email
+                : null) || "A team member",
+        jobName:
+          [...project.jobs, ...trash.jobs].find((job) => job.id === event.jobId)?.name ||
+          null,
       };
     }),
+    trash: (() => {
+      const getDeletedBy = (deletedByCustomerId: string | null) => {
+        if (!deletedByCustomerId) return "Shop staff";
+        const deleter = customerInfo[deletedByCustomerId];
+        return (
+          (deleter
+            ? [deleter.firstName, deleter.lastName].filter(Boolean).join(" ").trim() ||
+              deleter.email
+            : null) || "A team member"
+        );
+      };
+      const toTrashEntry = (entry: {
+        id: string;
+        deletedAt: Date | null;
+        deletedByCustomerId: string | null;
+      }) => {
+        const deletedAt = entry.deletedAt ?? new Date();
+        return {
+          id: entry.id,
+          deletedAt: deletedAt.toISOString(),
+          deletedBy: getDeletedBy(entry.deletedByCustomerId),
+          purgeAt: getPurgeDate(deletedAt, trashRetentionDays).toISOString(),
+        };
+      };
+      return {
+        retentionDays: trashRetentionDays,
+        jobs: trash.jobs.map((job) => ({
+          ...toTrashEntry(job),
+          name: job.name,
+          itemCount: job.items.length,
+        })),
+        items: trash.items.map((item) => {
+          const info = variantInfo[item.variantId];
+          return {
+            ...toTrashEntry(item),
+            jobName: item.job.name,
+            quantity: item.quantity,
+            displayName: info
+              ? info.title && info.title !== "Default Title"
+                ? `${info.productTitle} — ${info.title}`
+                : info.productTitle
+              : `Variant ${item.variantId}`,
+          };
+        }),
+      };
+    })(),
+    revisions: (() => {
+      const getDisplayName = (variantId: string) => {
+        const info = variantInfo[variantId];
+        return info
+          ? info.title && info.title !== "Default Title"
+            ? `${info.productTitle} — ${info.title}`
+            : info.productTitle
+          : `Variant ${variantId}`;
+      };
+      const getAuthor = (revision: (typeof revisions)[number]) => {
+        if (revision.reason === "original") return "—";
+        if (!revision.createdByCustomerId) return "Shop staff";
+        const author = customerInfo[revision.createdByCustomerId];
+        return (
+          (author
+            ? [author.firstName, author.lastName].filter(Boolean).join(" ").trim() ||
+              author.email
+            : null) || "A team member"
+        );
+      };
+      return {
+        jobs: project.jobs
+          .map((job) => ({
+            jobId: job.id,
+            jobName: job.name,
+            isLocked: job.isLocked || Boolean(job.orderLink),
+            revisions: revisions
+              .filter((revision) => revision.jobId === job.id)
+              .map((revision) => {
+                const items = parseRevisionItems(revision.items);
+                return {
+                  id: revision.id,
+                  label: getRevisionLabel(revision.number),
+                  reason: describeRevisionReason(revision.reason),
+                  note: revision.note,
+                  createdBy: getAuthor(revision),
+                  createdAt: revision.createdAt.toISOString(),
+                  itemCount: items.length,
+                  subtotal: getRevisionSubtotal(items),
+                };
+              }),
+          }))
+          .filter((job) => job.revisions.length > 0),
+        compare:
+          compareFrom && compareTo && revisionDiff
+            ? {
+                jobId: compareJobId,
+                fromId: compareFrom.id,
+                toId: compareTo.id,
+                fromLabel: getRevisionLabel(compareFrom.number),
+                toLabel: getRevisionLabel(compareTo.number),
+                added: revisionDiff.added.map((item) => ({
+                  ...item,
+                  displayName: getDisplayName(item.variantId),
+                })),
+                removed: revisionDiff.removed.map((item) => ({
+                  ...item,
+                  displayName: getDisplayName(item.variantId),
+                })),
+                changed: revisionDiff.changed.map((item) => ({
+                  ...item,
+                  displayName: getDisplayName(item.variantId),
+                })),
+                fromSubtotal: revisionDiff.fromSubtotal,
+                toSubtotal: revisionDiff.toSubtotal,
+              }
+            : null,
+      };
+    })(),
+    attachments: {
+      accept: ATTACHMENT_ACCEPT,
+      maxSizeMb: MAX_ATTACHMENT_BYTES / 1024 / 1024,
+      files: attachments.map((attachment) => {
+        const uploader = attachment.uploadedByCustomerId
+          ? customerInfo[attachment.uploadedByCustomerId]
+          : null;
+        return {
+          id: attachment.id,
+          filename: attachment.filename,
+          size: attachment.size,
+          preview: getAttachmentPreview(attachment.contentType),
+          jobName: attachment.jobId
+            ? project.jobs.find((job) => job.id === attachment.jobId)?.name ||
+              "Deleted order"
+            : null,
+          uploadedBy:
+            (uploader
+              ? [uploader.firstName, uploader.lastName].filter(Boolean).join(" ").trim() ||
+                uploader.email
+              : null) || "A team member",
+          createdAt: attachment.createdAt.toISOString(),
+        };
+      }),
+    },
+    comments: (() => {
+      const getAuthorName = (authorCustomerId: string) => {
+        const author = customerInfo[authorCustomerId];
+        return (
+          (author
+            ? [author.firstName, author.lastName].filter(Boolean).join(" ").trim() ||
+              author.email
+            : null) || "A team member"
+        );
+      };
+      const getItemLabel = (itemId: string) => {
+        for (const job of project.jobs) {
+          const item = job.items.find((entry) => entry.id === itemId);
+          if (item) {
+            const info = variantInfo[item.variantId];
+            const displayName = info
+              ? info.title && info.title !== "Default Title"
+                ? `${info.productTitle} — ${info.title}`
+                : info.productTitle
+              : `Variant ${item.variantId}`;
+            return `${displayName} • ${job.name}`;
+          }
+        }
+        const removed = trash.items.find((entry) => entry.id === itemId);
+        return removed ? `Removed item • ${removed.job.name}` : "Removed item";
+      };
+      const getTargetLabel = (jobId: string, itemId: string) => {
+        if (itemId) return getItemLabel(itemId);
+        if (jobId) {
+          return (
+            [...project.jobs, ...trash.jobs].find((job) => job.id === jobId)?.name ||
+            "Deleted order"
+          );
+        }
+        return "Project";
+      };
+      const toView = (comment: (typeof comments)[number]) => ({
+        id: comment.id,
+        authorName: getAuthorName(comment.authorCustomerId),
+        isAuthor: comment.authorCustomerId === customerId,
+        body: comment.deletedAt ? null : comment.body,
+        mentioned: comment.deletedAt
+          ? []
+          : parseMentionIds(comment.mentionedCustomerIds).map(getAuthorName),
+        createdAt: comment.createdAt.toISOString(),
+        editedAt: comment.editedAt?.toISOString() ?? null,
+      });
+      const threads = comments
+        .filter((comment) => !comment.parentId)
+        .map((root) => ({
+          root,
+          replies: comments.filter(
+            (comment) => comment.parentId === root.id && !comment.deletedAt,
+          ),
+        }))
+        // A deleted comment only stays while its replies need it.
+        .filter((thread) => !thread.root.deletedAt || thread.replies.length > 0);
+      const targetKeys = Array.from(
+        new Set(threads.map((thread) => `${thread.root.jobId}:${thread.root.itemId}`)),
+      );
+      const requestedTarget = searchParams.get("commentOn") || "";
+      return {
+        maxLength: MAX_COMMENT_LENGTH,
+        selectedTarget: requestedTarget,
+        targets: [
+          { value: "project", label: "Project" },
+          ...project.jobs.flatMap((job) => [
+            { value: `job:${job.id}`, label: `Order: ${job.name}` },
+            ...job.items.map((item) => ({
+              value: `item:${item.id}`,
+              label: `Item: ${getItemLabel(item.id)}`,
+            })),
+          ]),
+        ],
+        counts: threads.reduce<Record<string, number>>((counts, thread) => {
+          const key = thread.root.itemId || thread.root.jobId || "project";
+          counts[key] = (counts[key] ?? 0) + 1 + thread.replies.length;
+          return counts;
+        }, {}),
+        groups: targetKeys.map((key) => {
+          const [jobId, itemId] = key.split(":");
+          return {
+            key,
+            jobId,
+            itemId,
+            label: getTargetLabel(jobId, itemId),
+            isWatching: commentWatches.some(
+              (watch) => watch.jobId === jobId && watch.itemId === itemId,
+            ),
+            threads: threads
+              .filter((thread) => `${thread.root.jobId}:${thread.root.itemId}` === key)
+              .map((thread) => ({
+                ...toView(thread.root),
+                replies: thread.replies.map(toView),
+              })),
+          };
+        }),
+      };
+    })(),
     memberLookupError,
     variantLookupError,
     themeStyles,
@@ -312,7 +993,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const jobIds = payload.jobIds || [];
 
       const project = await prisma.project.findFirst({
-        where: { id: projectId, shop },
+        where: { id: projectId, shop, deletedAt: null },
         include: { members: true },
       });
 
@@ -324,7 +1005,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         (member) => member.customerId === customerId,
       )?.role;
       const canEdit =
-        project.ownerCustomerId === customerId || memberRole === "edit";
+        (project.ownerCustomerId === customerId || memberRole === "edit") &&
+        !isProjectArchived(project);
 
       if (!canEdit) {
         throw new Response("Forbidden", { status: 403 });
@@ -332,8 +1014,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
       if (jobIds.length) {
         const jobs = await prisma.job.findMany({
-          where: { id: { in: jobIds }, projectId },
+          where: { id: { in: jobIds }, projectId, deletedAt: null },
           select: { id: true },
+          orderBy: { sortOrder: "asc" },
         });
 
         if (jobs.length !== jobIds.length) {
@@ -348,6 +1031,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             }),
           ),
         );
+        await recordAuditEvent({
+          shop,
+          projectId,
+          actorCustomerId: customerId,
+          intent: payload.intent,
+          before: jobs.map((job) => job.id),
+          after: jobIds,
+        });
       }
 
       return new Response(null, { status: 204 });
@@ -358,7 +1049,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const itemIds = payload.itemIds || [];
 
       const project = await prisma.project.findFirst({
-        where: { id: projectId, shop },
+        where: { id: projectId, shop, deletedAt: null },
         include: { members: true },
       });
 
@@ -370,13 +1061,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         (member) => member.customerId === customerId,
       )?.role;
       const canEdit =
-        project.ownerCustomerId === customerId || memberRole === "edit";
+        (project.ownerCustomerId === customerId || memberRole === "edit") &&
+        !isProjectArchived(project);
 
       if (!canEdit) {
         throw new Response("Forbidden", { status: 403 });
       }
 
       if (jobId && itemIds.length) {
+        const items = await prisma.jobItem.findMany({
+          where: { jobId, job: { projectId }, deletedAt: null },
+          select: { id: true },
+          orderBy: { sortOrder: "asc" },
+        });
         await prisma.$transaction(
           itemIds.map((itemId, index) =>
             prisma.jobItem.update({
@@ -385,6 +1082,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             }),
           ),
         );
+        await recordAuditEvent({
+          shop,
+          projectId,
+          jobId,
+          actorCustomerId: customerId,
+          intent: payload.intent,
+          before: items.map((item) => item.id),
+          after: itemIds,
+        });
       }
 
       return new Response(null, { status: 204 });
@@ -403,7 +1109,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const deleteJob = Boolean(payload.deleteJob);
 
       const project = await prisma.project.findFirst({
-        where: { id: projectId, shop },
+        where: { id: projectId, shop, deletedAt: null },
         include: { members: true },
       });
 
@@ -415,7 +1121,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         (member) => member.customerId === customerId,
       )?.role;
       const canEdit =
-        project.ownerCustomerId === customerId || memberRole === "edit";
+        (project.ownerCustomerId === customerId || memberRole === "edit") &&
+        !isProjectArchived(project);
 
       if (!canEdit) {
         throw new Response("Forbidden", { status: 403 });
@@ -423,16 +1130,32 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
       if (jobId) {
         const job = await prisma.job.findFirst({
-          where: { id: jobId, projectId },
-          include: { orderLink: true, items: true },
+          where: { id: jobId, projectId, deletedAt: null },
+          include: { orderLink: true, items: { where: { deletedAt: null } } },
         });
 
         if (job) {
           const isLocked = job.isLocked || Boolean(job.orderLink);
           if (!isLocked) {
+            const before = { name: job.name, items: job.items.map(toAuditItem) };
             if (deleteJob) {
-              await prisma.job.delete({ where: { id: jobId } });
+              await prisma.job.update({
+                where: { id: jobId },
+                data: trashData(customerId),
+              });
+              await recordAuditEvent({
+                shop,
+                projectId,
+                jobId,
+                actorCustomerId: customerId,
+                intent: payload.intent,
+                before,
+                after: null,
+              });
             } else {
+              const changed: Array<{ itemId: string; from: number; to: number }> = [];
+              const budgetBefore = await getBudgetSummary(projectId);
+              await ensureBaseRevision(jobId);
               for (const { itemId, quantity } of itemUpdates) {
                 const item = job.items.find((i) => i.id === itemId);
                 if (item && quantity >= 0) {
@@ -440,6 +1163,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                     where: { id: itemId },
                     data: { quantity },
                   });
+                  if (item.quantity !== quantity) {
+                    changed.push({ itemId, from: item.quantity, to: quantity });
+                  }
+                }
+              }
+              if (changed.length) {
+                await recordAuditEvent({
+                  shop,
+                  projectId,
+                  jobId,
+                  actorCustomerId: customerId,
+                  intent: payload.intent,
+                  before: changed.map(({ itemId, from }) => ({ itemId, quantity: from })),
+                  after: changed.map(({ itemId, to }) => ({ itemId, quantity: to })),
+                });
+                await recordJobRevision(jobId, {
+                  reason: payload.intent,
+                  customerId,
+                });
+                if (
+                  wentOverBudget(budgetBefore, await getBudgetSummary(projectId), jobId)
+                ) {
+                  return redirect(`${getProjectPath(projectId)}&budget=over`);
                 }
               }
             }
@@ -455,7 +1201,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const intent = String(formData.get("intent") || "");
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: { members: true },
   });
 
@@ -477,6 +1223,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const isOwner = project.ownerCustomerId === customerId;
   const canEdit = isOwner || memberRole === "edit";
 
+  if (isProjectArchived(project) && !ARCHIVED_PROJECT_INTENTS.has(intent)) {
+    return Response.json(
+      { statusError: "This project is archived. Unarchive it to make changes." },
+      { status: 400 },
+    );
+  }
+
+  const audit = (event: {
+    jobId?: string | null;
+    before?: unknown;
+    after?: unknown;
+  }) =>
+    recordAuditEvent({
+      shop,
+      projectId,
+      actorCustomerId: customerId,
+      intent,
+      ...event,
+    });
+
   if (intent === "create-job") {
     if (!canEdit) {
       throw new Response("Forbidden", { status: 403 });
@@ -488,7 +1254,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     const existingNames = await prisma.job.findMany({
-      where: { projectId },
+      where: { projectId, deletedAt: null },
       select: { name: true },
     });
     const normalizedName = name.toLowerCase();
@@ -509,13 +1275,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
     const nextSortOrder = (maxOrder._max.sortOrder ?? 0) + 1;
 
-    await prisma.job.create({
+    const job = await prisma.job.create({
       data: {
         projectId,
         name,
         sortOrder: nextSortOrder,
       },
     });
+    await audit({ jobId: job.id, after: { name } });
 
     return redirect(getProjectPath(projectId));
   }
@@ -531,8 +1298,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     const job = await prisma.job.findFirst({
-      where: { id: jobId, projectId },
-      include: { orderLink: true },
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { orderLink: true, items: { where: { deletedAt: null } } },
     });
 
     if (!job) {
@@ -544,7 +1311,134 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       throw new Response("Order is locked", { status: 403 });
     }
 
-    await prisma.job.delete({ where: { id: jobId } });
+    await prisma.job.update({
+      where: { id: jobId },
+      data: trashData(customerId),
+    });
+    await audit({
+      jobId,
+      before: { name: job.name, items: job.items.map(toAuditItem) },
+    });
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "duplicate-project") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    // Only the owner decides who else joins the copy.
+    const includeMembers = isOwner && formData.get("includeMembers") === "on";
+    const copy = await duplicateProject(shop, projectId, {
+      ownerCustomerId: customerId,
+      includeMembers,
+    });
+    if (!copy) {
+      throw new Response("Project not found", { status: 404 });
+    }
+    await recordAuditEvent({
+      shop,
+      projectId: copy.id,
+      actorCustomerId: customerId,
+      intent,
+      after: { sourceProjectId: projectId, name: copy.name, includeMembers },
+    });
+
+    return redirect(getProjectPath(copy.id));
+  }
+
+  if (intent === "save-as-template") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const name = String(formData.get("templateName") || "").trim();
+    if (!name) {
+      return Response.json({ templateError: "Template name is required." }, { status: 400 });
+    }
+    const template = await saveProjectTemplate(shop, projectId, {
+      name,
+      createdByCustomerId: customerId,
+    });
+    await audit({ after: { templateId: template.id, name } });
+
+    return { templateSaved: name };
+  }
+
+  if (intent === "restore-job") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const jobId = String(formData.get("jobId") || "");
+    const job = jobId ? await restoreJob(projectId, jobId) : null;
+    if (!job) {
+      return Response.json({ trashError: "Order is no longer in the trash." }, { status: 404 });
+    }
+    await audit({ jobId, after: { name: job.name } });
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "restore-item") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const itemId = String(formData.get("itemId") || "");
+    try {
+      const item = itemId ? await restoreItem(projectId, itemId) : null;
+      if (!item) {
+        return Response.json({ trashError: "Item is no longer in the trash." }, { status: 404 });
+      }
+      await prisma.approvalRequest.deleteMany({
+        where: { projectId, jobId: item.jobId, itemId: "" },
+      });
+      await audit({ jobId: item.jobId, after: toAuditItem(item) });
+      await recordJobRevision(item.jobId, { reason: intent, customerId });
+    } catch (error) {
+      return Response.json(
+        { trashError: error instanceof Error ? error.message : "Restore failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "restore-revision") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const jobId = String(formData.get("jobId") || "");
+    const revisionId = String(formData.get("revisionId") || "");
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { items: { where: { deletedAt: null } }, orderLink: true },
+    });
+    if (!job) {
+      return Response.json({ revisionError: "Order not found." }, { status: 404 });
+    }
+    if (job.isLocked || job.orderLink) {
+      return Response.json({ revisionError: "The order is locked." }, { status: 403 });
+    }
+    const revision = await restoreJobRevision(jobId, revisionId, customerId);
+    if (!revision) {
+      return Response.json({ revisionError: "Revision not found." }, { status: 404 });
+    }
+    await prisma.approvalRequest.deleteMany({
+      where: { projectId, jobId, itemId: "" },
+    });
+    await audit({
+      jobId,
+      before: job.items.map(toAuditItem),
+      after: {
+        revision: getRevisionLabel(revision.number),
+        items: parseRevisionItems(revision.items),
+      },
+    });
 
     return redirect(getProjectPath(projectId));
   }
@@ -557,9 +1451,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const jobId = String(formData.get("jobId") || "");
     const targetProjectId = String(formData.get("targetProjectId") || "");
 
+    // Only into another live project the customer can edit, in this shop.
+    if (
+      targetProjectId &&
+      !(await findOrderTargetProject(shop, customerId, targetProjectId))
+    ) {
+      throw new Response("Project not found", { status: 404 });
+    }
+
     if (jobId && targetProjectId) {
       const job = await prisma.job.findFirst({
-        where: { id: jobId, projectId },
+        where: { id: jobId, projectId, deletedAt: null },
       });
 
       if (job) {
@@ -567,6 +1469,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           where: { id: jobId },
           data: { projectId: targetProjectId },
         });
+        // Files on the order go with it.
+        await prisma.projectAttachment.updateMany({
+          where: { projectId, jobId },
+          data: { projectId: targetProjectId },
+        });
+        await audit({
+          jobId,
+          before: { projectId },
+          after: { projectId: targetProjectId },
+        });
       }
     }
 
@@ -581,27 +1493,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const jobId = String(formData.get("jobId") || "");
     const targetProjectId = String(formData.get("targetProjectId") || "");
 
+    // Only into another live project the customer can edit, in this shop.
+    if (
+      targetProjectId &&
+      !(await findOrderTargetProject(shop, customerId, targetProjectId))
+    ) {
+      throw new Response("Project not found", { status: 404 });
+    }
+
     if (jobId && targetProjectId) {
       const job = await prisma.job.findFirst({
-        where: { id: jobId, projectId },
-        include: { items: true },
+        where: { id: jobId, projectId, deletedAt: null },
+        include: { items: { where: { deletedAt: null } } },
       });
 
       if (job) {
-        await prisma.job.create({
+        const maxOrder = await prisma.job.aggregate({
+          where: { projectId: targetProjectId },
+          _max: { sortOrder: true },
+        });
+        const copy = await prisma.job.create({
           data: {
             projectId: targetProjectId,
             name: `${job.name} (Copy)`,
             isLocked: false,
+            sortOrder: (maxOrder._max.sortOrder ?? 0) + 1,
             items: {
               create: job.items.map((item) => ({
                 variantId: item.variantId,
                 quantity: item.quantity,
                 priceSnapshot: item.priceSnapshot,
+                sortOrder: item.sortOrder,
               })),
             },
           },
         });
+        await audit({
+          jobId,
+          after: { projectId: targetProjectId, jobId: copy.id, name: copy.name },
+        });
       }
     }
 
@@ -617,7 +1547,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (itemId) {
       const item = await prisma.jobItem.findFirst({
-        where: { id: itemId },
+        where: { id: itemId, deletedAt: null },
         include: { job: { include: { orderLink: true } } },
       });
 
@@ -630,8 +1560,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         throw new Response("Order is locked", { status: 403 });
       }
 
-      await prisma.jobItem.delete({
+      await ensureBaseRevision(item.jobId);
+      await prisma.jobItem.update({
         where: { id: itemId },
+        data: trashData(customerId),
       });
       await prisma.approvalRequest.deleteMany({
         where: {
@@ -640,28 +1572,142 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           itemId: "",
         },
       });
+      await audit({ jobId: item.jobId, before: toAuditItem(item) });
+      await recordJobRevision(item.jobId, { reason: intent, customerId });
+    }
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "replace-item") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const itemId = String(formData.get("itemId") || "");
+    const variantId = String(formData.get("variantId") || "").trim();
+    const item = await prisma.jobItem.findFirst({
+      where: { id: itemId, deletedAt: null },
+      include: { job: { include: { orderLink: true } } },
+    });
+
+    if (!item || item.job.projectId !== projectId) {
+      throw new Response("Item not found", { status: 404 });
+    }
+
+    if (item.job.isLocked || item.job.orderLink) {
+      throw new Response("Order is locked", { status: 403 });
+    }
+
+    if (!variantId) {
+      return Response.json(
+        { replaceError: "Choose a replacement product." },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.jobItem.findFirst({
+      where: { jobId: item.jobId, variantId },
+      select: { deletedAt: true },
+    });
+    if (existing) {
+      return Response.json(
+        {
+          replaceError: existing.deletedAt
+            ? "That product is in this order's trash. Restore it instead."
+            : "That product is already in this order.",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Checked live rather than from the cache: the replacement must be on
+    // sale right now, at today's price.
+    let price: string | undefined;
+    try {
+      const [info, prices] = await Promise.all([
+        getAdminVariantInfo(shop, [variantId]),
+        getAdminVariantPrices(shop, [variantId]),
+      ]);
+      price = isVariantAvailable(info[variantId]) ? prices[variantId] : undefined;
+    } catch (error) {
+      return Response.json(
+        {
+          replaceError:
+            error instanceof Error ? error.message : "Product lookup failed.",
+        },
+        { status: 400 },
+      );
+    }
+    if (price === undefined) {
+      return Response.json(
+        { replaceError: "That product is not for sale." },
+        { status: 400 },
+      );
     }
 
-    return redirect(getProjectPath(projectId));
+    await ensureBaseRevision(item.jobId);
+    const updated = await prisma.jobItem.update({
+      where: { id: item.id },
+      data: {
+        variantId,
+        priceSnapshot: price,
+        substitutedVariantId: item.substitutedVariantId || item.variantId,
+        substitutedAt: new Date(),
+        substitutedByCustomerId: customerId,
+      },
+    });
+    await prisma.approvalRequest.deleteMany({
+      where: {
+        projectId,
+        jobId: item.jobId,
+        itemId: { in: ["", item.id] },
+      },
+    });
+    await audit({
+      jobId: item.jobId,
+      before: toAuditItem(item),
+      after: toAuditItem(updated),
+    });
+    await recordJobRevision(item.jobId, { reason: intent, customerId });
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "share-project") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const shareToken = await createShareToken(projectId, {
+      role: String(formData.get("role") || "view"),
+      expiresInDays: String(formData.get("expiresInDays") || ""),
+      maxUses: String(formData.get("maxUses") || ""),
+      createdByCustomerId: customerId,
+    });
+    await audit({
+      after: {
+        shareTokenId: shareToken.id,
+        role: shareToken.role,
+        expiresAt: shareToken.expiresAt,
+        maxUses: shareToken.maxUses,
+      },
+    });
+
+    return { shareLink: getShareLinkPath(shareToken.token) };
   }
 
-  if (intent === "share-project") {
-    if (!canEdit) {
+  if (intent === "revoke-share-link") {
+    if (!isOwner) {
       throw new Response("Forbidden", { status: 403 });
     }
 
-    const role = String(formData.get("role") || "view");
-    const token = crypto.randomBytes(16).toString("hex");
-
-    await prisma.projectShareToken.create({
-      data: {
-        projectId,
-        token,
-        role: role === "edit" ? "edit" : "view",
-      },
-    });
+    const shareTokenId = String(formData.get("shareTokenId") || "");
+    if (await revokeShareToken(projectId, shareTokenId)) {
+      await audit({ before: { shareTokenId } });
+    }
 
-    return { shareLink: `/apps/project-clad/share/${token}` };
+    return redirect(getProjectPath(projectId));
   }
 
   if (intent === "add-member") {
@@ -727,6 +1773,27 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         role: role === "edit" ? "edit" : "view",
       },
     });
+    const previousRole = project.members.find(
+      (member) => member.customerId === memberCustomerId,
+    )?.role;
+    await audit({
+      before: previousRole
+        ? { customerId: memberCustomerId, role: previousRole }
+        : null,
+      after: {
+        customerId: memberCustomerId,
+        role: role === "edit" ? "edit" : "view",
+      },
+    });
+    if (!previousRole) {
+      await sendMemberAddedEmail(shop, {
+        projectId,
+        projectName: project.name,
+        email,
+        role: role === "edit" ? "edit" : "view",
+        inviterCustomerId: customerId,
+      });
+    }
 
     return redirect(getProjectPath(projectId));
   }
@@ -741,16 +1808,169 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return redirect(getProjectPath(projectId));
     }
 
-    await prisma.projectMember.deleteMany({
+    const removed = await prisma.projectMember.deleteMany({
       where: {
         projectId,
         customerId: memberCustomerId,
       },
     });
+    if (removed.count) {
+      await audit({
+        before: {
+          customerId: memberCustomerId,
+          role: project.members.find(
+            (member) => member.customerId === memberCustomerId,
+          )?.role,
+        },
+      });
+    }
 
     return redirect(getProjectPath(projectId));
   }
 
+  if (intent === "accept-live-prices") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const jobId = String(formData.get("jobId") || "");
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { items: { where: { deletedAt: null } }, orderLink: true },
+    });
+
+    if (!job) {
+      throw new Response("Order not found", { status: 404 });
+    }
+
+    // Locked orders keep the prices they were placed or approved with.
+    if (job.isLocked || job.orderLink) {
+      throw new Response("Order is locked", { status: 403 });
+    }
+
+    let livePrices: Record<string, string> = {};
+    try {
+      livePrices = await getAdminVariantPrices(
+        shop,
+        job.items.map((item) => item.variantId),
+      );
+    } catch (error) {
+      return Response.json(
+        {
+          priceError:
+            error instanceof Error ? error.message : "Price lookup failed.",
+        },
+        { status: 200 },
+      );
+    }
+
+    const updates = job.items.filter(
+      (item) =>
+        livePrices[item.variantId] !== undefined &&
+        Number(livePrices[item.variantId]) !== Number(item.priceSnapshot),
+    );
+    if (updates.length) {
+      await ensureBaseRevision(jobId);
+      await prisma.$transaction(
+        updates.map((item) =>
+          prisma.jobItem.update({
+            where: { id: item.id },
+            data: { priceSnapshot: livePrices[item.variantId] },
+          }),
+        ),
+      );
+      await audit({
+        jobId,
+        before: updates.map(toAuditItem),
+        after: updates.map((item) =>
+          toAuditItem({ ...item, priceSnapshot: livePrices[item.variantId] }),
+        ),
+      });
+      await recordJobRevision(jobId, { reason: intent, customerId });
+    }
+
+    return redirect(getLivePricesPath(projectId));
+  }
+
+  if (intent === "preview-item-import" || intent === "import-items") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const jobId = String(formData.get("jobId") || "");
+    const csv = String(formData.get("itemCsv") || "");
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, projectId, deletedAt: null },
+      include: { items: { where: { deletedAt: null } }, orderLink: true },
+    });
+
+    if (!job) {
+      return Response.json({ importError: "Choose an order to import into." }, { status: 400 });
+    }
+    if (job.isLocked || job.orderLink) {
+      return Response.json({ importError: "Order is locked." }, { status: 400 });
+    }
+    if (!csv.trim()) {
+      return Response.json(
+        { importError: "Paste CSV rows or choose a CSV file." },
+        { status: 400 },
+      );
+    }
+
+    let resolved: Awaited<ReturnType<typeof resolveItemImport>>;
+    try {
+      resolved = await resolveItemImport(shop, csv);
+    } catch (error) {
+      return Response.json(
+        {
+          importError:
+            error instanceof Error ? error.message : "Product lookup failed.",
+        },
+        { status: 200 },
+      );
+    }
+
+    if (intent === "preview-item-import") {
+      return {
+        importPreview: {
+          jobId: job.id,
+          jobName: job.name,
+          csv,
+          matches: resolved.matches,
+          errors: resolved.errors,
+        },
+      };
+    }
+
+    if (resolved.matches.length === 0) {
+      return Response.json(
+        { importError: "No rows matched a product." },
+        { status: 400 },
+      );
+    }
+
+    const quantityMode =
+      formData.get("quantityMode") === "replace" ? "replace" : "add";
+    const items = mergeImportMatches(resolved.matches);
+    await ensureBaseRevision(job.id);
+    await applyJobItems(job.id, items, quantityMode);
+    await recordJobRevision(job.id, { reason: intent, customerId });
+    await prisma.approvalRequest.deleteMany({
+      where: { projectId, jobId: job.id, itemId: "" },
+    });
+    await audit({
+      jobId: job.id,
+      before: job.items.map(toAuditItem),
+      after: {
+        quantityMode,
+        items: items.map(toAuditItem),
+        skippedLines: resolved.errors.map((error) => error.line),
+      },
+    });
+
+    return redirect(`${getProjectPath(projectId)}&job=${encodeURIComponent(job.id)}`);
+  }
+
   if (intent === "update-project-details") {
     if (!canEdit) {
       throw new Response("Forbidden", { status: 403 });
@@ -764,14 +1984,236 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return redirect(getProjectPath(projectId));
     }
 
+    const budgetBefore = project.budget === null ? null : Number(project.budget);
+    let budget = budgetBefore;
+    let budgetNeedsApproval = project.budgetNeedsApproval;
+    let jobBudgets: Array<{ id: string; name: string; before: number | null; after: number | null }> = [];
+    // Budgets are the owner's call; the fields are only on the owner's form.
+    if (isOwner) {
+      const jobs = await prisma.job.findMany({
+        where: { projectId, deletedAt: null },
+        select: { id: true, name: true, budget: true },
+      });
+      try {
+        budget = parseBudget(formData.get("budget"));
+        jobBudgets = jobs
+          .filter((job) => formData.has(`jobBudget:${job.id}`))
+          .map((job) => ({
+            id: job.id,
+            name: job.name,
+            before: job.budget === null ? null : Number(job.budget),
+            after: parseBudget(formData.get(`jobBudget:${job.id}`)),
+          }))
+          .filter((job) => job.before !== job.after);
+      } catch (error) {
+        return Response.json(
+          { budgetError: error instanceof Error ? error.message : "Invalid budget." },
+          { status: 400 },
+        );
+      }
+      budgetNeedsApproval = formData.get("budgetNeedsApproval") === "on";
+    }
+
     await prisma.project.update({
       where: { id: projectId },
-      data: { name, poNumber, companyName },
+      data: { name, poNumber, companyName, budget, budgetNeedsApproval },
+    });
+    for (const job of jobBudgets) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { budget: job.after },
+      });
+    }
+    await audit({
+      before: {
+        name: project.name,
+        poNumber: project.poNumber,
+        companyName: project.companyName,
+        budget: budgetBefore,
+        budgetNeedsApproval: project.budgetNeedsApproval,
+        jobBudgets: jobBudgets.map((job) => ({ name: job.name, budget: job.before })),
+      },
+      after: {
+        name,
+        poNumber,
+        companyName,
+        budget,
+        budgetNeedsApproval,
+        jobBudgets: jobBudgets.map((job) => ({ name: job.name, budget: job.after })),
+      },
     });
 
     return redirect(getProjectPath(projectId));
   }
 
+  if (intent === "set-project-status") {
+    const status = String(formData.get("status") || "");
+    const isArchiveChange = status === "archived" || isProjectArchived(project);
+    if (!(isArchiveChange ? isOwner : canEdit)) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    try {
+      const { before, after } = await changeProjectStatus(shop, projectId, status);
+      await audit({
+        before: { status: before.status },
+        after: { status: after.status },
+      });
+    } catch (error) {
+      return Response.json(
+        { statusError: error instanceof Error ? error.message : "Status change failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(getProjectPath(projectId));
+  }
+
+  if (intent === "upload-attachment") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return Response.json({ attachmentError: "Choose a file to upload." }, { status: 400 });
+    }
+    try {
+      const attachment = await addProjectAttachment(shop, projectId, {
+        jobId: String(formData.get("jobId") || ""),
+        file,
+        customerId,
+      });
+      await audit({
+        jobId: attachment.jobId || null,
+        after: {
+          attachmentId: attachment.id,
+          filename: attachment.filename,
+          size: attachment.size,
+        },
+      });
+    } catch (error) {
+      return Response.json(
+        { attachmentError: error instanceof Error ? error.message : "Upload failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(`${getProjectPath(projectId)}#files`);
+  }
+
+  if (intent === "delete-attachment") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    const attachment = await deleteProjectAttachment(
+      shop,
+      projectId,
+      String(formData.get("attachmentId") || ""),
+    );
+    if (attachment) {
+      await audit({
+        jobId: attachment.jobId || null,
+        before: { attachmentId: attachment.id, filename: attachment.filename },
+      });
+    }
+
+    return redirect(`${getProjectPath(projectId)}#files`);
+  }
+
+  if (intent === "add-comment") {
+    if (!canEdit) {
+      throw new Response("Forbidden", { status: 403 });
+    }
+
+    try {
+      const comment = await addComment(
+        { ...project, shop },
+        {
+          authorCustomerId: customerId,
+          body: String(formData.get("body") || ""),
+          target: parseCommentTarget(String(formData.get("target") || "")),
+          parentId: String(formData.get("parentId") || "") || null,
+        },
+      );
+      await audit({
+        jobId: comment.jobId || null,
+        after: {
+          commentId: comment.id,
+          itemId: comment.itemId || null,
+          body: comment.body,
+          mentioned: parseMentionIds(comment.mentionedCustomerIds),
+        },
+      });
+    } catch (error) {
+      return Response.json(
+        { commentError: error instanceof Error ? error.message : "Comment failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(`${getProjectPath(projectId)}#comments`);
+  }
+
+  if (intent === "edit-comment") {
+    try {
+      const { before, after } = await editComment(
+        { ...project, shop },
+        String(formData.get("commentId") || ""),
+        customerId,
+        String(formData.get("body") || ""),
+      );
+      await audit({
+        jobId: after.jobId || null,
+        before: { commentId: before.id, body: before.body },
+        after: { commentId: after.id, body: after.body },
+      });
+    } catch (error) {
+      return Response.json(
+        { commentError: error instanceof Error ? error.message : "Edit failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(`${getProjectPath(projectId)}#comments`);
+  }
+
+  if (intent === "delete-comment") {
+    try {
+      const comment = await deleteComment(
+        projectId,
+        String(formData.get("commentId") || ""),
+        customerId,
+      );
+      await audit({
+        jobId: comment.jobId || null,
+        before: { commentId: comment.id, body: comment.body },
+      });
+    } catch (error) {
+      return Response.json(
+        { commentError: error instanceof Error ? error.message : "Delete failed." },
+        { status: 400 },
+      );
+    }
+
+    return redirect(`${getProjectPath(projectId)}#comments`);
+  }
+
+  if (intent === "watch-comments" || intent === "unwatch-comments") {
+    const target = {
+      jobId: String(formData.get("jobId") || ""),
+      itemId: String(formData.get("itemId") || ""),
+    };
+    if (intent === "watch-comments") {
+      await watchCommentTarget(projectId, target, customerId);
+    } else {
+      await unwatchCommentTarget(projectId, target, customerId);
+    }
+
+    return redirect(`${getProjectPath(projectId)}#comments`);
+  }
+
   if (intent === "unlock-pricing") {
     const password = String(formData.get("password") || "").trim();
     const settings = await prisma.shopSettings.findUnique({
@@ -790,6 +2232,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         settings.pricingPasswordHash,
       )
     ) {
+      await audit({});
       return Response.json(
         { pricingUnlocked: true },
         { headers: { "Set-Cookie": createPricingCookie() } },
@@ -802,15 +2245,83 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   return new Response("Unsupported action", { status: 400 });
 };
 
+const formatPriceDelta = (delta: number | null) => {
+  if (delta === null) return "—";
+  const rounded = Math.round(delta * 100) / 100;
+  return `${rounded > 0 ? "+" : ""}${rounded.toFixed(2)}`;
+};
+
+const SHARE_LINK_STATUS_LABELS = {
+  active: "Active",
+  expired: "Expired",
+  exhausted: "Use limit reached",
+  revoked: "Revoked",
+} as const;
+
+const formatAuditValue = (value: unknown) => JSON.stringify(value, null, 2);
+
+const formatAvailability = (item: JobItemView) => {
+  if (item.available === null) return "";
+  const status =
+    item.available >= item.quantity
+      ? `In stock (${item.available})`
+      : item.available > 0
+        ? `Only ${item.available} in stock`
+        : "Out of stock";
+  return item.availableLocations.length > 1
+    ? `${status}: ${item.availableLocations
+        .map((location) => `${location.name} ${location.available}`)
+        .join(", ")}`
+    : status;
+};
+
+// Items without tracked stock can always be ordered in full; items no
+// longer for sale can't be ordered at all.
+const getInStockQuantity = (item: JobItemView) =>
+  item.isUnavailable
+    ? 0
+    : item.available === null
+      ? item.quantity
+      : Math.min(item.quantity, item.available);
+
+const getShortItems = (job: JobView) =>
+  job.items.filter(
+    (item) =>
+      item.quantity > 0 &&
+      !item.isUnavailable &&
+      getInStockQuantity(item) < item.quantity,
+  );
+
+const getCartItems = (job: JobView) =>
+  job.items.filter((item) => item.quantity > 0 && !item.isUnavailable);
+
 export default function ProjectDetailPage() {
   const {
     project,
     otherProjects,
     canViewPricing,
+    showLivePrices,
+    priceLookupError,
+    availabilityError,
+    replacementOptions,
+    replacementSearch,
+    replacementError,
     canEdit,
+    canReuse,
     isOwner,
+    projectStatus,
     hideAddToCart,
+    requireApprovalForCheckout,
+    budget,
     approvalRequests,
+    shareLinks,
+    shareLinkExpiryDays,
+    approvalHistory,
+    activity,
+    trash,
+    revisions,
+    comments,
+    attachments,
     memberLookupError,
     variantLookupError,
     shop,
@@ -824,16 +2335,42 @@ export default function ProjectDetailPage() {
     );
     if (!r) return "none" as const;
     if (r.approvedAt) return "approved" as const;
+    if (r.outcome === "rejected") return "rejected" as const;
+    if (r.outcome === "changes-requested") return "changes_requested" as const;
     return "awaiting" as const;
   };
 
   const hasProjectLevelApprovalPending = approvalRequests.some(
-    (r) => !r.approvedAt && !r.jobId && !r.itemId,
+    (r) => !r.approvedAt && !r.outcome && !r.jobId && !r.itemId,
   );
 
   const isOrderAwaitingApproval = (jobId: string) =>
     hasProjectLevelApprovalPending || getApprovalStatus(jobId, "") === "awaiting";
 
+  const isOverBudget = (jobId: string) =>
+    budget.isOver || Boolean(budget.jobs[jobId]?.isOver);
+
+  // A rejected request, or one sent back for changes, holds the order until
+  // it is resubmitted and approved.
+  const isOrderSentBack = (jobId: string) =>
+    [getApprovalStatus(jobId, ""), getApprovalStatus("", "")].some(
+      (status) => status === "rejected" || status === "changes_requested",
+    );
+
+  // With the shop's approval-before-checkout rule, or the project's rule for
+  // over-budget orders, cart and checkout wait for sign-off.
+  const isCheckoutBlocked = (jobId: string) =>
+    isOrderSentBack(jobId) ||
+    ((requireApprovalForCheckout || (budget.needsApproval && isOverBudget(jobId))) &&
+      getApprovalStatus(jobId, "") !== "approved" &&
+      getApprovalStatus("", "") !== "approved");
+
+  const canApproveRequest = (jobId: string, itemId: string) =>
+    approvalRequests.some(
+      (a) =>
+        a.jobId === (jobId || "") && a.itemId === (itemId || "") && a.canApprove,
+    );
+
   const getJobApprovalInfo = (jobId: string) => {
     const r = approvalRequests.find(
       (a) => a.jobId === (jobId || "") && a.itemId === "",
@@ -863,6 +2400,57 @@ export default function ProjectDetailPage() {
     actionData && typeof actionData === "object" && "memberError" in actionData
       ? (actionData.memberError as string)
       : null;
+  const templateError =
+    actionData && typeof actionData === "object" && "templateError" in actionData
+      ? (actionData.templateError as string)
+      : null;
+  const templateSaved =
+    actionData && typeof actionData === "object" && "templateSaved" in actionData
+      ? (actionData.templateSaved as string)
+      : null;
+  const trashError =
+    actionData && typeof actionData === "object" && "trashError" in actionData
+      ? (actionData.trashError as string)
+      : null;
+  const revisionError =
+    actionData && typeof actionData === "object" && "revisionError" in actionData
+      ? (actionData.revisionError as string)
+      : null;
+  const commentError =
+    actionData && typeof actionData === "object" && "commentError" in actionData
+      ? (actionData.commentError as string)
+      : null;
+  const attachmentError =
+    actionData && typeof actionData === "object" && "attachmentError" in actionData
+      ? (actionData.attachmentError as string)
+      : null;
+  const budgetError =
+    actionData && typeof actionData === "object" && "budgetError" in actionData
+      ? (actionData.budgetError as string)
+      : null;
+  const statusError =
+    actionData && typeof actionData === "object" && "statusError" in actionData
+      ? (actionData.statusError as string)
+      : null;
+  const getCommentsPath = (target: string) =>
+    `${getProjectPath(project.id)}&commentOn=${encodeURIComponent(target)}#comments`;
+  const importError =
+    actionData && typeof actionData === "object" && "importError" in actionData
+      ? (actionData.importError as string)
+      : null;
+  const importPreview =
+    actionData && typeof actionData === "object" && "importPreview" in actionData
+      ? actionData.importPreview
+      : null;
+  const [importCsv, setImportCsv] = useState("");
+  const replaceError =
+    actionData && typeof actionData === "object" && "replaceError" in actionData
+      ? (actionData.replaceError as string)
+      : replacementError;
+  const priceError =
+    actionData && typeof actionData === "object" && "priceError" in actionData
+      ? (actionData.priceError as string)
+      : priceLookupError;
   const [searchParams] = useSearchParams();
   const selectedJobId = searchParams.get("job");
   const approveMode = searchParams.get("approve") === "1";
@@ -871,6 +2459,7 @@ export default function ProjectDetailPage() {
   const [jobs, setJobs] = useState(project.jobs);
   const [cartPrompt, setCartPrompt] = useState<{
     items: JobItemView[];
+    jobId: string;
     jobName: string;
     destination: "cart" | "checkout";
   } | null>(null);
@@ -900,11 +2489,16 @@ export default function ProjectDetailPage() {
 
   const addItemsToCart = async (
     items: JobItemView[],
+    jobId: string,
     mode: "add" | "replace",
   ) => {
     const lineItems = items.map((item) => ({
       id: item.variantId,
       quantity: item.quantity,
+      properties: {
+        [JOB_LINE_PROPERTY]: jobId,
+        [PROJECT_LINE_PROPERTY]: project.id,
+      },
     }));
 
     if (mode === "replace") {
@@ -930,7 +2524,8 @@ export default function ProjectDetailPage() {
     form: HTMLFormElement | null,
     destination: "cart" | "checkout",
   ) => {
-    if (job.items.length === 0) {
+    const items = getCartItems(job);
+    if (items.length === 0) {
       return;
     }
 
@@ -946,20 +2541,20 @@ export default function ProjectDetailPage() {
       }
       const cart = (await response.json()) as { item_count?: number };
       if ((cart.item_count || 0) > 0) {
-        setCartPrompt({ items: job.items, jobName: job.name, destination });
+        setCartPrompt({ items, jobId: job.id, jobName: job.name, destination });
       } else if (form) {
         const returnTo = form.querySelector<HTMLInputElement>('input[name="return_to"]');
         if (returnTo) returnTo.value = destination === "checkout" ? "/checkout" : "/cart";
         form.submit();
       } else {
-        await addItemsToCart(job.items, "add");
+        await addItemsToCart(items, job.id, "add");
         window.location.href = destination === "checkout" ? "/checkout" : "/cart";
       }
     } catch (error) {
       setCartError(
         error instanceof Error ? error.message : "Unable to add items to cart.",
       );
-      setCartPrompt({ items: job.items, jobName: job.name, destination });
+      setCartPrompt({ items, jobId: job.id, jobName: job.name, destination });
     } finally {
       setCartLoading(false);
     }
@@ -971,7 +2566,7 @@ export default function ProjectDetailPage() {
     setCartError(null);
 
     try {
-      await addItemsToCart(cartPrompt.items, mode);
+      await addItemsToCart(cartPrompt.items, cartPrompt.jobId, mode);
       window.location.href = cartPrompt.destination === "checkout" ? "/checkout" : "/cart";
     } catch (error) {
       setCartError(
@@ -1123,23 +2718,29 @@ export default function ProjectDetailPage() {
           className="project-clad-card project-clad-modal project-clad-reject-modal"
           onClick={(e) => e.stopPropagation()}
         >
-          <h2 id="reject-modal-title">Reject order</h2>
+          <h2 id="reject-modal-title">Send order back</h2>
           <p className="project-clad-muted">
-            Provide a reason for the rejection. This will be included in the email sent to project members.
+            Explain what needs to change. The comment is emailed to whoever submitted the order, who can then update it and send it again.
           </p>
           <form data-projectclad-reject-form className="project-clad-reject-form">
-            <label htmlFor="reject-reason">Reason (optional)</label>
+            <label htmlFor="reject-outcome">Outcome</label>
+            <select id="reject-outcome" name="outcome" defaultValue="request-changes">
+              <option value="request-changes">Request changes</option>
+              <option value="reject-approval-request">Reject</option>
+            </select>
+            <label htmlFor="reject-reason">Comment</label>
             <textarea
               id="reject-reason"
-              name="rejectReason"
+              name="comment"
               className="project-clad-reject-textarea"
               placeholder="e.g. Quantity exceeds budget, incorrect product..."
               rows={4}
+              required
             />
             <p className="project-clad-muted" data-projectclad-reject-form-error />
             <div className="project-clad-actions project-clad-reject-modal-actions">
               <button type="submit" className="project-clad-button project-clad-reject-modal-btn">
-                Reject
+                Send back
               </button>
               <button type="button" className="project-clad-button project-clad-reject-modal-btn" data-projectclad-reject-cancel>
                 Cancel
@@ -1242,6 +2843,44 @@ export default function ProjectDetailPage() {
               placeholder="Optional"
               className="project-clad-pricing-password-input"
             />
+            {isOwner && (
+              <>
+                <label htmlFor="edit-project-budget">Project budget</label>
+                <input
+                  id="edit-project-budget"
+                  name="budget"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  defaultValue={budget.budget ?? ""}
+                  placeholder="Optional"
+                  className="project-clad-pricing-password-input"
+                />
+                {project.jobs.map((job) => (
+                  <div key={job.id}>
+                    <label htmlFor={`edit-job-budget-${job.id}`}>Budget for {job.name}</label>
+                    <input
+                      id={`edit-job-budget-${job.id}`}
+                      name={`jobBudget:${job.id}`}
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      defaultValue={budget.jobs[job.id]?.budget ?? ""}
+                      placeholder="Optional"
+                      className="project-clad-pricing-password-input"
+                    />
+                  </div>
+                ))}
+                <label>
+                  <input
+                    type="checkbox"
+                    name="budgetNeedsApproval"
+                    defaultChecked={budget.needsApproval}
+                  />{" "}
+                  Require approval before an over-budget order goes to the cart
+                </label>
+              </>
+            )}
             <div className="project-clad-actions" style={{ marginTop: "0.75rem", gap: "0.5rem" }}>
               <button type="submit" className="project-clad-button project-clad-reject-modal-btn">
                 Save
@@ -1311,29 +2950,107 @@ export default function ProjectDetailPage() {
                     href={btn.url}
                     className={`project-clad-button ${i === 0 ? "project-clad-button--projects" : ""}`}
                   >
-                    {btn.label}
-                  </a>
-                ))}
-              </nav>
-            </div>
-            <p className="project-clad-muted">
-              Created {new Date(project.createdAt).toLocaleDateString()} • PO Number:{" "}
-              {project.poNumber || "—"} • Company name: {project.companyName || "—"}
-            </p>
+                    {btn.label}
+                  </a>
+                ))}
+              </nav>
+            </div>
+            <p className="project-clad-muted">
+              Created {new Date(project.createdAt).toLocaleDateString()} • PO Number:{" "}
+              {project.poNumber || "—"} • Company name: {project.companyName || "—"}
+              {" "}• Status: {projectStatus.label}
+            </p>
+            {projectStatus.next.length > 0 && (
+              <div className="project-clad-actions" style={{ gap: "0.5rem" }}>
+                {projectStatus.next.some((status) => status.value !== "archived" && projectStatus.value !== "archived") && (
+                  <Form
+                    method="post"
+                    action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                    className="project-clad-inline-form"
+                  >
+                    <input type="hidden" name="intent" value="set-project-status" />
+                    <select name="status" aria-label="Project status">
+                      {projectStatus.next
+                        .filter((status) => status.value !== "archived")
+                        .map((status) => (
+                          <option key={status.value} value={status.value}>
+                            {status.label}
+                          </option>
+                        ))}
+                    </select>
+                    <button type="submit" className="project-clad-button">
+                      Change status
+                    </button>
+                  </Form>
+                )}
+                {projectStatus.next.some((status) => status.value === "archived") && (
+                  <Form
+                    method="post"
+                    action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                    onSubmit={(event) => {
+                      if (!confirm("Archive this project? It becomes read-only and is hidden from your projects list.")) {
+                        event.preventDefault();
+                      }
+                    }}
+                  >
+                    <input type="hidden" name="intent" value="set-project-status" />
+                    <input type="hidden" name="status" value="archived" />
+                    <button type="submit" className="project-clad-button">
+                      Archive project
+                    </button>
+                  </Form>
+                )}
+                {projectStatus.value === "archived" && (
+                  <Form
+                    method="post"
+                    action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                  >
+                    <input type="hidden" name="intent" value="set-project-status" />
+                    <input type="hidden" name="status" value="active" />
+                    <button type="submit" className="project-clad-button">
+                      Unarchive project
+                    </button>
+                  </Form>
+                )}
+              </div>
+            )}
+            {statusError && <p className="project-clad-muted">{statusError}</p>}
           </header>
 
-          {!hideAddToCart && (() => {
+          {projectStatus.value === "archived" && (
+            <section
+              className="project-clad-card project-clad-warning"
+              style={{ marginBottom: "1.5rem" }}
+            >
+              <p style={{ margin: 0 }}>
+                <strong>Archived</strong>
+                {projectStatus.archivedAt &&
+                  ` on ${new Date(projectStatus.archivedAt).toLocaleDateString()}`}{" "}
+                — this project is read-only.
+                {isOwner
+                  ? " Unarchive it to make changes."
+                  : " The project owner can unarchive it."}
+              </p>
+            </section>
+          )}
+
+          {(() => {
             const projectLevelPending = approvalRequests.find(
-              (r) => !r.approvedAt && !r.jobId && !r.itemId,
+              (r) => !r.approvedAt && !r.outcome && !r.jobId && !r.itemId,
             );
-            return projectLevelPending ? (
+            return projectLevelPending &&
+              (!hideAddToCart || projectLevelPending.canApprove) ? (
               <section
                 className="project-clad-card project-clad-warning project-clad-approval-pending"
                 style={{ marginBottom: "1.5rem" }}
               >
                 <p style={{ margin: "0 0 0.75rem 0" }}>
                   <strong>Project approval pending</strong> — {project.name}
+                  {projectLevelPending.stepLabel && (
+                    <> • {projectLevelPending.stepLabel}</>
+                  )}
                 </p>
+                {projectLevelPending.canApprove && (
                 <div className="project-clad-approval-buttons">
                   <form
                     method="get"
@@ -1359,20 +3076,72 @@ export default function ProjectDetailPage() {
                       data-projectclad-job-id=""
                       data-projectclad-item-id=""
                     >
-                      Reject
+                      Reject or request changes
                     </button>
                     <span className="project-clad-muted project-clad-approval-msg" data-projectclad-reject-message />
                   </div>
                 </div>
+                )}
               </section>
             ) : null;
           })()}
 
+          {searchParams.get("budget") === "over" &&
+            (budget.isOver || project.jobs.some((job) => budget.jobs[job.id]?.isOver)) && (
+            <section
+              className="project-clad-card project-clad-warning"
+              style={{ marginBottom: "1.5rem" }}
+            >
+              <p style={{ margin: 0 }}>
+                <strong>Over budget</strong> — that change put{" "}
+                {[
+                  ...(budget.isOver ? ["the project"] : []),
+                  ...project.jobs
+                    .filter((job) => budget.jobs[job.id]?.isOver)
+                    .map((job) => job.name),
+                ].join(", ")}{" "}
+                over budget.
+                {budget.needsApproval &&
+                  " Over-budget orders need approval before they can go to the cart."}
+              </p>
+            </section>
+          )}
+
           <section className="project-clad-section">
             <h2 className="project-clad-section-title">Orders</h2>
             {variantLookupError && (
               <p className="project-clad-muted">{variantLookupError}</p>
             )}
+            {availabilityError && (
+              <p className="project-clad-muted">{availabilityError}</p>
+            )}
+            {replaceError && (
+              <p className="project-clad-muted">{replaceError}</p>
+            )}
+            {project.jobs.length > 0 && (
+              <div className="project-clad-actions" style={{ marginBottom: "1rem" }}>
+                <a href={getQuotePath(project.id)} className="project-clad-button">
+                  Download quote (PDF)
+                </a>
+              </div>
+            )}
+            {pricingUnlocked && project.jobs.length > 0 && (
+              <div className="project-clad-actions" style={{ marginBottom: "1rem" }}>
+                <a
+                  href={
+                    showLivePrices
+                      ? getProjectPath(project.id)
+                      : getLivePricesPath(project.id)
+                  }
+                  className="project-clad-button"
+                >
+                  {showLivePrices ? "Hide price changes" : "Refresh prices"}
+                </a>
+                {priceError && (
+                  <span className="project-clad-muted">{priceError}</span>
+                )}
+              </div>
+            )}
             {canEdit && (
                       <Form
                         method="post"
@@ -1401,6 +3170,137 @@ export default function ProjectDetailPage() {
                 </span>
               </Form>
             )}
+            {canEdit && project.jobs.some((job) => !job.isLocked) && (
+              <details
+                className="project-clad-card project-clad-details"
+                open={Boolean(importPreview || importError)}
+                style={{ marginBottom: "1rem" }}
+              >
+                <summary className="project-clad-summary">Import items from CSV</summary>
+                <p className="project-clad-muted">
+                  One row per item: SKU or variant ID, then quantity. A header row
+                  naming sku, variant_id and quantity columns is optional.
+                </p>
+                <Form
+                  method="post"
+                  action={`/apps/project-clad/project?id=${project.id}`}
+                  className="project-clad-stack"
+                >
+                  <input type="hidden" name="intent" value="preview-item-import" />
+                  <label htmlFor="import-job">Order</label>
+                  <select
+                    id="import-job"
+                    name="jobId"
+                    defaultValue={importPreview?.jobId}
+                  >
+                    {project.jobs
+                      .filter((job) => !job.isLocked)
+                      .map((job) => (
+                        <option key={job.id} value={job.id}>
+                          {job.name}
+                        </option>
+                      ))}
+                  </select>
+                  <label htmlFor="import-file">CSV file</label>
+                  <input
+                    id="import-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={async (event) => {
+                      const file = event.currentTarget.files?.[0];
+                      if (file) setImportCsv(await file.text());
+                    }}
+                  />
+                  <label htmlFor="import-csv">Or paste rows</label>
+                  <textarea
+                    id="import-csv"
+                    name="itemCsv"
+                    rows={6}
+                    placeholder={"sku,quantity\nCLAD-1200,40"}
+                    value={importCsv}
+                    onChange={(event) => setImportCsv(event.target.value)}
+                  />
+                  <div className="project-clad-actions">
+                    <button type="submit" className="project-clad-button">
+                      Preview import
+                    </button>
+                    {importError && (
+                      <span className="project-clad-muted">{importError}</span>
+                    )}
+                  </div>
+                </Form>
+                {importPreview && (
+                  <div className="project-clad-stack" style={{ marginTop: "1rem" }}>
+                    <p>
+                      <strong>{importPreview.matches.length}</strong> row(s) matched for{" "}
+                      {importPreview.jobName}
+                      {importPreview.errors.length > 0 && (
+                        <> • {importPreview.errors.length} row(s) will be skipped</>
+                      )}
+                    </p>
+                    {importPreview.matches.length > 0 && (
+                      <table className="project-clad-table">
+                        <thead>
+                          <tr>
+                            <th>Line</th>
+                            <th>SKU / variant</th>
+                            <th>Product</th>
+                            <th className="project-clad-table-right">Quantity</th>
+                            {pricingUnlocked && (
+                              <th className="project-clad-table-right">Price</th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {importPreview.matches.map((match) => (
+                            <tr key={match.line}>
+                              <td>{match.line}</td>
+                              <td>{match.identifier}</td>
+                              <td>{match.displayName}</td>
+                              <td className="project-clad-table-right">{match.quantity}</td>
+                              {pricingUnlocked && (
+                                <td className="project-clad-table-right">
+                                  {Number(match.price).toFixed(2)}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {importPreview.errors.length > 0 && (
+                      <ul className="project-clad-muted">
+                        {importPreview.errors.map((error) => (
+                          <li key={`${error.line}-${error.message}`}>
+                            {error.line > 0 ? `Line ${error.line}: ` : ""}
+                            {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {importPreview.matches.length > 0 && (
+                      <Form
+                        method="post"
+                        action={`/apps/project-clad/project?id=${project.id}`}
+                        className="project-clad-inline-form"
+                      >
+                        <input type="hidden" name="intent" value="import-items" />
+                        <input type="hidden" name="jobId" value={importPreview.jobId} />
+                        <input type="hidden" name="itemCsv" value={importPreview.csv} />
+                        <label htmlFor="import-quantity-mode">Quantities</label>
+                        <select id="import-quantity-mode" name="quantityMode" defaultValue="add">
+                          <option value="add">Add to existing items</option>
+                          <option value="replace">Replace the order&apos;s items</option>
+                        </select>
+                        <button type="submit" className="project-clad-button">
+                          Import {importPreview.matches.length} row(s)
+                        </button>
+                      </Form>
+                    )}
+                  </div>
+                )}
+              </details>
+            )}
             {project.jobs.length === 0 ? (
               <p className="project-clad-muted">No orders saved yet.</p>
             ) : (
@@ -1451,12 +3351,50 @@ export default function ProjectDetailPage() {
                           <p className="project-clad-muted">
                             Created {new Date(job.createdAt).toLocaleDateString()} •{" "}
                             {job.isLocked ? "Locked" : "Editable"}
+                            {job.orderName && <> • Ordered as {job.orderName}</>}
                             {(() => {
                               const approval = getJobApprovalInfo(job.id);
                               return approval ? (
                                 <> • Order received {new Date(approval.approvedAt).toLocaleDateString()} by {approval.approvedBy}</>
                               ) : null;
                             })()}
+                            {(() => {
+                              const request = approvalRequests.find(
+                                (a) => a.jobId === job.id && a.itemId === "",
+                              );
+                              if (!request) return null;
+                              return (
+                                <>
+                                  {request.stepLabel && <> • Awaiting {request.stepLabel}</>}
+                                  {request.outcome && (
+                                    <>
+                                      {" "}•{" "}
+                                      <strong>
+                                        {request.outcome === "rejected"
+                                          ? "Rejected"
+                                          : "Changes requested"}
+                                      </strong>
+                                      {request.outcomeBy && <> by {request.outcomeBy}</>}
+                                      {request.outcomeAt && (
+                                        <> ({new Date(request.outcomeAt).toLocaleDateString()})</>
+                                      )}
+                                      {request.outcomeComment && <>: “{request.outcomeComment}”</>}
+                                    </>
+                                  )}
+                                  {request.decisions.length > 0 && (
+                                    <>
+                                      {" "}• Approvals:{" "}
+                                      {request.decisions
+                                        .map(
+                                          (decision) =>
+                                            `${decision.role} — ${decision.approvedBy} (${new Date(decision.decidedAt).toLocaleDateString()})`,
+                                        )
+                                        .join(", ")}
+                                    </>
+                                  )}
+                                </>
+                              );
+                            })()}
                           </p>
                         </div>
                         {hideAddToCart && (() => {
@@ -1465,7 +3403,12 @@ export default function ProjectDetailPage() {
                             return <span className="project-clad-muted">Order received</span>;
                           }
                           const intent = status === "awaiting" ? "cancel-approval-request" : "submit-for-approval";
-                          const label = status === "awaiting" ? "Confirming order" : "Send to shop";
+                          const label =
+                            status === "awaiting"
+                              ? "Confirming order"
+                              : status === "none"
+                                ? "Send to shop"
+                                : "Send to shop again";
                           return (
                             <form
                               method="get"
@@ -1568,6 +3511,44 @@ export default function ProjectDetailPage() {
                                               <span data-projectclad-item-name data-display-name={item.displayName}>{item.quantity === 0 ? `${item.displayName} (Removed)` : item.displayName}</span>
                                             </div>
                                           )}
+                                          {item.quantity > 0 && item.available !== null && !item.isUnavailable && (
+                                            <span
+                                              className="project-clad-muted"
+                                              style={{ display: "block" }}
+                                              data-projectclad-stock
+                                            >
+                                              {formatAvailability(item)}
+                                            </span>
+                                          )}
+                                          {item.substitutedFrom && (
+                                            <span className="project-clad-muted" style={{ display: "block" }}>
+                                              Replaces {item.substitutedFrom}
+                                            </span>
+                                          )}
+                                          {item.quantity > 0 && item.isUnavailable && (
+                                            <span className="project-clad-muted" style={{ display: "block" }}>
+                                              Unavailable: no longer for sale, so it is left out of the cart.
+                                            </span>
+                                          )}
+                                          {item.quantity > 0 && item.isUnavailable && canEdit && !job.isLocked && replacementOptions[item.id] && (
+                                            <ItemReplacementPicker
+                                              projectId={project.id}
+                                              itemId={item.id}
+                                              options={replacementOptions[item.id]}
+                                              search={replacementSearch.itemId === item.id ? replacementSearch : null}
+                                              showPrices={Boolean(pricingUnlocked)}
+                                            />
+                                          )}
+                                          {(canEdit || comments.counts[item.id]) && (
+                                            <a
+                                              href={getCommentsPath(`item:${item.id}`)}
+                                              className="project-clad-muted"
+                                            >
+                                              {comments.counts[item.id]
+                                                ? `Comments (${comments.counts[item.id]})`
+                                                : "Comment"}
+                                            </a>
+                                          )}
                                         </td>
                                 <td className="project-clad-table-right">
                                   <span className="project-clad-normal-view">{item.quantity}</span>
@@ -1590,7 +3571,14 @@ export default function ProjectDetailPage() {
                                   data-price={item.priceSnapshot}
                                 >
                                   {pricingUnlocked ? (
-                                    item.priceSnapshot
+                                    <>
+                                      {item.priceSnapshot}
+                                      {item.livePrice !== null && item.priceDelta !== 0 && (
+                                        <span className="project-clad-muted" style={{ display: "block" }}>
+                                          Now {Number(item.livePrice).toFixed(2)} ({formatPriceDelta(item.priceDelta)})
+                                        </span>
+                                      )}
+                                    </>
                                   ) : (
                                     <button
                                       type="button"
@@ -1605,17 +3593,21 @@ export default function ProjectDetailPage() {
                                   <td className="project-clad-table-right">
                                     <div className="project-clad-stack">
                                       <div className="project-clad-normal-view" data-projectclad-item-actions>
-                                        {!hideAddToCart && item.quantity > 0 && !isOrderAwaitingApproval(job.id) && (
+                                        {!hideAddToCart && item.quantity > 0 && !item.isUnavailable && !isOrderAwaitingApproval(job.id) && !isCheckoutBlocked(job.id) && (
                                           <div className="project-clad-actions" style={{ gap: "0.5rem" }}>
                                             <form method="post" action="/cart/add" style={{ display: "inline" }}>
                                               <input type="hidden" name="items[0][id]" value={item.variantId} />
                                               <input type="hidden" name="items[0][quantity]" value={item.quantity} />
+                                              <input type="hidden" name={`items[0][properties][${JOB_LINE_PROPERTY}]`} value={job.id} />
+                                              <input type="hidden" name={`items[0][properties][${PROJECT_LINE_PROPERTY}]`} value={project.id} />
                                               <input type="hidden" name="return_to" value="/cart" />
                                               <button type="submit" className="project-clad-button">Add to cart</button>
                                             </form>
                                             <form method="post" action="/cart/add" style={{ display: "inline" }}>
                                               <input type="hidden" name="items[0][id]" value={item.variantId} />
                                               <input type="hidden" name="items[0][quantity]" value={item.quantity} />
+                                              <input type="hidden" name={`items[0][properties][${JOB_LINE_PROPERTY}]`} value={job.id} />
+                                              <input type="hidden" name={`items[0][properties][${PROJECT_LINE_PROPERTY}]`} value={project.id} />
                                               <input type="hidden" name="return_to" value="/checkout" />
                                               <button type="submit" className="project-clad-button">Proceed to checkout</button>
                                             </form>
@@ -1670,10 +3662,52 @@ export default function ProjectDetailPage() {
                             </td>
                             {canEdit && !job.isLocked && <td />}
                           </tr>
+                          {pricingUnlocked && budget.jobs[job.id]?.budget != null && (
+                            <tr>
+                              <td className="project-clad-table-right" colSpan={2}>
+                                Budget {budget.jobs[job.id].budget?.toFixed(2)} • Remaining
+                              </td>
+                              <td className="project-clad-table-right">
+                                {budget.jobs[job.id].isOver ? (
+                                  <strong>{budget.jobs[job.id].remaining?.toFixed(2)}</strong>
+                                ) : (
+                                  budget.jobs[job.id].remaining?.toFixed(2)
+                                )}
+                              </td>
+                              {canEdit && !job.isLocked && <td />}
+                            </tr>
+                          )}
+                          {pricingUnlocked && job.priceDelta !== null && (
+                            <tr>
+                              <td className="project-clad-table-right" colSpan={2}>
+                                {job.isLocked ? "Price change (locked, snapshot kept)" : "Price change"}
+                              </td>
+                              <td className="project-clad-table-right">
+                                {formatPriceDelta(job.priceDelta)}
+                              </td>
+                              {canEdit && !job.isLocked && (
+                                <td className="project-clad-table-right">
+                                  {job.priceDelta !== 0 && (
+                                    <Form
+                                      method="post"
+                                      action={`/apps/project-clad/project?id=${project.id}`}
+                                      style={{ display: "inline" }}
+                                    >
+                                      <input type="hidden" name="intent" value="accept-live-prices" />
+                                      <input type="hidden" name="jobId" value={job.id} />
+                                      <button type="submit" className="project-clad-button">
+                                        Accept new prices
+                                      </button>
+                                    </Form>
+                                  )}
+                                </td>
+                              )}
+                            </tr>
+                          )}
                         </tfoot>
                         </table>
                       )}
-                    {!hideAddToCart && getApprovalStatus(job.id, "") === "awaiting" && (
+                    {canApproveRequest(job.id, "") && (
                       <div className="project-clad-approval-buttons" style={{ marginTop: "1rem", paddingTop: "1rem", borderTop: "1px solid rgba(0,0,0,0.08)" }}>
                         <form
                           method="get"
@@ -1702,7 +3736,7 @@ export default function ProjectDetailPage() {
                             data-projectclad-job-id={job.id}
                             data-projectclad-item-id=""
                           >
-                            Reject
+                            Reject or request changes
                           </button>
                           <span
                             className="project-clad-muted project-clad-approval-msg"
@@ -1719,34 +3753,148 @@ export default function ProjectDetailPage() {
                       style={{ marginTop: "1rem", paddingTop: "1rem", borderTop: "1px solid rgba(0,0,0,0.08)" }}
                     >
                       <div className="project-clad-normal-view">
-                        {!hideAddToCart && job.items.filter((i) => i.quantity > 0).length > 0 && (
+                        <div className="project-clad-actions" style={{ gap: "0.5rem" }}>
+                          <a
+                            href={getQuotePath(project.id, job.id)}
+                            className="project-clad-button"
+                          >
+                            Download order quote (PDF)
+                          </a>
+                          <a
+                            href={getCommentsPath(`job:${job.id}`)}
+                            className="project-clad-button"
+                          >
+                            Comments ({comments.counts[job.id] ?? 0})
+                          </a>
+                        </div>
+                        {isOverBudget(job.id) && (
+                          <p className="project-clad-muted">
+                            {budget.jobs[job.id]?.isOver
+                              ? "This order is over its budget."
+                              : "The project is over its budget."}
+                          </p>
+                        )}
+                        {!hideAddToCart && isCheckoutBlocked(job.id) && (
+                          <p className="project-clad-muted">
+                            {isOrderSentBack(job.id)
+                              ? "An approver sent this order back. Resubmit it for approval to add it to the cart."
+                              : "Add to cart and checkout are available once this order is approved."}
+                          </p>
+                        )}
+                        {!hideAddToCart && job.items.some((i) => i.quantity > 0 && i.isUnavailable) && (
+                          <p className="project-clad-muted">
+                            Items no longer for sale are left out of the cart.
+                            {canEdit && !job.isLocked ? " Replace them to order them." : ""}
+                          </p>
+                        )}
+                        {!hideAddToCart && !isCheckoutBlocked(job.id) && getShortItems(job).length > 0 && (
+                          <p className="project-clad-muted">
+                            {getShortItems(job).length === 1
+                              ? "1 item in this order can't be fully supplied right now."
+                              : `${getShortItems(job).length} items in this order can't be fully supplied right now.`}
+                          </p>
+                        )}
+                        {!hideAddToCart && !isCheckoutBlocked(job.id) && getCartItems(job).length > 0 && (
                           <div className="project-clad-actions" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
                             <form method="post" action="/cart/add" style={{ display: "inline" }} onPointerDownCapture={(e) => e.stopPropagation()}>
-                              {job.items.filter((i) => i.quantity > 0).map((item, index) => (
+                              {getCartItems(job).map((item, index) => (
                                 <input key={`${job.id}-${item.variantId}`} type="hidden" name={`items[${index}][id]`} value={item.variantId} />
                               ))}
-                              {job.items.filter((i) => i.quantity > 0).map((item, index) => (
+                              {getCartItems(job).map((item, index) => (
                                 <input key={`${job.id}-${item.variantId}-qty`} type="hidden" name={`items[${index}][quantity]`} value={item.quantity} />
                               ))}
+                              {getCartItems(job).map((item, index) => (
+                                <input key={`${job.id}-${item.variantId}-job`} type="hidden" name={`items[${index}][properties][${JOB_LINE_PROPERTY}]`} value={job.id} />
+                              ))}
+                              {getCartItems(job).map((item, index) => (
+                                <input key={`${job.id}-${item.variantId}-project`} type="hidden" name={`items[${index}][properties][${PROJECT_LINE_PROPERTY}]`} value={project.id} />
+                              ))}
                               <input type="hidden" name="return_to" value="/cart" />
                               <button type="submit" className="project-clad-button">
                                 Add to cart
                               </button>
                             </form>
                             <form method="post" action="/cart/add" style={{ display: "inline" }} onPointerDownCapture={(e) => e.stopPropagation()}>
-                              {job.items.filter((i) => i.quantity > 0).map((item, index) => (
+                              {getCartItems(job).map((item, index) => (
                                 <input key={`${job.id}-checkout-${item.variantId}`} type="hidden" name={`items[${index}][id]`} value={item.variantId} />
                               ))}
-                              {job.items.filter((i) => i.quantity > 0).map((item, index) => (
+                              {getCartItems(job).map((item, index) => (
                                 <input key={`${job.id}-checkout-${item.variantId}-qty`} type="hidden" name={`items[${index}][quantity]`} value={item.quantity} />
                               ))}
+                              {getCartItems(job).map((item, index) => (
+                                <input key={`${job.id}-checkout-${item.variantId}-job`} type="hidden" name={`items[${index}][properties][${JOB_LINE_PROPERTY}]`} value={job.id} />
+                              ))}
+                              {getCartItems(job).map((item, index) => (
+                                <input key={`${job.id}-checkout-${item.variantId}-project`} type="hidden" name={`items[${index}][properties][${PROJECT_LINE_PROPERTY}]`} value={project.id} />
+                              ))}
                               <input type="hidden" name="return_to" value="/checkout" />
                               <button type="submit" className="project-clad-button">
                                 Proceed to checkout
                               </button>
                             </form>
+                            {getShortItems(job).length > 0 &&
+                              job.items.some((i) => getInStockQuantity(i) > 0) && (
+                                <form method="post" action="/cart/add" style={{ display: "inline" }} onPointerDownCapture={(e) => e.stopPropagation()}>
+                                  {job.items
+                                    .filter((i) => getInStockQuantity(i) > 0)
+                                    .map((item, index) => (
+                                      <span key={`${job.id}-stock-${item.variantId}`}>
+                                        <input type="hidden" name={`items[${index}][id]`} value={item.variantId} />
+                                        <input type="hidden" name={`items[${index}][quantity]`} value={getInStockQuantity(item)} />
+                                        <input type="hidden" name={`items[${index}][properties][${JOB_LINE_PROPERTY}]`} value={job.id} />
+                                        <input type="hidden" name={`items[${index}][properties][${PROJECT_LINE_PROPERTY}]`} value={project.id} />
+                                      </span>
+                                    ))}
+                                  <input type="hidden" name="return_to" value="/cart" />
+                                  <button type="submit" className="project-clad-button">
+                                    Add in-stock quantities to cart
+                                  </button>
+                                </form>
+                              )}
+                            {canEdit && !job.orderName && (
+                              <form
+                                method="get"
+                                action="/apps/project-clad/api/project-actions"
+                                className="project-clad-inline-form"
+                                style={{ display: "inline" }}
+                                data-projectclad-ajax
+                                data-projectclad-intent="place-order"
+                                data-projectclad-project-id={project.id}
+                                onPointerDownCapture={(e) => e.stopPropagation()}
+                              >
+                                <input type="hidden" name="jobId" value={job.id} />
+                                <button type="submit" className="project-clad-button">
+                                  Place order
+                                </button>
+                                <span
+                                  className="project-clad-muted"
+                                  data-projectclad-form-message
+                                />
+                              </form>
+                            )}
                           </div>
                         )}
+                        {isOwner && job.isLocked && !job.orderName && (
+                          <form
+                            method="get"
+                            action="/apps/project-clad/api/project-actions"
+                            className="project-clad-inline-form"
+                            style={{ display: "inline" }}
+                            data-projectclad-ajax
+                            data-projectclad-intent="unlock-job"
+                            data-projectclad-project-id={project.id}
+                            onPointerDownCapture={(e) => e.stopPropagation()}
+                          >
+                            <input type="hidden" name="jobId" value={job.id} />
+                            <button type="submit" className="project-clad-button">
+                              Unlock order
+                            </button>
+                            <span
+                              className="project-clad-muted"
+                              data-projectclad-form-message
+                            />
+                          </form>
+                        )}
                         {canEdit && !job.isLocked && (
                           <>
                             <button
@@ -1763,7 +3911,7 @@ export default function ProjectDetailPage() {
                               action={`/apps/project-clad/project?id=${project.id}`}
                               style={{ display: "inline" }}
                               onSubmit={(e) => {
-                                if (!confirm("Are you sure you want to delete this order? This cannot be undone.")) {
+                                if (!confirm("Are you sure you want to delete this order? You can restore it from the trash.")) {
                                   e.preventDefault();
                                 }
                               }}
@@ -1829,6 +3977,28 @@ export default function ProjectDetailPage() {
                   )}
                 </div>
               </div>
+              {pricingUnlocked && budget.budget !== null && (
+                <div className="project-clad-summary-row">
+                  <p className="project-clad-muted" style={{ margin: 0 }}>
+                    Budget {budget.budget.toFixed(2)} • Remaining
+                  </p>
+                  <div className="project-clad-summary-action">
+                    {budget.isOver ? (
+                      <strong>{budget.remaining?.toFixed(2)}</strong>
+                    ) : (
+                      budget.remaining?.toFixed(2)
+                    )}
+                  </div>
+                </div>
+              )}
+              {budget.isOver && (
+                <p className="project-clad-muted">
+                  The project is over its budget.
+                  {budget.needsApproval &&
+                    " Orders need approval before they can go to the cart."}
+                </p>
+              )}
+              {budgetError && <p className="project-clad-muted">{budgetError}</p>}
             </div>
           </section>
 
@@ -1881,6 +4051,24 @@ export default function ProjectDetailPage() {
                     >
                       <input type="hidden" name="intent" value="share-project" />
                       <input type="hidden" name="role" value="view" />
+                      <label htmlFor="share-expires">Expires</label>
+                      <select id="share-expires" name="expiresInDays" defaultValue="7">
+                        {shareLinkExpiryDays.map((days) => (
+                          <option key={days} value={days}>
+                            {days === 1 ? "In 1 day" : `In ${days} days`}
+                          </option>
+                        ))}
+                        <option value="">Never</option>
+                      </select>
+                      <label htmlFor="share-max-uses">Max uses</label>
+                      <input
+                        id="share-max-uses"
+                        name="maxUses"
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        style={{ width: "6rem" }}
+                      />
                       <button
                         type="submit"
                         className="project-clad-button"
@@ -1897,6 +4085,86 @@ export default function ProjectDetailPage() {
                     </span>
                   </div>
                 </div>
+                {isOwner && shareLinks.length > 0 && (
+                  <details className="project-clad-share-links">
+                    <summary>Manage share links ({shareLinks.length})</summary>
+                    <table className="project-clad-table">
+                      <thead>
+                        <tr>
+                          <th>Link</th>
+                          <th>Created</th>
+                          <th>Expires</th>
+                          <th className="project-clad-table-right">Uses</th>
+                          <th>Status</th>
+                          <th className="project-clad-table-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {shareLinks.map((link) => (
+                          <tr key={link.id}>
+                            <td>
+                              <input
+                                type="text"
+                                readOnly
+                                value={link.url}
+                                onFocus={(event) => event.currentTarget.select()}
+                              />
+                              {link.redemptions.length > 0 && (
+                                <details>
+                                  <summary className="project-clad-muted">
+                                    Redemption log
+                                  </summary>
+                                  <ul>
+                                    {link.redemptions.map((redemption) => (
+                                      <li key={redemption.id}>
+                                        {redemption.name} •{" "}
+                                        {new Date(redemption.redeemedAt).toLocaleString()}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </details>
+                              )}
+                            </td>
+                            <td>{new Date(link.createdAt).toLocaleDateString()}</td>
+                            <td>
+                              {link.expiresAt
+                                ? new Date(link.expiresAt).toLocaleString()
+                                : "Never"}
+                            </td>
+                            <td className="project-clad-table-right">
+                              {link.useCount}
+                              {link.maxUses !== null ? ` / ${link.maxUses}` : ""}
+                            </td>
+                            <td>{SHARE_LINK_STATUS_LABELS[link.status]}</td>
+                            <td className="project-clad-table-right">
+                              {link.status === "revoked" ? (
+                                "—"
+                              ) : (
+                                <Form
+                                  method="post"
+                                  action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                                  data-projectclad-ajax
+                                  data-projectclad-intent="revoke-share-link"
+                                  data-projectclad-project-id={project.id}
+                                >
+                                  <input type="hidden" name="intent" value="revoke-share-link" />
+                                  <input type="hidden" name="shareTokenId" value={link.id} />
+                                  <button type="submit" className="project-clad-button">
+                                    Revoke
+                                  </button>
+                                  <span
+                                    className="project-clad-muted"
+                                    data-projectclad-form-message
+                                  />
+                                </Form>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </details>
+                )}
               </>
             ) : (
               <p className="project-clad-muted">
@@ -2102,6 +4370,10 @@ export default function ProjectDetailPage() {
           window.location.href = payload.redirectTo;
           return;
         }
+        if (res.redirected && res.url.indexOf('budget=over') !== -1) {
+          window.location.href = res.url;
+          return;
+        }
         window.location.reload();
       } catch (e) {
         console.error(e);
@@ -2145,16 +4417,22 @@ export default function ProjectDetailPage() {
       const errEl = rejectForm.querySelector('[data-projectclad-reject-form-error]');
       if (errEl) errEl.textContent = '';
       const reason = rejectReasonInput instanceof HTMLTextAreaElement ? rejectReasonInput.value.trim() : '';
+      const outcomeSelect = document.getElementById('reject-outcome');
+      const outcome = outcomeSelect instanceof HTMLSelectElement ? outcomeSelect.value : 'reject-approval-request';
+      if (!reason) {
+        if (errEl) errEl.textContent = 'A comment is required.';
+        return;
+      }
       try {
         const res = await fetch(actionsEndpoint, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            intent: 'cancel-approval-request',
+            intent: outcome,
             projectId: rejectProjectId,
             jobId: rejectJobId,
             itemId: rejectItemId,
-            rejectReason: reason,
+            comment: reason,
           }),
           credentials: 'include',
         });
@@ -2168,7 +4446,7 @@ export default function ProjectDetailPage() {
           return;
         }
         if (rejectModal instanceof HTMLElement) rejectModal.style.display = 'none';
-        if (rejectMessageSpan) rejectMessageSpan.textContent = 'Order rejected.';
+        if (rejectMessageSpan) rejectMessageSpan.textContent = outcome === 'request-changes' ? 'Changes requested.' : 'Order rejected.';
         window.location.reload();
       } catch {
         if (errEl) errEl.textContent = 'Unable to complete action.';
@@ -2219,6 +4497,15 @@ export default function ProjectDetailPage() {
     if (intent === 'delete-item' && !confirm('Are you sure you want to remove this item?')) {
       return;
     }
+    if (intent === 'place-order' && !confirm('Place this order with the shop? The order will be locked once it is placed.')) {
+      return;
+    }
+    if (intent === 'unlock-job' && !confirm('Unlock this approved order? Its quantities can be changed again.')) {
+      return;
+    }
+    if (intent === 'revoke-share-link' && !confirm('Revoke this share link? It will stop working immediately.')) {
+      return;
+    }
     const memberCustomerId =
       form.getAttribute('data-projectclad-member-id') || '';
 
@@ -2231,6 +4518,10 @@ export default function ProjectDetailPage() {
     const approveItemIdInput = form.querySelector('input[name="approveItemId"]');
     const emailInput = form.querySelector('input[name="email"]');
     const roleSelect = form.querySelector('select[name="role"]');
+    const roleInput = form.querySelector('input[name="role"]');
+    const expiresSelect = form.querySelector('select[name="expiresInDays"]');
+    const maxUsesInput = form.querySelector('input[name="maxUses"]');
+    const shareTokenIdInput = form.querySelector('input[name="shareTokenId"]');
 
     if (passwordInput instanceof HTMLInputElement) {
       params.set('password', passwordInput.value.trim());
@@ -2255,6 +4546,17 @@ export default function ProjectDetailPage() {
     }
     if (roleSelect instanceof HTMLSelectElement) {
       params.set('role', roleSelect.value);
+    } else if (roleInput instanceof HTMLInputElement) {
+      params.set('role', roleInput.value);
+    }
+    if (expiresSelect instanceof HTMLSelectElement) {
+      params.set('expiresInDays', expiresSelect.value);
+    }
+    if (maxUsesInput instanceof HTMLInputElement) {
+      params.set('maxUses', maxUsesInput.value.trim());
+    }
+    if (shareTokenIdInput instanceof HTMLInputElement) {
+      params.set('shareTokenId', shareTokenIdInput.value);
     }
     if (memberCustomerId) {
       params.set('memberCustomerId', memberCustomerId);
@@ -2294,7 +4596,16 @@ export default function ProjectDetailPage() {
         return;
       }
       if ((intent === 'submit-for-approval' || intent === 'cancel-approval-request') && payload?.ok) {
-        setFormMessage(intent === 'submit-for-approval' ? 'Approval request sent.' : 'Approval request cancelled.');
+        setFormMessage(
+          payload.autoApproved
+            ? 'Approved automatically (below the approval threshold).'
+            : intent === 'submit-for-approval' ? 'Approval request sent.' : 'Approval request cancelled.'
+        );
+        window.location.reload();
+        return;
+      }
+      if (intent === 'place-order' && payload?.ok) {
+        setFormMessage(payload.orderName ? 'Order ' + payload.orderName + ' placed.' : 'Order placed.');
         window.location.reload();
         return;
       }
@@ -2392,24 +4703,451 @@ export default function ProjectDetailPage() {
             )}
           </section>
 
+          {approvalHistory.length > 0 && (
+            <section className="project-clad-section">
+              <details>
+                <summary className="project-clad-section-title">Approval history</summary>
+                <table className="project-clad-table">
+                  <thead>
+                    <tr>
+                      <th>When</th>
+                      <th>Who</th>
+                      <th>Order</th>
+                      <th>What</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {approvalHistory.map((entry) => (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                        <td>{entry.actorName}</td>
+                        <td>{entry.target}</td>
+                        <td>
+                          {entry.summary}
+                          {entry.comment && (
+                            <p className="project-clad-muted" style={{ margin: 0 }}>
+                              {entry.comment}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            </section>
+          )}
+
+          <ProjectFiles
+            projectId={project.id}
+            shop={shop}
+            jobs={project.jobs}
+            files={attachments.files}
+            accept={attachments.accept}
+            maxSizeMb={attachments.maxSizeMb}
+            canEdit={canEdit}
+            error={attachmentError}
+          />
+
+          <ProjectComments
+            projectId={project.id}
+            shop={shop}
+            comments={comments}
+            canEdit={canEdit}
+            error={commentError}
+          />
+
+          <section className="project-clad-section">
+            <h2 className="project-clad-section-title">Activity</h2>
+            {activity.length === 0 ? (
+              <p className="project-clad-muted">No activity recorded yet.</p>
+            ) : (
+              <table className="project-clad-table">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Who</th>
+                    <th>What</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activity.map((event) => (
+                    <tr key={event.id}>
+                      <td>{new Date(event.createdAt).toLocaleString()}</td>
+                      <td>{event.actorName}</td>
+                      <td>
+                        {event.summary}
+                        {event.jobName ? ` • ${event.jobName}` : ""}
+                        {(event.before != null || event.after != null) && (
+                          <details>
+                            <summary className="project-clad-muted">Details</summary>
+                            {event.before != null && (
+                              <pre className="project-clad-muted">
+                                Before: {formatAuditValue(event.before)}
+                              </pre>
+                            )}
+                            {event.after != null && (
+                              <pre className="project-clad-muted">
+                                After: {formatAuditValue(event.after)}
+                              </pre>
+                            )}
+                          </details>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {canReuse && (
+            <section className="project-clad-section">
+              <h2 className="project-clad-section-title">Reuse this project</h2>
+              <div className="project-clad-card">
+                <Form
+                  method="post"
+                  action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                  className="project-clad-inline-form"
+                >
+                  <input type="hidden" name="intent" value="duplicate-project" />
+                  {isOwner && (
+                    <label>
+                      <input type="checkbox" name="includeMembers" /> Include
+                      members and approvers
+                    </label>
+                  )}
+                  <button type="submit" className="project-clad-button">
+                    Duplicate project
+                  </button>
+                </Form>
+                <p className="project-clad-muted">
+                  The copy keeps every order, item and price, in the same order.
+                </p>
+                <Form
+                  method="post"
+                  action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                  className="project-clad-inline-form"
+                >
+                  <input type="hidden" name="intent" value="save-as-template" />
+                  <input
+                    type="text"
+                    name="templateName"
+                    placeholder="Template name"
+                    defaultValue={project.name}
+                    required
+                  />
+                  <button type="submit" className="project-clad-button">
+                    Save as template
+                  </button>
+                </Form>
+                <p className="project-clad-muted">
+                  {templateError ||
+                    (templateSaved
+                      ? `Saved "${templateSaved}". Start new projects from it on your projects page.`
+                      : "Templates keep orders and quantities; prices are taken fresh when you start a project from one.")}
+                </p>
+              </div>
+            </section>
+          )}
+
+          {revisions.jobs.length > 0 && (
+            <section className="project-clad-section">
+              <details open={Boolean(revisions.compare || revisionError)}>
+                <summary className="project-clad-section-title">Order revisions</summary>
+                <p className="project-clad-muted">
+                  A revision is kept each time an order&apos;s items change and
+                  when it is submitted for approval.
+                </p>
+                {revisionError && <p className="project-clad-muted">{revisionError}</p>}
+                {revisions.jobs.map((job) => (
+                  <div key={job.jobId} className="project-clad-card">
+                    <h3>{job.jobName}</h3>
+                    {job.revisions.length > 1 && (
+                      <form
+                        method="get"
+                        action="/apps/project-clad/project"
+                        className="project-clad-inline-form"
+                      >
+                        <input type="hidden" name="id" value={project.id} />
+                        <input type="hidden" name="revJob" value={job.jobId} />
+                        <label>
+                          Compare{" "}
+                          <select
+                            name="revFrom"
+                            defaultValue={
+                              revisions.compare?.jobId === job.jobId
+                                ? revisions.compare.fromId
+                                : job.revisions[1].id
+                            }
+                          >
+                            {job.revisions.map((revision) => (
+                              <option key={revision.id} value={revision.id}>
+                                {revision.label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label>
+                          with{" "}
+                          <select
+                            name="revTo"
+                            defaultValue={
+                              revisions.compare?.jobId === job.jobId
+                                ? revisions.compare.toId
+                                : job.revisions[0].id
+                            }
+                          >
+                            {job.revisions.map((revision) => (
+                              <option key={revision.id} value={revision.id}>
+                                {revision.label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <button type="submit" className="project-clad-button">
+                          Compare
+                        </button>
+                      </form>
+                    )}
+                    {revisions.compare?.jobId === job.jobId && (
+                      <table className="project-clad-table">
+                        <caption>
+                          Changes from {revisions.compare.fromLabel} to{" "}
+                          {revisions.compare.toLabel}
+                        </caption>
+                        <thead>
+                          <tr>
+                            <th>Change</th>
+                            <th>Item</th>
+                            <th className="project-clad-table-right">Qty</th>
+                            <th className="project-clad-table-right">Price</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {revisions.compare.added.map((item) => (
+                            <tr key={`added-${item.variantId}`}>
+                              <td>Added</td>
+                              <td>{item.displayName}</td>
+                              <td className="project-clad-table-right">{item.quantity}</td>
+                              <td className="project-clad-table-right">
+                                {pricingUnlocked
+                                  ? Number(item.priceSnapshot).toFixed(2)
+                                  : "Hidden"}
+                              </td>
+                            </tr>
+                          ))}
+                          {revisions.compare.removed.map((item) => (
+                            <tr key={`removed-${item.variantId}`}>
+                              <td>Removed</td>
+                              <td>{item.displayName}</td>
+                              <td className="project-clad-table-right">{item.quantity}</td>
+                              <td className="project-clad-table-right">
+                                {pricingUnlocked
+                                  ? Number(item.priceSnapshot).toFixed(2)
+                                  : "Hidden"}
+                              </td>
+                            </tr>
+                          ))}
+                          {revisions.compare.changed.map((item) => (
+                            <tr key={`changed-${item.variantId}`}>
+                              <td>Changed</td>
+                              <td>{item.displayName}</td>
+                              <td className="project-clad-table-right">
+                                {item.fromQuantity === item.toQuantity
+                                  ? item.toQuantity
+                                  : `${item.fromQuantity} → ${item.toQuantity}`}
+                              </td>
+                              <td className="project-clad-table-right">
+                                {!pricingUnlocked
+                                  ? "Hidden"
+                                  : Number(item.fromPrice) === Number(item.toPrice)
+                                    ? Number(item.toPrice).toFixed(2)
+                                    : `${Number(item.fromPrice).toFixed(2)} → ${Number(item.toPrice).toFixed(2)}`}
+                              </td>
+                            </tr>
+                          ))}
+                          {revisions.compare.added.length +
+                            revisions.compare.removed.length +
+                            revisions.compare.changed.length ===
+                            0 && (
+                            <tr>
+                              <td colSpan={4} className="project-clad-muted">
+                                No differences.
+                              </td>
+                            </tr>
+                          )}
+                        </tbody>
+                        <tfoot>
+                          <tr>
+                            <td className="project-clad-table-right" colSpan={3}>
+                              Subtotal
+                            </td>
+                            <td className="project-clad-table-right">
+                              {pricingUnlocked
+                                ? `${revisions.compare.fromSubtotal.toFixed(2)} → ${revisions.compare.toSubtotal.toFixed(2)} (${formatPriceDelta(
+                                    revisions.compare.toSubtotal - revisions.compare.fromSubtotal,
+                                  )})`
+                                : "Hidden"}
+                            </td>
+                          </tr>
+                        </tfoot>
+                      </table>
+                    )}
+                    <table className="project-clad-table">
+                      <thead>
+                        <tr>
+                          <th>Revision</th>
+                          <th>What</th>
+                          <th>Who</th>
+                          <th>When</th>
+                          <th className="project-clad-table-right">Items</th>
+                          <th className="project-clad-table-right">Subtotal</th>
+                          {canEdit && !job.isLocked && <th />}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {job.revisions.map((revision, index) => (
+                          <tr key={revision.id}>
+                            <td>{revision.label}</td>
+                            <td>
+                              {revision.reason}
+                              {revision.note && (
+                                <p className="project-clad-muted" style={{ margin: 0 }}>
+                                  {revision.note}
+                                </p>
+                              )}
+                            </td>
+                            <td>{revision.createdBy}</td>
+                            <td>{new Date(revision.createdAt).toLocaleString()}</td>
+                            <td className="project-clad-table-right">{revision.itemCount}</td>
+                            <td className="project-clad-table-right">
+                              {pricingUnlocked ? revision.subtotal.toFixed(2) : "Hidden"}
+                            </td>
+                            {canEdit && !job.isLocked && (
+                              <td className="project-clad-table-right">
+                                {index > 0 && (
+                                  <Form
+                                    method="post"
+                                    action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                                    onSubmit={(e) => {
+                                      if (!confirm(`Replace this order's items with ${revision.label}?`)) {
+                                        e.preventDefault();
+                                      }
+                                    }}
+                                  >
+                                    <input type="hidden" name="intent" value="restore-revision" />
+                                    <input type="hidden" name="jobId" value={job.jobId} />
+                                    <input type="hidden" name="revisionId" value={revision.id} />
+                                    <button type="submit" className="project-clad-button">
+                                      Restore
+                                    </button>
+                                  </Form>
+                                )}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </details>
+            </section>
+          )}
+
+          {(trash.jobs.length > 0 || trash.items.length > 0) && (
+            <section className="project-clad-section">
+              <details open={Boolean(trashError)}>
+                <summary className="project-clad-section-title">
+                  Trash ({trash.jobs.length + trash.items.length})
+                </summary>
+                <p className="project-clad-muted">
+                  Deleted orders and items are removed for good after{" "}
+                  {trash.retentionDays} days.
+                </p>
+                {trashError && <p className="project-clad-muted">{trashError}</p>}
+                <table className="project-clad-table">
+                  <thead>
+                    <tr>
+                      <th>What</th>
+                      <th>Deleted by</th>
+                      <th>Deleted</th>
+                      <th>Removed for good</th>
+                      {canEdit && <th />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ...trash.jobs.map((job) => ({
+                        ...job,
+                        intent: "restore-job",
+                        field: "jobId",
+                        label: `${job.name} (${job.itemCount} ${job.itemCount === 1 ? "item" : "items"})`,
+                      })),
+                      ...trash.items.map((item) => ({
+                        ...item,
+                        intent: "restore-item",
+                        field: "itemId",
+                        label: `${item.displayName} ×${item.quantity} • ${item.jobName}`,
+                      })),
+                    ]
+                      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+                      .map((entry) => (
+                        <tr key={entry.id}>
+                          <td>{entry.label}</td>
+                          <td>{entry.deletedBy}</td>
+                          <td>{new Date(entry.deletedAt).toLocaleString()}</td>
+                          <td>{new Date(entry.purgeAt).toLocaleDateString()}</td>
+                          {canEdit && (
+                            <td className="project-clad-table-right">
+                              <Form
+                                method="post"
+                                action={`https://${shop}/apps/project-clad/project?id=${project.id}`}
+                                data-projectclad-ajax
+                                data-projectclad-intent={entry.intent}
+                                data-projectclad-project-id={project.id}
+                              >
+                                <input type="hidden" name="intent" value={entry.intent} />
+                                <input type="hidden" name={entry.field} value={entry.id} />
+                                <button type="submit" className="project-clad-button">
+                                  Restore
+                                </button>
+                                <span
+                                  className="project-clad-muted"
+                                  data-projectclad-form-message
+                                />
+                              </Form>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </details>
+            </section>
+          )}
+
           {isOwner && (
             <section className="project-clad-section">
               <h2 className="project-clad-section-title">Project settings</h2>
               <div className="project-clad-card">
                 <div className="project-clad-actions" style={{ flexWrap: "wrap", gap: "1rem" }}>
-                  <button
-                    type="button"
-                    className="project-clad-button"
-                    data-projectclad-edit-project-details
-                  >
-                    Edit project details
-                  </button>
+                  {canEdit && (
+                    <button
+                      type="button"
+                      className="project-clad-button"
+                      data-projectclad-edit-project-details
+                    >
+                      Edit project details
+                    </button>
+                  )}
                   <form
                     method="post"
                     action="/apps/project-clad/projects"
                     style={{ display: "inline" }}
                     onSubmit={(e) => {
-                      if (!confirm("Are you sure you want to delete this project?")) {
+                      if (!confirm("Are you sure you want to delete this project? You can restore it from your projects list.")) {
                         e.preventDefault();
                       }
                     }}
@@ -14,6 +14,16 @@ import { requireAppProxyCustomer } from "../utils/appProxy.server";
 import { getCustomersByIds } from "../utils/adminCustomers.server";
 import { verifyPassword } from "../utils/passwords.server";
 import { getThemeStyles } from "../utils/themeAssets.server";
+import {
+  findOrderTargetProject,
+  getOrderTargetProjectWhere,
+  isProjectArchived,
+} from "../utils/projectStatus.server";
+import { trashData } from "../utils/trash.server";
+import {
+  ensureBaseRevision,
+  recordJobRevision,
+} from "../utils/jobRevisions.server";
 import proxyStylesUrl from "../styles/project-clad-proxy.css?url";
 import proxyStylesText from "../styles/project-clad-proxy.css?raw";
 
@@ -60,11 +70,15 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const projectId = params.projectId || "";
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: {
       jobs: {
+        where: { deletedAt: null },
         orderBy: { sortOrder: "asc" },
-        include: { items: { orderBy: { sortOrder: "asc" } }, orderLink: true },
+        include: {
+          items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+          orderLink: true,
+        },
       },
       members: true,
     },
@@ -85,16 +99,14 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const memberRole = project.members.find(
     (member) => member.customerId === customerId,
   )?.role;
-  const canEdit = project.ownerCustomerId === customerId || memberRole === "edit";
+  const canEdit =
+    (project.ownerCustomerId === customerId || memberRole === "edit") &&
+    !isProjectArchived(project);
 
   const otherProjects = await prisma.project.findMany({
     where: {
-      shop,
+      ...getOrderTargetProjectWhere(shop, customerId),
       id: { not: projectId },
-      OR: [
-        { ownerCustomerId: customerId },
-        { members: { some: { customerId } } },
-      ],
     },
     orderBy: { createdAt: "desc" },
   });
@@ -179,7 +191,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       const jobIds = payload.jobIds || [];
 
       const project = await prisma.project.findFirst({
-        where: { id: projectId, shop },
+        where: { id: projectId, shop, deletedAt: null },
         include: { members: true },
       });
 
@@ -191,7 +203,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         (member) => member.customerId === customerId,
       )?.role;
       const canEdit =
-        project.ownerCustomerId === customerId || memberRole === "edit";
+        (project.ownerCustomerId === customerId || memberRole === "edit") &&
+        !isProjectArchived(project);
 
       if (!canEdit) {
         throw new Response("Forbidden", { status: 403 });
@@ -199,7 +212,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
       if (jobIds.length) {
         const jobs = await prisma.job.findMany({
-          where: { id: { in: jobIds }, projectId },
+          where: { id: { in: jobIds }, projectId, deletedAt: null },
           select: { id: true },
         });
 
@@ -225,7 +238,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       const itemIds = payload.itemIds || [];
 
       const project = await prisma.project.findFirst({
-        where: { id: projectId, shop },
+        where: { id: projectId, shop, deletedAt: null },
         include: { members: true },
       });
 
@@ -237,7 +250,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         (member) => member.customerId === customerId,
       )?.role;
       const canEdit =
-        project.ownerCustomerId === customerId || memberRole === "edit";
+        (project.ownerCustomerId === customerId || memberRole === "edit") &&
+        !isProjectArchived(project);
 
       if (!canEdit) {
         throw new Response("Forbidden", { status: 403 });
@@ -263,7 +277,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   const intent = String(formData.get("intent") || "");
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: { members: true },
   });
 
@@ -282,7 +296,9 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   const memberRole = project.members.find(
     (member) => member.customerId === customerId,
   )?.role;
-  const canEdit = project.ownerCustomerId === customerId || memberRole === "edit";
+  const canEdit =
+    (project.ownerCustomerId === customerId || memberRole === "edit") &&
+    !isProjectArchived(project);
 
   if (intent === "create-job") {
     if (!canEdit) {
@@ -322,7 +338,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
 
     const job = await prisma.job.findFirst({
-      where: { id: jobId, projectId },
+      where: { id: jobId, projectId, deletedAt: null },
       include: { orderLink: true },
     });
 
@@ -335,7 +351,10 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       throw new Response("Order is locked", { status: 403 });
     }
 
-    await prisma.job.delete({ where: { id: jobId } });
+    await prisma.job.update({
+      where: { id: jobId },
+      data: trashData(customerId),
+    });
 
     return redirect(request.url);
   }
@@ -348,9 +367,17 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const jobId = String(formData.get("jobId") || "");
     const targetProjectId = String(formData.get("targetProjectId") || "");
 
+    // Only into another live project the customer can edit, in this shop.
+    if (
+      targetProjectId &&
+      !(await findOrderTargetProject(shop, customerId, targetProjectId))
+    ) {
+      throw new Response("Project not found", { status: 404 });
+    }
+
     if (jobId && targetProjectId) {
       const job = await prisma.job.findFirst({
-        where: { id: jobId, projectId },
+        where: { id: jobId, projectId, deletedAt: null },
       });
 
       if (job) {
@@ -358,6 +385,11 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           where: { id: jobId },
           data: { projectId: targetProjectId },
         });
+        // Files on the order go with it.
+        await prisma.projectAttachment.updateMany({
+          where: { projectId, jobId },
+          data: { projectId: targetProjectId },
+        });
       }
     }
 
@@ -372,23 +404,37 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const jobId = String(formData.get("jobId") || "");
     const targetProjectId = String(formData.get("targetProjectId") || "");
 
+    // Only into another live project the customer can edit, in this shop.
+    if (
+      targetProjectId &&
+      !(await findOrderTargetProject(shop, customerId, targetProjectId))
+    ) {
+      throw new Response("Project not found", { status: 404 });
+    }
+
     if (jobId && targetProjectId) {
       const job = await prisma.job.findFirst({
-        where: { id: jobId, projectId },
-        include: { items: true },
+        where: { id: jobId, projectId, deletedAt: null },
+        include: { items: { where: { deletedAt: null } } },
       });
 
       if (job) {
+        const maxOrder = await prisma.job.aggregate({
+          where: { projectId: targetProjectId },
+          _max: { sortOrder: true },
+        });
         await prisma.job.create({
           data: {
             projectId: targetProjectId,
             name: `${job.name} (Copy)`,
             isLocked: false,
+            sortOrder: (maxOrder._max.sortOrder ?? 0) + 1,
             items: {
               create: job.items.map((item) => ({
                 variantId: item.variantId,
                 quantity: item.quantity,
                 priceSnapshot: item.priceSnapshot,
+                sortOrder: item.sortOrder,
               })),
             },
           },
@@ -408,7 +454,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
     if (itemId) {
       const item = await prisma.jobItem.findFirst({
-        where: { id: itemId },
+        where: { id: itemId, deletedAt: null },
         include: { job: { include: { orderLink: true } } },
       });
 
@@ -421,8 +467,14 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         throw new Response("Order is locked", { status: 403 });
       }
 
-      await prisma.jobItem.delete({
+      await ensureBaseRevision(item.jobId);
+      await prisma.jobItem.update({
         where: { id: itemId },
+        data: trashData(customerId),
+      });
+      await recordJobRevision(item.jobId, {
+        reason: "delete-item",
+        customerId,
       });
       await prisma.approvalRequest.deleteMany({
         where: {
@@ -485,18 +537,6 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   return new Response("Unsupported action", { status: 400 });
 };
 
-const buildCartLink = (items: JobItemView[]) => {
-  if (items.length === 0) {
-    return "/cart";
-  }
-
-  const lineItems = items
-    .map((item) => `${encodeURIComponent(item.variantId)}:${item.quantity}`)
-    .join(",");
-
-  return `/cart/${lineItems}`;
-};
-
 export default function ProjectDetailPage() {
   const { project, shop, otherProjects, canViewPricing, canEdit } =
     useLoaderData<typeof loader>();
@@ -809,11 +849,11 @@ export default function ProjectDetailPage() {
                           </p>
                         </div>
                         <a
-                          href={buildCartLink(job.items)}
+                          href={`/apps/project-clad/project?id=${encodeURIComponent(project.id)}&job=${encodeURIComponent(job.id)}`}
                           className="link"
                           onClick={(event) => event.stopPropagation()}
                         >
-                          Add items to cart
+                          Order from the project page
                         </a>
                       </div>
                     </summary>
@@ -1,12 +1,47 @@
 import type { ActionFunctionArgs, LinksFunction, LoaderFunctionArgs } from "react-router";
-import { redirect, useLoaderData } from "react-router";
+import { redirect, useActionData, useLoaderData } from "react-router";
 import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
 import { getCustomersByIds } from "../utils/adminCustomers.server";
 import { getCsvForProjectIds } from "../utils/exportProjectsCsv.server";
 import { isEmailConfigured, sendEmail } from "../utils/email.server";
-import { getAdminVariantInfo } from "../utils/adminVariants.server";
+import { searchAdminVariantIdsByProductTitle } from "../utils/adminVariants.server";
+import { getVariantInfo, isVariantAvailable } from "../utils/variantCache.server";
+import {
+  createProjectFromTemplate,
+  deleteProjectTemplate,
+  listProjectTemplates,
+} from "../utils/projectTemplates.server";
 import { getThemeStyles } from "../utils/themeAssets.server";
+import { recordAuditEvent } from "../utils/auditLog.server";
+import { isJobOverBudget, summarizeBudgets } from "../utils/budgets.server";
+import { sendDueDigests } from "../utils/notifications.server";
+import {
+  PROJECT_STATUS_FILTERS,
+  PROJECT_STATUS_LABELS,
+  toProjectStatus,
+} from "../utils/projectStatus.server";
+import {
+  getProjectListOrderBy,
+  getProjectListWhere,
+  parseProjectListQuery,
+  PROJECT_APPROVAL_FILTER_LABELS,
+  PROJECT_APPROVAL_FILTERS,
+  PROJECT_PAGE_SIZE,
+  PROJECT_SCOPE_LABELS,
+  PROJECT_SCOPES,
+  PROJECT_SORT_LABELS,
+  PROJECT_SORTS,
+} from "../utils/projectList.server";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDeletedProjects,
+  getPurgeDate,
+  purgeExpiredTrash,
+  restoreProject,
+  trashData,
+} from "../utils/trash.server";
+import { JOB_LINE_PROPERTY, PROJECT_LINE_PROPERTY } from "../utils/cartProperties";
 import proxyStylesUrl from "../styles/project-clad-proxy.css?url";
 import proxyStylesText from "../styles/project-clad-proxy.css?raw";
 
@@ -15,6 +50,7 @@ type ProjectListItem = {
   isOwner: boolean;
   name: string;
   createdAt: string;
+  status: string;
   poNumber: string | null;
   companyName: string | null;
   jobCount: number;
@@ -26,30 +62,34 @@ type ProjectListItem = {
     name: string;
     createdAt: string;
     isLocked: boolean;
+    isApproved: boolean;
+    isCheckoutBlocked: boolean;
     itemCount: number;
     items: {
       id: string;
       variantId: string;
       quantity: number;
-      displayName: string;
-      imageUrl: string | null;
-      imageAlt: string | null;
-      productUrl: string | null;
+      isUnavailable: boolean;
     }[];
   }[];
 };
 
+// One cart line per job and variant, so each line keeps the job it came from.
 const buildProjectCartItems = (jobs: ProjectListItem["jobs"]) => {
-  const totals = new Map<string, number>();
+  const totals = new Map<string, { jobId: string; variantId: string; quantity: number }>();
   jobs.forEach((job) => {
     job.items.forEach((item) => {
-      totals.set(item.variantId, (totals.get(item.variantId) || 0) + item.quantity);
+      if (item.quantity <= 0 || item.isUnavailable) return;
+      const key = `${job.id}:${item.variantId}`;
+      const existing = totals.get(key);
+      totals.set(key, {
+        jobId: job.id,
+        variantId: item.variantId,
+        quantity: (existing?.quantity || 0) + item.quantity,
+      });
     });
   });
-  return Array.from(totals.entries()).map(([variantId, quantity]) => ({
-    variantId,
-    quantity,
-  }));
+  return Array.from(totals.values());
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -58,41 +98,45 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const settings = await prisma.shopSettings.findUnique({
     where: { shop },
   });
+  await purgeExpiredTrash(shop);
+  void sendDueDigests(shop);
+  const query = parseProjectListQuery(new URL(request.url).searchParams);
 
-  const projects = await prisma.project.findMany({
-    where: {
-      shop,
-      OR: [
-        { ownerCustomerId: customerId },
-        { members: { some: { customerId } } },
-      ],
-    },
+  let variantIds: string[] = [];
+  let searchError: string | null = null;
+  if (query.search) {
+    try {
+      variantIds = await searchAdminVariantIdsByProductTitle(shop, query.search);
+    } catch {
+      searchError =
+        "Product titles could not be searched, so only project names, PO numbers and companies were matched.";
+    }
+  }
+
+  // One page at a time; item names are fetched only when a project's orders are opened.
+  const page = await prisma.project.findMany({
+    where: getProjectListWhere(shop, customerId, query, variantIds),
     include: {
       jobs: {
+        where: { deletedAt: null },
         orderBy: { sortOrder: "asc" },
         include: {
-          items: { orderBy: { sortOrder: "asc" } },
+          items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
           orderLink: true,
         },
       },
     },
-    orderBy: { createdAt: "desc" },
+    orderBy: getProjectListOrderBy(query.sort),
+    take: PROJECT_PAGE_SIZE + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
   });
-
-  const variantIds = projects.flatMap((project) =>
-    project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
-  );
-  let variantInfo: Record<
-    string,
-    { title: string; productTitle: string; imageUrl?: string | null; imageAlt?: string | null; productHandle?: string | null }
-  > = {};
-  let variantLookupError: string | null = null;
-  try {
-    variantInfo = await getAdminVariantInfo(shop, variantIds);
-  } catch (error) {
-    variantLookupError =
-      error instanceof Error ? error.message : "Product lookup failed.";
-  }
+  const projects = page.slice(0, PROJECT_PAGE_SIZE);
+  const nextCursor =
+    page.length > PROJECT_PAGE_SIZE ? projects[projects.length - 1].id : null;
+  const deletedProjects = await getDeletedProjects(shop, customerId);
+  const templates = await listProjectTemplates(shop, customerId);
+  const trashRetentionDays =
+    settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
 
   let hideAddToCart = false;
   try {
@@ -115,6 +159,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       projectId: { in: projectIds },
       jobId: "",
       itemId: "",
+      outcome: null,
     },
   });
   const approvalByProjectId = new Map(
@@ -145,6 +190,39 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       ? await getCustomersByIds(shop, approverCustomerIds).catch(() => ({}))
       : {};
 
+  // The order-level and project-level requests decide whether an order can
+  // go to the cart, with the same rules as the project page.
+  const orderApprovals = await prisma.approvalRequest.findMany({
+    where: { projectId: { in: projectIds }, itemId: "" },
+    select: { projectId: true, jobId: true, approvedAt: true, outcome: true },
+  });
+  const getOrderApprovalStatus = (projectId: string, jobId: string) => {
+    const request = orderApprovals.find(
+      (a) => a.projectId === projectId && a.jobId === jobId,
+    );
+    if (!request) return "none" as const;
+    if (request.approvedAt) return "approved" as const;
+    if (request.outcome) return "sent-back" as const;
+    return "awaiting" as const;
+  };
+  const requireApprovalForCheckout = Boolean(settings?.requireApprovalForCheckout);
+
+  // Variants that were deleted, archived or unpublished are left out of the
+  // cart, as on the project page. If the lookup fails, nothing is held back.
+  let variantInfo: Awaited<ReturnType<typeof getVariantInfo>> | null = null;
+  try {
+    variantInfo = await getVariantInfo(
+      shop,
+      projects.flatMap((project) =>
+        project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
+      ),
+    );
+  } catch {
+    variantInfo = null;
+  }
+  const isItemUnavailable = (variantId: string) =>
+    Boolean(variantInfo) && !isVariantAvailable(variantInfo?.[variantId]);
+
   const payload: ProjectListItem[] = projects.map((project) => {
     const projectJobIds = new Set(project.jobs.map((j) => j.id));
     const projectApprovals = jobLevelApprovals.filter(
@@ -165,12 +243,28 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         return name || c.email || id;
       })
       .filter((n): n is string => Boolean(n));
+    const budget = summarizeBudgets(project);
+    // Pending, rejected and sent-back requests hold the order; the shop's
+    // approval rule and the project's over-budget rule need an approval.
+    const isCheckoutBlocked = (jobId: string) => {
+      const statuses = [
+        getOrderApprovalStatus(project.id, jobId),
+        getOrderApprovalStatus(project.id, ""),
+      ];
+      return (
+        statuses.some((status) => status === "awaiting" || status === "sent-back") ||
+        ((requireApprovalForCheckout ||
+          (budget.needsApproval && isJobOverBudget(budget, jobId))) &&
+          !statuses.includes("approved"))
+      );
+    };
 
     return {
     id: project.id,
     isOwner: project.ownerCustomerId === customerId,
     name: project.name,
     createdAt: project.createdAt.toISOString(),
+    status: PROJECT_STATUS_LABELS[toProjectStatus(project.status)],
     poNumber: project.poNumber,
     companyName: project.companyName,
     jobCount: project.jobs.length,
@@ -183,27 +277,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       name: job.name,
       createdAt: job.createdAt.toISOString(),
       isLocked: job.isLocked || Boolean(job.orderLink),
+      isApproved:
+        approvedJobIds.has(job.id) ||
+        Boolean(approvalByProjectId.get(project.id)?.approved),
+      isCheckoutBlocked: isCheckoutBlocked(job.id),
       itemCount: job.items.reduce((sum, item) => sum + item.quantity, 0),
-      items: job.items.map((item) => {
-        const info = variantInfo[item.variantId];
-        const displayName = info
-          ? `${info.productTitle} — ${info.title}`
-          : `Variant ${item.variantId}`;
-
-        const productUrl = info?.productHandle
-          ? `https://${shop}/products/${info.productHandle}?variant=${item.variantId}`
-          : null;
-
-        return {
-          id: item.id,
-          variantId: item.variantId,
-          quantity: item.quantity,
-          displayName,
-          imageUrl: info?.imageUrl || null,
-          imageAlt: info?.imageAlt || null,
-          productUrl,
-        };
-      }),
+      items: job.items.map((item) => ({
+        id: item.id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        isUnavailable: isItemUnavailable(item.variantId),
+      })),
     })),
     approvalStatus: approvalByProjectId.get(project.id) ?? {
       requested: false,
@@ -234,9 +318,44 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   return {
     projects: payload,
+    query,
+    nextCursor,
+    searchError,
+    filters: {
+      status: PROJECT_STATUS_FILTERS.map((filter) => ({
+        value: filter,
+        label:
+          filter === "open"
+            ? "Open projects"
+            : filter === "all"
+              ? "All projects"
+              : PROJECT_STATUS_LABELS[filter],
+      })),
+      scope: PROJECT_SCOPES.map((scope) => ({
+        value: scope,
+        label: PROJECT_SCOPE_LABELS[scope],
+      })),
+      approval: PROJECT_APPROVAL_FILTERS.map((filter) => ({
+        value: filter,
+        label: PROJECT_APPROVAL_FILTER_LABELS[filter],
+      })),
+      sort: PROJECT_SORTS.map((sort) => ({
+        value: sort,
+        label: PROJECT_SORT_LABELS[sort],
+      })),
+    },
+    templates,
+    deletedProjects: deletedProjects.map((project) => {
+      const deletedAt = project.deletedAt ?? new Date();
+      return {
+        id: project.id,
+        name: project.name,
+        deletedAt: deletedAt.toISOString(),
+        purgeAt: getPurgeDate(deletedAt, trashRetentionDays).toISOString(),
+      };
+    }),
     themeStyles,
     shop,
-    variantLookupError,
     hideAddToCart,
     storefrontTheme: settings?.storefrontTheme || "default",
     navButtons,
@@ -248,18 +367,104 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, customerId, customerEmail } = requireAppProxyCustomer(request);
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
+  const projectId = String(formData.get("projectId") || "");
+
+  if (intent === "create-from-template") {
+    const templateId = String(formData.get("templateId") || "");
+    const name = String(formData.get("projectName") || "").trim();
+    if (!templateId || !name) {
+      return Response.json(
+        { templateError: "Choose a template and enter a project name." },
+        { status: 400 },
+      );
+    }
+    let created: Awaited<ReturnType<typeof createProjectFromTemplate>>;
+    try {
+      created = await createProjectFromTemplate(shop, templateId, {
+        name,
+        ownerCustomerId: customerId,
+        poNumber: String(formData.get("poNumber") || "").trim(),
+        companyName: String(formData.get("companyName") || "").trim(),
+        customerId,
+      });
+    } catch (error) {
+      return Response.json(
+        {
+          templateError:
+            error instanceof Error ? error.message : "Price lookup failed.",
+        },
+        { status: 400 },
+      );
+    }
+    if (!created) {
+      return Response.json(
+        { templateError: "Template not found." },
+        { status: 404 },
+      );
+    }
+    await recordAuditEvent({
+      shop,
+      projectId: created.project.id,
+      actorCustomerId: customerId,
+      intent,
+      after: {
+        templateId,
+        templateName: created.template.name,
+        skippedItems: created.skippedItems,
+      },
+    });
+    return redirect(
+      `/apps/project-clad/project?id=${encodeURIComponent(created.project.id)}`,
+    );
+  }
+
+  if (intent === "delete-template") {
+    const templateId = String(formData.get("templateId") || "");
+    const deleted = templateId
+      ? await deleteProjectTemplate(shop, templateId, customerId)
+      : false;
+    if (!deleted) {
+      return Response.json(
+        { templateError: "Only templates you saved can be deleted." },
+        { status: 403 },
+      );
+    }
+    await recordAuditEvent({
+      shop,
+      actorCustomerId: customerId,
+      intent,
+      before: { templateId },
+    });
+    return redirect("/apps/project-clad/projects");
+  }
+
+  if (intent === "restore-project") {
+    const project = projectId
+      ? await restoreProject(shop, projectId, customerId)
+      : null;
+    if (!project) {
+      return new Response("Project not found", { status: 404 });
+    }
+    await recordAuditEvent({
+      shop,
+      projectId,
+      actorCustomerId: customerId,
+      intent,
+      after: { name: project.name },
+    });
+    return redirect("/apps/project-clad/projects");
+  }
 
   if (intent !== "delete-project") {
     return new Response("Unsupported action", { status: 400 });
   }
 
-  const projectId = String(formData.get("projectId") || "");
   if (!projectId) {
     return new Response("Project not found", { status: 404 });
   }
 
   const project = await prisma.project.findFirst({
-    where: { id: projectId, shop },
+    where: { id: projectId, shop, deletedAt: null },
     include: { members: true },
   });
 
@@ -292,22 +497,63 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }
 
-  await prisma.project.delete({ where: { id: projectId } });
+  await prisma.project.update({
+    where: { id: projectId },
+    data: trashData(customerId),
+  });
+  await recordAuditEvent({
+    shop,
+    projectId,
+    actorCustomerId: customerId,
+    intent,
+    before: {
+      projectId,
+      name: project.name,
+      poNumber: project.poNumber,
+      companyName: project.companyName,
+    },
+  });
   return redirect("/apps/project-clad/projects");
 };
 
 export default function ProjectsPage() {
   const {
     projects,
+    query,
+    nextCursor,
+    searchError,
+    filters,
+    templates,
+    deletedProjects,
     themeStyles,
     shop,
-    variantLookupError,
     hideAddToCart,
     storefrontTheme,
     navButtons,
     logoDataUrl,
   } = useLoaderData<typeof loader>();
+  // Every action reply is a Response, so its shape is declared here.
+  const actionData = useActionData<{ templateError?: string }>();
+  const templateError = actionData?.templateError || null;
   const inlineStyles = themeStyles?.styles || [];
+  const isFiltered =
+    Boolean(query.search) ||
+    query.status !== "open" ||
+    query.scope !== "all" ||
+    query.approval !== "any";
+  const getPagePath = (cursor: string) => {
+    const params = new URLSearchParams();
+    if (query.search) params.set("q", query.search);
+    if (query.status !== "open") params.set("status", query.status);
+    if (query.scope !== "all") params.set("scope", query.scope);
+    if (query.approval !== "any") params.set("approval", query.approval);
+    if (query.sort !== "newest") params.set("sort", query.sort);
+    if (cursor) params.set("cursor", cursor);
+    const search = params.toString();
+    return `/apps/project-clad/projects${search ? `?${search}` : ""}`;
+  };
+  const getCartJobs = (project: ProjectListItem) =>
+    project.jobs.filter((job) => !job.isCheckoutBlocked);
 
   return (
     <>
@@ -335,6 +581,9 @@ export default function ProjectsPage() {
             <div className="project-clad-header-row">
               <h1 className="main-page-title page-title">Projects</h1>
               <nav className="project-clad-nav">
+                <a href="/apps/project-clad/notifications" className="project-clad-button">
+                  Notifications
+                </a>
                 {navButtons
                   .filter((_, i) => i !== 0)
                   .map((btn, i) => (
@@ -348,13 +597,158 @@ export default function ProjectsPage() {
               Manage saved orders and share access with teammates.
             </p>
           </header>
-          {variantLookupError && (
-            <p className="project-clad-muted">{variantLookupError}</p>
+          {templates.length > 0 && (
+            <section className="project-clad-section">
+              <details open={Boolean(templateError)}>
+                <summary className="project-clad-section-title">
+                  Start from a template
+                </summary>
+                <form
+                  method="post"
+                  action="/apps/project-clad/projects"
+                  className="project-clad-inline-form"
+                >
+                  <input type="hidden" name="intent" value="create-from-template" />
+                  <select name="templateId" aria-label="Template" required>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} ({template.jobCount}{" "}
+                        {template.jobCount === 1 ? "order" : "orders"})
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    name="projectName"
+                    placeholder="Project name"
+                    aria-label="Project name"
+                    required
+                  />
+                  <input
+                    type="text"
+                    name="companyName"
+                    placeholder="Company name"
+                    aria-label="Company name"
+                  />
+                  <input
+                    type="text"
+                    name="poNumber"
+                    placeholder="PO number"
+                    aria-label="PO number"
+                  />
+                  <button type="submit" className="project-clad-button">
+                    Create project
+                  </button>
+                </form>
+                <p className="project-clad-muted">
+                  {templateError ||
+                    "Prices are taken from the store when the project is created."}
+                </p>
+                <table className="project-clad-table">
+                  <thead>
+                    <tr>
+                      <th>Template</th>
+                      <th>Orders</th>
+                      <th>Items</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {templates.map((template) => (
+                      <tr key={template.id}>
+                        <td>
+                          {template.name}
+                          {template.isShopTemplate && (
+                            <span className="project-clad-muted"> • From the shop</span>
+                          )}
+                        </td>
+                        <td>{template.jobCount}</td>
+                        <td>{template.itemCount}</td>
+                        <td className="project-clad-table-right">
+                          {!template.isShopTemplate && (
+                            <form
+                              method="post"
+                              action="/apps/project-clad/projects"
+                              onSubmit={(event) => {
+                                if (!confirm("Delete this template?")) {
+                                  event.preventDefault();
+                                }
+                              }}
+                            >
+                              <input type="hidden" name="intent" value="delete-template" />
+                              <input type="hidden" name="templateId" value={template.id} />
+                              <button type="submit" className="project-clad-button">
+                                Delete
+                              </button>
+                            </form>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            </section>
           )}
+          <form
+            method="get"
+            action="/apps/project-clad/projects"
+            className="project-clad-inline-form"
+            style={{ marginBottom: "1rem", flexWrap: "wrap" }}
+          >
+            <input
+              type="search"
+              name="q"
+              defaultValue={query.search}
+              placeholder="Search name, PO, company or product"
+              aria-label="Search projects"
+            />
+            <select name="status" aria-label="Status" defaultValue={query.status}>
+              {filters.status.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+            </select>
+            <select name="scope" aria-label="Owner" defaultValue={query.scope}>
+              {filters.scope.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+            </select>
+            <select name="approval" aria-label="Approval" defaultValue={query.approval}>
+              {filters.approval.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+            </select>
+            <select name="sort" aria-label="Sort" defaultValue={query.sort}>
+              {filters.sort.map((sort) => (
+                <option key={sort.value} value={sort.value}>
+                  {sort.label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="project-clad-button">
+              Show
+            </button>
+            {isFiltered && (
+              <a href="/apps/project-clad/projects" className="project-clad-button">
+                Clear
+              </a>
+            )}
+          </form>
+          {searchError && <p className="project-clad-muted">{searchError}</p>}
           {projects.length === 0 ? (
             <section className="project-clad-card">
               <p className="project-clad-muted">
-                You have not saved any projects yet.
+                {query.cursor
+                  ? "There are no more projects."
+                  : isFiltered
+                    ? "No projects match these filters."
+                    : "You have no open projects. Archived projects are under All projects."}
               </p>
             </section>
           ) : (
@@ -387,6 +781,10 @@ export default function ProjectsPage() {
                       <dt>Confirmed orders</dt>
                       <dd>{project.approvedJobCount}</dd>
                     </div>
+                    <div>
+                      <dt>Status</dt>
+                      <dd>{project.status}</dd>
+                    </div>
                     <div>
                       <dt>PO number</dt>
                       <dd>{project.poNumber || "—"}</dd>
@@ -396,47 +794,100 @@ export default function ProjectsPage() {
                       <dd>{project.companyName || "—"}</dd>
                     </div>
                   </dl>
-                  {!hideAddToCart && (
+                  {project.jobCount > 0 && (
+                    <details data-projectclad-project-jobs={project.id}>
+                      <summary>Show orders</summary>
+                      <div data-projectclad-project-jobs-body>
+                        <p className="project-clad-muted">Loading orders…</p>
+                      </div>
+                    </details>
+                  )}
+                  {!hideAddToCart && getCartJobs(project).length === 0 && project.jobs.some((job) => job.isCheckoutBlocked) && (
+                    <p className="project-clad-muted">
+                      Add to cart and checkout are available once an order is approved.
+                    </p>
+                  )}
+                  {!hideAddToCart &&
+                    getCartJobs(project).some((job) =>
+                      job.items.some((item) => item.quantity > 0 && item.isUnavailable),
+                    ) && (
+                      <p className="project-clad-muted">
+                        Items that are no longer available are left out of the cart.
+                      </p>
+                    )}
+                  {!hideAddToCart && buildProjectCartItems(getCartJobs(project)).length > 0 && (
                     <div className="project-clad-actions" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
                       <form method="post" action="/cart/add" style={{ display: "inline" }}>
-                        {buildProjectCartItems(project.jobs).map((item, index) => (
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
                           <input
-                            key={`${project.id}-${item.variantId}`}
+                            key={`${project.id}-${item.jobId}-${item.variantId}`}
                             type="hidden"
                             name={`items[${index}][id]`}
                             value={item.variantId}
                           />
                         ))}
-                        {buildProjectCartItems(project.jobs).map((item, index) => (
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
                           <input
-                            key={`${project.id}-${item.variantId}-qty`}
+                            key={`${project.id}-${item.jobId}-${item.variantId}-qty`}
                             type="hidden"
                             name={`items[${index}][quantity]`}
                             value={item.quantity}
                           />
                         ))}
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
+                          <input
+                            key={`${project.id}-${item.jobId}-${item.variantId}-job`}
+                            type="hidden"
+                            name={`items[${index}][properties][${JOB_LINE_PROPERTY}]`}
+                            value={item.jobId}
+                          />
+                        ))}
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
+                          <input
+                            key={`${project.id}-${item.jobId}-${item.variantId}-project`}
+                            type="hidden"
+                            name={`items[${index}][properties][${PROJECT_LINE_PROPERTY}]`}
+                            value={project.id}
+                          />
+                        ))}
                         <input type="hidden" name="return_to" value="/cart" />
                         <button type="submit" className="project-clad-button">
                           Add to cart
                         </button>
                       </form>
                       <form method="post" action="/cart/add" style={{ display: "inline" }}>
-                        {buildProjectCartItems(project.jobs).map((item, index) => (
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
                           <input
-                            key={`${project.id}-checkout-${item.variantId}`}
+                            key={`${project.id}-checkout-${item.jobId}-${item.variantId}`}
                             type="hidden"
                             name={`items[${index}][id]`}
                             value={item.variantId}
                           />
                         ))}
-                        {buildProjectCartItems(project.jobs).map((item, index) => (
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
                           <input
-                            key={`${project.id}-checkout-qty-${item.variantId}`}
+                            key={`${project.id}-checkout-qty-${item.jobId}-${item.variantId}`}
                             type="hidden"
                             name={`items[${index}][quantity]`}
                             value={item.quantity}
                           />
                         ))}
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
+                          <input
+                            key={`${project.id}-checkout-${item.jobId}-${item.variantId}-job`}
+                            type="hidden"
+                            name={`items[${index}][properties][${JOB_LINE_PROPERTY}]`}
+                            value={item.jobId}
+                          />
+                        ))}
+                        {buildProjectCartItems(getCartJobs(project)).map((item, index) => (
+                          <input
+                            key={`${project.id}-checkout-${item.jobId}-${item.variantId}-project`}
+                            type="hidden"
+                            name={`items[${index}][properties][${PROJECT_LINE_PROPERTY}]`}
+                            value={project.id}
+                          />
+                        ))}
                         <input type="hidden" name="return_to" value="/checkout" />
                         <button type="submit" className="project-clad-button">
                           Proceed to checkout
@@ -494,12 +945,119 @@ export default function ProjectsPage() {
               ))}
             </section>
           )}
+          {(query.cursor || nextCursor) && (
+            <nav
+              className="project-clad-actions"
+              aria-label="Pages"
+              style={{ marginTop: "1rem", gap: "0.5rem" }}
+            >
+              {query.cursor && (
+                <a href={getPagePath("")} className="project-clad-button">
+                  First page
+                </a>
+              )}
+              {nextCursor && (
+                <a href={getPagePath(nextCursor)} className="project-clad-button">
+                  Next page
+                </a>
+              )}
+            </nav>
+          )}
+          {deletedProjects.length > 0 && (
+            <section className="project-clad-section">
+              <h2 className="project-clad-section-title">Recently deleted</h2>
+              <table className="project-clad-table">
+                <thead>
+                  <tr>
+                    <th>Project</th>
+                    <th>Deleted</th>
+                    <th>Removed for good</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {deletedProjects.map((project) => (
+                    <tr key={project.id}>
+                      <td>{project.name}</td>
+                      <td>{new Date(project.deletedAt).toLocaleString()}</td>
+                      <td>{new Date(project.purgeAt).toLocaleDateString()}</td>
+                      <td className="project-clad-table-right">
+                        <form method="post" action="/apps/project-clad/projects">
+                          <input type="hidden" name="intent" value="restore-project" />
+                          <input type="hidden" name="projectId" value={project.id} />
+                          <button type="submit" className="project-clad-button">
+                            Restore
+                          </button>
+                        </form>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
         </div>
       </main>
       <script
         dangerouslySetInnerHTML={{
           __html: `
 (function() {
+  // Order details come from the server the first time a project's list is opened.
+  document.querySelectorAll('[data-projectclad-project-jobs]').forEach(function(details) {
+    details.addEventListener('toggle', function() {
+      if (!details.open || details.getAttribute('data-loaded')) return;
+      details.setAttribute('data-loaded', '1');
+      var body = details.querySelector('[data-projectclad-project-jobs-body]');
+      var projectId = details.getAttribute('data-projectclad-project-jobs');
+      fetch('/apps/project-clad/api/project-jobs?projectId=' + encodeURIComponent(projectId), { credentials: 'include' })
+        .then(function(r) { return r.json(); })
+        .then(function(data) {
+          if (!body) return;
+          body.textContent = '';
+          if (!data || !Array.isArray(data.jobs)) {
+            var error = document.createElement('p');
+            error.className = 'project-clad-muted';
+            error.textContent = (data && data.error) || 'Unable to load orders.';
+            body.appendChild(error);
+            details.removeAttribute('data-loaded');
+            return;
+          }
+          data.jobs.forEach(function(job) {
+            var heading = document.createElement('p');
+            var name = document.createElement('strong');
+            name.textContent = job.name;
+            heading.appendChild(name);
+            if (job.status) heading.appendChild(document.createTextNode(' • ' + job.status));
+            body.appendChild(heading);
+            var list = document.createElement('ul');
+            job.items.forEach(function(item) {
+              var row = document.createElement('li');
+              if (item.productUrl) {
+                var link = document.createElement('a');
+                link.href = item.productUrl;
+                link.textContent = item.displayName;
+                row.appendChild(link);
+              } else {
+                row.textContent = item.displayName;
+              }
+              row.appendChild(document.createTextNode(' × ' + item.quantity));
+              list.appendChild(row);
+            });
+            body.appendChild(list);
+          });
+          if (data.variantLookupError) {
+            var note = document.createElement('p');
+            note.className = 'project-clad-muted';
+            note.textContent = data.variantLookupError;
+            body.appendChild(note);
+          }
+        })
+        .catch(function() {
+          details.removeAttribute('data-loaded');
+          if (body) body.textContent = 'Unable to load orders.';
+        });
+    });
+  });
   document.querySelectorAll('[data-projectclad-submit-approval]').forEach(function(form) {
     if (!(form instanceof HTMLFormElement)) return;
     form.addEventListener('submit', function(e) {
@@ -0,0 +1,61 @@
+import type { LoaderFunctionArgs } from "react-router";
+import prisma from "../db.server";
+import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import { getCustomersByIds } from "../utils/adminCustomers.server";
+import { createQuotePdf } from "../utils/quotePdf.server";
+
+const PRICING_COOKIE = "projectclad_pricing=1";
+
+const hasPricingAccess = (request: Request) => {
+  const cookie = request.headers.get("Cookie") || "";
+  return cookie.split(";").some((value) => value.trim().startsWith(PRICING_COOKIE));
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop, customerId } = requireAppProxyCustomer(request);
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get("id") || "";
+  const jobId = url.searchParams.get("jobId") || "";
+
+  const project = projectId
+    ? await prisma.project.findFirst({
+        where: {
+          id: projectId,
+          shop,
+          deletedAt: null,
+          OR: [
+            { ownerCustomerId: customerId },
+            { members: { some: { customerId } } },
+          ],
+        },
+        select: { id: true },
+      })
+    : null;
+  if (!project) {
+    throw new Response("Project not found", { status: 404 });
+  }
+
+  // Customers who cannot see prices on the project page get a quote without them.
+  const customerInfo = await getCustomersByIds(shop, [customerId]).catch(
+    () => ({}) as Awaited<ReturnType<typeof getCustomersByIds>>,
+  );
+  const hidePrices = (customerInfo[customerId]?.tags ?? []).some(
+    (t) => String(t).trim().toUpperCase() === "NA",
+  );
+
+  const quote = await createQuotePdf(shop, project.id, {
+    jobId: jobId || null,
+    showPrices: !hidePrices || hasPricingAccess(request),
+  });
+  if (!quote) {
+    throw new Response("Order not found", { status: 404 });
+  }
+
+  return new Response(quote.content, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${quote.filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+};
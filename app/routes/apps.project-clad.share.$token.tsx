@@ -1,35 +1,37 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { redirect } from "react-router";
-import prisma from "../db.server";
 import { requireAppProxyCustomer } from "../utils/appProxy.server";
+import { recordAuditEvent } from "../utils/auditLog.server";
+import {
+  getShareLinkError,
+  redeemShareToken,
+} from "../utils/shareTokens.server";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { shop, customerId } = requireAppProxyCustomer(request);
   const token = params.token || "";
 
-  const shareToken = await prisma.projectShareToken.findFirst({
-    where: { token, project: { shop } },
-    include: { project: true },
-  });
-
-  if (!shareToken) {
-    throw new Response("Share link not found", { status: 404 });
+  let redeemed: Awaited<ReturnType<typeof redeemShareToken>>;
+  try {
+    redeemed = await redeemShareToken(shop, token, customerId);
+  } catch (error) {
+    const { message, status } = getShareLinkError(error);
+    if (status === 500) {
+      console.error("Share link redemption error:", error);
+    }
+    throw new Response(message, { status });
   }
 
-  await prisma.projectMember.upsert({
-    where: {
-      projectId_customerId: {
-        projectId: shareToken.projectId,
-        customerId: customerId,
-      },
-    },
-    update: { role: shareToken.role },
-    create: {
+  const { shareToken, alreadyRedeemed } = redeemed;
+  if (!alreadyRedeemed) {
+    await recordAuditEvent({
+      shop,
       projectId: shareToken.projectId,
-      customerId: customerId,
-      role: shareToken.role,
-    },
-  });
+      actorCustomerId: customerId,
+      intent: "redeem-share-link",
+      after: { shareTokenId: shareToken.id, role: shareToken.role },
+    });
+  }
 
   return redirect(`/apps/project-clad/projects/${shareToken.projectId}`);
 };
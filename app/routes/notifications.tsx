@@ -0,0 +1 @@
+export { action, loader, default } from "./apps.project-clad.notifications";
@@ -0,0 +1 @@
+export { loader } from "./apps.project-clad.quote";
@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  unlinkOrder,
+  type OrderWebhookPayload,
+} from "../utils/orderLinks.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const count = await unlinkOrder(shop, payload as OrderWebhookPayload);
+  if (count) {
+    console.log(`Unlocked ${count} job(s) for cancelled order on ${shop}`);
+  }
+
+  return new Response();
+};
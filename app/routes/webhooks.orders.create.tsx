@@ -0,0 +1,24 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  linkOrderToJobs,
+  type OrderWebhookPayload,
+} from "../utils/orderLinks.server";
+import { archiveFullyOrderedProjects } from "../utils/projectStatus.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const jobIds = await linkOrderToJobs(shop, payload as OrderWebhookPayload);
+  if (jobIds.length) {
+    console.log(`Linked order to ${jobIds.length} job(s) for ${shop}`);
+  }
+  const archivedIds = await archiveFullyOrderedProjects(shop, jobIds);
+  if (archivedIds.length) {
+    console.log(`Archived ${archivedIds.length} fully ordered project(s) for ${shop}`);
+  }
+
+  return new Response();
+};
@@ -0,0 +1,2 @@
+// Orders paid after checkout (e.g. net terms) link their jobs here.
+export { action } from "./webhooks.orders.create";
@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { markCachedProductDeleted } from "../utils/variantCache.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const count = await markCachedProductDeleted(
+    shop,
+    (payload as { id?: number | string }).id,
+  );
+  if (count) {
+    console.log(`Marked ${count} cached variant(s) deleted on ${shop}`);
+  }
+
+  return new Response();
+};
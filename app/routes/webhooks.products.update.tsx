@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  refreshCachedProduct,
+  type ProductWebhookPayload,
+} from "../utils/variantCache.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const count = await refreshCachedProduct(shop, payload as ProductWebhookPayload);
+  if (count) {
+    console.log(`Refreshed ${count} cached variant(s) on ${shop}`);
+  }
+
+  return new Response();
+};
@@ -200,18 +200,41 @@ export const getCustomersByIds = async (
   return results;
 };
 
-export const listCustomers = async (
+export type CustomerPage = {
+  customers: Array<CustomerInfo & { company: string | null }>;
+  nextCursor: string | null;
+};
+
+// Each word has to match the email, a name or the default address's company.
+const toCustomerQuery = (text: string) =>
+  text
+    .split(/\s+/)
+    .map((word) => word.replace(/["\\:*()]/g, ""))
+    .filter(Boolean)
+    .map(
+      (word) =>
+        `(email:${word}* OR first_name:${word}* OR last_name:${word}* OR company:${word}*)`,
+    )
+    .join(" AND ");
+
+/**
+ * One page of the shop's customers, searched by email, name and company.
+ * Pass the previous page's `nextCursor` as `after` to read on.
+ */
+export const searchCustomers = async (
   shop: string,
-): Promise<CustomerInfo[]> => {
+  options: { search?: string; after?: string | null; first?: number } = {},
+): Promise<CustomerPage> => {
   const sessions = await sessionStorage.findSessionsByShop(shop);
   const offlineSession = sessions.find((session) => !session.isOnline);
-  if (!offlineSession) {
+  if (!offlineSession?.accessToken) {
     throw new Error(
       "Customer details unavailable. Reauthorize the app to refresh access.",
     );
   }
 
   const endpoint = `https://${shop}/admin/api/${CUSTOMER_API_VERSION}/graphql.json`;
+  const query = toCustomerQuery(options.search || "");
   const response = await fetch(endpoint, {
     method: "POST",
     headers: {
@@ -220,20 +243,30 @@ export const listCustomers = async (
     },
     body: JSON.stringify({
       query: `
-        query ProjectCladCustomers {
-          customers(first: 250) {
-            edges {
-              node {
-                id
-                email
-                firstName
-                lastName
-                tags
+        query ProjectCladCustomerSearch($first: Int!, $after: String, $query: String) {
+          customers(first: $first, after: $after, query: $query, sortKey: NAME) {
+            nodes {
+              id
+              email
+              firstName
+              lastName
+              tags
+              defaultAddress {
+                company
               }
             }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
           }
         }
       `,
+      variables: {
+        first: Math.min(Math.max(options.first ?? 25, 1), 100),
+        after: options.after || null,
+        query: query || null,
+      },
     }),
   });
 
@@ -244,21 +277,21 @@ export const listCustomers = async (
   }
 
   if (!response.ok) {
-    return [];
+    throw new Error("Customer search failed.");
   }
 
   const payload = (await response.json()) as {
     data?: {
       customers?: {
-        edges?: Array<{
-          node?: {
-            id?: string;
-            email?: string | null;
-            firstName?: string | null;
-            lastName?: string | null;
-            tags?: string[];
-          };
+        nodes?: Array<{
+          id?: string;
+          email?: string | null;
+          firstName?: string | null;
+          lastName?: string | null;
+          tags?: string[];
+          defaultAddress?: { company?: string | null } | null;
         }>;
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
       };
     };
     errors?: Array<{ message?: string }>;
@@ -270,20 +303,24 @@ export const listCustomers = async (
     );
   }
 
-  const edges = payload.data?.customers?.edges || [];
-  return edges
-    .map((edge) => {
-      const node = edge.node;
-      if (!node?.id) return null;
+  const connection = payload.data?.customers;
+  return {
+    customers: (connection?.nodes || []).flatMap((node) => {
+      if (!node.id) return [];
       const parts = node.id.split("/");
-      const id = parts[parts.length - 1];
-      return {
-        id,
-        email: node.email ?? null,
-        firstName: node.firstName ?? null,
-        lastName: node.lastName ?? null,
-        tags: Array.isArray(node.tags) ? node.tags : [],
-      };
-    })
-    .filter((customer): customer is CustomerInfo => Boolean(customer));
+      return [
+        {
+          id: parts[parts.length - 1],
+          email: node.email ?? null,
+          firstName: node.firstName ?? null,
+          lastName: node.lastName ?? null,
+          tags: Array.isArray(node.tags) ? node.tags : [],
+          company: node.defaultAddress?.company || null,
+        },
+      ];
+    }),
+    nextCursor: connection?.pageInfo?.hasNextPage
+      ? connection.pageInfo.endCursor || null
+      : null,
+  };
 };
@@ -0,0 +1,225 @@
+import prisma from "../db.server";
+import { sessionStorage } from "../shopify.server";
+import { JOB_LINE_PROPERTY, PROJECT_LINE_PROPERTY } from "./cartProperties";
+import { archiveFullyOrderedProjects } from "./projectStatus.server";
+
+const ORDER_API_VERSION = "2024-10";
+
+export type PlacedOrder = {
+  orderId: string;
+  orderName: string | null;
+  draftOrderId: string;
+};
+
+type UserError = { field?: string[] | null; message?: string };
+
+const toNumericId = (gid: string) => {
+  const parts = gid.split("/");
+  return parts[parts.length - 1] || gid;
+};
+
+const adminGraphql = async <T,>(
+  shop: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T> => {
+  const response = await fetch(
+    `https://${shop}/admin/api/${ORDER_API_VERSION}/graphql.json`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables }),
+    },
+  );
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(
+      "Order creation unavailable. Reauthorize the app with write_draft_orders.",
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error("Shopify rejected the order request.");
+  }
+
+  const payload = (await response.json()) as {
+    data?: T;
+    errors?: Array<{ message?: string }>;
+  };
+
+  if (payload.errors?.length) {
+    throw new Error(
+      payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+    );
+  }
+
+  if (!payload.data) {
+    throw new Error("Shopify returned an empty response.");
+  }
+
+  return payload.data;
+};
+
+const throwOnUserErrors = (errors: UserError[] | undefined) => {
+  if (errors?.length) {
+    throw new Error(
+      errors.map((error) => error.message).filter(Boolean).join(", ") ||
+        "Shopify rejected the order.",
+    );
+  }
+};
+
+/**
+ * Turns a job's items into a Shopify order (draft order, completed with
+ * payment pending) and writes the JobOrderLink that locks the job.
+ */
+export const placeOrderForJob = async (
+  shop: string,
+  jobId: string,
+  options: { customerId?: string | null } = {},
+): Promise<PlacedOrder> => {
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, deletedAt: null, project: { shop, deletedAt: null } },
+    include: {
+      project: true,
+      items: {
+        where: { quantity: { gt: 0 }, deletedAt: null },
+        orderBy: { sortOrder: "asc" },
+      },
+      orderLink: true,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Order not found.");
+  }
+
+  // Jobs locked on approval can still be ordered; only a placed order can't.
+  if (job.orderLink) {
+    throw new Error("Order has already been placed.");
+  }
+
+  if (job.items.length === 0) {
+    throw new Error("Order has no items.");
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Order creation unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const customerId = options.customerId || job.project.ownerCustomerId;
+  const customAttributes = [
+    { key: "Project", value: job.project.name },
+    { key: "Order name", value: job.name },
+    ...(job.project.companyName
+      ? [{ key: "Company name", value: job.project.companyName }]
+      : []),
+  ];
+
+  const created = await adminGraphql<{
+    draftOrderCreate?: {
+      draftOrder?: { id: string } | null;
+      userErrors?: UserError[];
+    };
+  }>(
+    shop,
+    offlineSession.accessToken,
+    `
+      mutation ProjectCladDraftOrderCreate($input: DraftOrderInput!) {
+        draftOrderCreate(input: $input) {
+          draftOrder {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      input: {
+        purchasingEntity: {
+          customerId: `gid://shopify/Customer/${customerId}`,
+        },
+        poNumber: job.project.poNumber || undefined,
+        note: `${job.project.name} — ${job.name}`,
+        tags: ["project-clad"],
+        customAttributes,
+        lineItems: job.items.map((item) => ({
+          variantId: `gid://shopify/ProductVariant/${item.variantId}`,
+          quantity: item.quantity,
+          customAttributes: [
+            { key: JOB_LINE_PROPERTY, value: job.id },
+            { key: PROJECT_LINE_PROPERTY, value: job.projectId },
+          ],
+        })),
+      },
+    },
+  );
+
+  throwOnUserErrors(created.draftOrderCreate?.userErrors);
+  const draftOrderId = created.draftOrderCreate?.draftOrder?.id;
+  if (!draftOrderId) {
+    throw new Error("Shopify did not return a draft order.");
+  }
+
+  const completed = await adminGraphql<{
+    draftOrderComplete?: {
+      draftOrder?: { order?: { id: string; name: string } | null } | null;
+      userErrors?: UserError[];
+    };
+  }>(
+    shop,
+    offlineSession.accessToken,
+    `
+      mutation ProjectCladDraftOrderComplete($id: ID!) {
+        draftOrderComplete(id: $id, paymentPending: true) {
+          draftOrder {
+            order {
+              id
+              name
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    { id: draftOrderId },
+  );
+
+  throwOnUserErrors(completed.draftOrderComplete?.userErrors);
+  const order = completed.draftOrderComplete?.draftOrder?.order;
+  if (!order?.id) {
+    throw new Error("Shopify did not return an order.");
+  }
+
+  const placed: PlacedOrder = {
+    orderId: toNumericId(order.id),
+    orderName: order.name || null,
+    draftOrderId: toNumericId(draftOrderId),
+  };
+
+  await prisma.jobOrderLink.create({
+    data: {
+      jobId: job.id,
+      orderId: placed.orderId,
+      orderName: placed.orderName,
+      draftOrderId: placed.draftOrderId,
+    },
+  });
+  await archiveFullyOrderedProjects(shop, [job.id]);
+
+  return placed;
+};
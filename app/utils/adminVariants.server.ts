@@ -1,11 +1,16 @@
 import { sessionStorage } from "../shopify.server";
 
-type VariantInfo = {
+export type VariantInfo = {
+  productId: string;
   title: string;
   productTitle: string;
   imageUrl: string | null;
   imageAlt: string | null;
   productHandle: string | null;
+  price: string | null;
+  sku: string | null;
+  /** ACTIVE, ARCHIVED or DRAFT from Shopify; DELETED once the cache saw it go. */
+  productStatus: string;
 };
 
 const chunk = <T,>(items: T[], size: number) => {
@@ -16,6 +21,7 @@ const chunk = <T,>(items: T[], size: number) => {
   return result;
 };
 
+/** Straight from the Admin API; most callers want the cached getVariantInfo. */
 export const getAdminVariantInfo = async (
   shop: string,
   variantIds: string[],
@@ -58,12 +64,16 @@ export const getAdminVariantInfo = async (
               ... on ProductVariant {
                 id
                 title
+                price
+                sku
                 image {
                   url
                   altText
                 }
                 product {
+                  id
                   title
+                  status
                   handle
                   featuredImage {
                     url
@@ -89,9 +99,13 @@ export const getAdminVariantInfo = async (
         nodes?: Array<{
           id: string;
           title: string;
+          price?: string | null;
+          sku?: string | null;
           image?: { url: string; altText?: string | null } | null;
           product?: {
+            id: string;
             title: string;
+            status?: string;
             handle: string;
             featuredImage?: { url: string; altText?: string | null } | null;
           } | null;
@@ -110,9 +124,13 @@ export const getAdminVariantInfo = async (
       | Array<{
           id: string;
           title: string;
+          price?: string | null;
+          sku?: string | null;
           image?: { url: string; altText?: string | null } | null;
           product?: {
+            id: string;
             title: string;
+            status?: string;
             handle: string;
             featuredImage?: { url: string; altText?: string | null } | null;
           } | null;
@@ -124,15 +142,613 @@ export const getAdminVariantInfo = async (
       const variantId = idMap.get(node.id);
       if (!variantId) return;
       const image = node.image || node.product?.featuredImage || null;
+      const productParts = (node.product?.id || "").split("/");
       results[variantId] = {
+        productId: productParts[productParts.length - 1],
         title: node.title,
         productTitle: node.product?.title || "Product",
         imageUrl: image?.url || null,
         imageAlt: image?.altText || node.product?.title || null,
         productHandle: node.product?.handle || null,
+        price: node.price == null ? null : String(node.price),
+        sku: node.sku || null,
+        productStatus: node.product?.status || "ACTIVE",
       };
     });
   }
 
   return results;
 };
+
+/** Current catalog prices keyed by numeric variant id (missing variants are omitted). */
+export const getAdminVariantPrices = async (
+  shop: string,
+  variantIds: string[],
+): Promise<Record<string, string>> => {
+  if (variantIds.length === 0) {
+    return {};
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Product prices unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const gids = Array.from(new Set(variantIds)).map(
+    (variantId) => `gid://shopify/ProductVariant/${variantId}`,
+  );
+  const results: Record<string, string> = {};
+  const endpoint = `https://${shop}/admin/api/2024-10/graphql.json`;
+
+  for (const group of chunk(gids, 50)) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladVariantPrices($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              ... on ProductVariant {
+                id
+                price
+              }
+            }
+          }
+        `,
+        variables: { ids: group },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        "Product prices unavailable. Reauthorize the app to refresh access.",
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data?: {
+        nodes?: Array<{ id: string; price?: string | null } | null>;
+      };
+      errors?: Array<{ message?: string }>;
+    };
+
+    if (payload.errors?.length) {
+      throw new Error(
+        payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+      );
+    }
+
+    payload.data?.nodes?.forEach((node) => {
+      if (!node?.id || node.price == null) return;
+      const parts = node.id.split("/");
+      results[parts[parts.length - 1]] = String(node.price);
+    });
+  }
+
+  return results;
+};
+
+export type VariantAvailability = {
+  /** Null when the variant is not tracked or keeps selling when out of stock. */
+  available: number | null;
+  locations: Array<{ name: string; available: number }>;
+};
+
+/**
+ * Sellable stock keyed by numeric variant id. Stock is split by location
+ * when the app has been granted read_inventory, and totalled otherwise.
+ */
+export const getAdminVariantAvailability = async (
+  shop: string,
+  variantIds: string[],
+): Promise<Record<string, VariantAvailability>> => {
+  if (variantIds.length === 0) {
+    return {};
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Stock levels unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const withLocations = (offlineSession.scope || "")
+    .split(",")
+    .map((scope) => scope.trim())
+    .some((scope) => scope === "read_inventory" || scope === "write_inventory");
+  const levelsField = withLocations
+    ? `inventoryLevels(first: 20) {
+        nodes {
+          location {
+            name
+          }
+          quantities(names: ["available"]) {
+            quantity
+          }
+        }
+      }`
+    : "";
+  const gids = Array.from(new Set(variantIds)).map(
+    (variantId) => `gid://shopify/ProductVariant/${variantId}`,
+  );
+  const results: Record<string, VariantAvailability> = {};
+  const endpoint = `https://${shop}/admin/api/2024-10/graphql.json`;
+
+  for (const group of chunk(gids, 50)) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladVariantAvailability($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              ... on ProductVariant {
+                id
+                inventoryQuantity
+                inventoryPolicy
+                inventoryItem {
+                  tracked
+                  ${levelsField}
+                }
+              }
+            }
+          }
+        `,
+        variables: { ids: group },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        "Stock levels unavailable. Reauthorize the app to refresh access.",
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data?: {
+        nodes?: Array<{
+          id: string;
+          inventoryQuantity?: number | null;
+          inventoryPolicy?: string | null;
+          inventoryItem?: {
+            tracked?: boolean;
+            inventoryLevels?: {
+              nodes?: Array<{
+                location?: { name?: string } | null;
+                quantities?: Array<{ quantity?: number }>;
+              }>;
+            };
+          } | null;
+        } | null>;
+      };
+      errors?: Array<{ message?: string }>;
+    };
+
+    if (payload.errors?.length) {
+      throw new Error(
+        payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+      );
+    }
+
+    payload.data?.nodes?.forEach((node) => {
+      if (!node?.id) return;
+      const parts = node.id.split("/");
+      const locations = (node.inventoryItem?.inventoryLevels?.nodes || []).map(
+        (level) => ({
+          name: level.location?.name || "Location",
+          available: Math.max(0, level.quantities?.[0]?.quantity ?? 0),
+        }),
+      );
+      const isLimited =
+        node.inventoryItem?.tracked !== false && node.inventoryPolicy !== "CONTINUE";
+      results[parts[parts.length - 1]] = {
+        available: isLimited
+          ? locations.length
+            ? locations.reduce((sum, location) => sum + location.available, 0)
+            : Math.max(0, node.inventoryQuantity ?? 0)
+          : null,
+        locations: locations.filter((location) => location.available > 0),
+      };
+    });
+  }
+
+  return results;
+};
+
+export type SkuMatch = {
+  variantId: string;
+  sku: string;
+  price: string;
+  displayName: string;
+};
+
+/**
+ * Variants whose SKU matches one of the given SKUs, keyed by lowercased SKU.
+ * A SKU shared by several variants comes back with every match.
+ */
+export const getAdminVariantsBySku = async (
+  shop: string,
+  skus: string[],
+): Promise<Record<string, SkuMatch[]>> => {
+  if (skus.length === 0) {
+    return {};
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Product lookup unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const wanted = new Set(skus.map((sku) => sku.trim().toLowerCase()));
+  const results: Record<string, SkuMatch[]> = {};
+  const endpoint = `https://${shop}/admin/api/2024-10/graphql.json`;
+
+  for (const group of chunk(Array.from(wanted), 50)) {
+    const query = group
+      .map((sku) => `sku:"${sku.replace(/["\\]/g, "\\$&")}"`)
+      .join(" OR ");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladVariantsBySku($query: String!) {
+            productVariants(first: 250, query: $query) {
+              nodes {
+                id
+                sku
+                title
+                price
+                product {
+                  title
+                }
+              }
+            }
+          }
+        `,
+        variables: { query },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        "Product lookup unavailable. Reauthorize the app to refresh access.",
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data?: {
+        productVariants?: {
+          nodes?: Array<{
+            id: string;
+            sku?: string | null;
+            title: string;
+            price: string;
+            product?: { title: string } | null;
+          }>;
+        };
+      };
+      errors?: Array<{ message?: string }>;
+    };
+
+    if (payload.errors?.length) {
+      throw new Error(
+        payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+      );
+    }
+
+    payload.data?.productVariants?.nodes?.forEach((node) => {
+      // The search is fuzzy, so keep exact SKU matches only.
+      const key = String(node.sku || "").trim().toLowerCase();
+      if (!key || !wanted.has(key)) return;
+      const productTitle = node.product?.title || "Product";
+      const parts = node.id.split("/");
+      (results[key] ||= []).push({
+        variantId: parts[parts.length - 1],
+        sku: String(node.sku),
+        price: String(node.price),
+        displayName:
+          node.title && node.title !== "Default Title"
+            ? `${productTitle} — ${node.title}`
+            : productTitle,
+      });
+    });
+  }
+
+  return results;
+};
+
+/**
+ * Ids of the variants of products whose title matches the search text, for
+ * finding the projects that contain them. Capped at the first 50 products.
+ */
+export const searchAdminVariantIdsByProductTitle = async (
+  shop: string,
+  text: string,
+): Promise<string[]> => {
+  const words = text
+    .split(/\s+/)
+    .map((word) => word.replace(/["\\:*()]/g, ""))
+    .filter(Boolean);
+  if (words.length === 0) {
+    return [];
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Product search unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const response = await fetch(
+    `https://${shop}/admin/api/2024-10/graphql.json`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladProductSearch($query: String!) {
+            products(first: 50, query: $query) {
+              nodes {
+                variants(first: 100) {
+                  nodes {
+                    id
+                  }
+                }
+              }
+            }
+          }
+        `,
+        variables: {
+          query: words.map((word) => `title:*${word}*`).join(" AND "),
+        },
+      }),
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      "Product search unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const payload = (await response.json()) as {
+    data?: {
+      products?: {
+        nodes?: Array<{ variants?: { nodes?: Array<{ id: string }> } }>;
+      };
+    };
+    errors?: Array<{ message?: string }>;
+  };
+
+  if (payload.errors?.length) {
+    throw new Error(
+      payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+    );
+  }
+
+  return (payload.data?.products?.nodes || []).flatMap((product) =>
+    (product.variants?.nodes || []).map((variant) => {
+      const parts = variant.id.split("/");
+      return parts[parts.length - 1];
+    }),
+  );
+};
+
+export type VariantOption = {
+  variantId: string;
+  displayName: string;
+  price: string;
+};
+
+type ProductVariantsNode = {
+  id: string;
+  title: string;
+  status?: string;
+  variants?: {
+    nodes?: Array<{ id: string; title: string; price: string }>;
+  };
+};
+
+const toVariantOptions = (product: ProductVariantsNode) =>
+  product.status && product.status !== "ACTIVE"
+    ? []
+    : (product.variants?.nodes || []).map((variant) => {
+        const parts = variant.id.split("/");
+        return {
+          variantId: parts[parts.length - 1],
+          displayName:
+            variant.title && variant.title !== "Default Title"
+              ? `${product.title} — ${variant.title}`
+              : product.title,
+          price: String(variant.price),
+        };
+      });
+
+/**
+ * The variants still for sale on each product, keyed by numeric product id,
+ * for offering a replacement when one of them goes away.
+ */
+export const getAdminProductVariants = async (
+  shop: string,
+  productIds: string[],
+): Promise<Record<string, VariantOption[]>> => {
+  if (productIds.length === 0) {
+    return {};
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Product lookup unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const gids = Array.from(new Set(productIds)).map(
+    (productId) => `gid://shopify/Product/${productId}`,
+  );
+  const results: Record<string, VariantOption[]> = {};
+  const endpoint = `https://${shop}/admin/api/2024-10/graphql.json`;
+
+  for (const group of chunk(gids, 25)) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladProductVariants($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              ... on Product {
+                id
+                title
+                status
+                variants(first: 100) {
+                  nodes {
+                    id
+                    title
+                    price
+                  }
+                }
+              }
+            }
+          }
+        `,
+        variables: { ids: group },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        "Product lookup unavailable. Reauthorize the app to refresh access.",
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data?: { nodes?: Array<ProductVariantsNode | null> };
+      errors?: Array<{ message?: string }>;
+    };
+
+    if (payload.errors?.length) {
+      throw new Error(
+        payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+      );
+    }
+
+    payload.data?.nodes?.forEach((node) => {
+      if (!node?.id) return;
+      const parts = node.id.split("/");
+      results[parts[parts.length - 1]] = toVariantOptions(node);
+    });
+  }
+
+  return results;
+};
+
+/** Variants of active products whose title or SKU matches the search text. */
+export const searchAdminVariants = async (
+  shop: string,
+  text: string,
+): Promise<VariantOption[]> => {
+  const words = text
+    .split(/\s+/)
+    .map((word) => word.replace(/["\\:*()]/g, ""))
+    .filter(Boolean);
+  if (words.length === 0) {
+    return [];
+  }
+
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const offlineSession = sessions.find((session) => !session.isOnline);
+
+  if (!offlineSession?.accessToken) {
+    throw new Error(
+      "Product search unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const response = await fetch(
+    `https://${shop}/admin/api/2024-10/graphql.json`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": offlineSession.accessToken,
+      },
+      body: JSON.stringify({
+        query: `
+          query ProjectCladVariantSearch($query: String!) {
+            products(first: 10, query: $query) {
+              nodes {
+                id
+                title
+                status
+                variants(first: 50) {
+                  nodes {
+                    id
+                    title
+                    price
+                  }
+                }
+              }
+            }
+          }
+        `,
+        variables: {
+          query: `status:active AND ${words
+            .map((word) => `(title:*${word}* OR sku:${word}*)`)
+            .join(" AND ")}`,
+        },
+      }),
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      "Product search unavailable. Reauthorize the app to refresh access.",
+    );
+  }
+
+  const payload = (await response.json()) as {
+    data?: { products?: { nodes?: ProductVariantsNode[] } };
+    errors?: Array<{ message?: string }>;
+  };
+
+  if (payload.errors?.length) {
+    throw new Error(
+      payload.errors.map((error) => error.message).filter(Boolean).join(", "),
+    );
+  }
+
+  return (payload.data?.products?.nodes || []).flatMap(toVariantOptions);
+};
@@ -75,7 +75,7 @@ export const getAppProxyContext = (request: Request): AppProxyContext => {
 export const requireAppProxyCustomer = (
   request: Request,
   options: { jsonOnFail?: boolean } = {},
-) => {
+): AppProxyContext & { customerId: string } => {
   const context = getAppProxyContext(request);
 
   if (!context.customerId) {
@@ -90,5 +90,5 @@ export const requireAppProxyCustomer = (
     throw redirect(loginUrl);
   }
 
-  return context;
+  return { ...context, customerId: context.customerId };
 };
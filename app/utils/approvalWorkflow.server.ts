@@ -0,0 +1,191 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+export const MAX_APPROVAL_STEPS = 5;
+
+/**
+ * One link in an approval chain. The step only applies when the order
+ * subtotal is at least minSubtotal, and needs requiredApprovals distinct
+ * approvers holding the role ("N of M").
+ */
+export type ApprovalStep = {
+  role: string;
+  minSubtotal: number;
+  requiredApprovals: number;
+};
+
+export const parseApprovalWorkflow = (value: unknown): ApprovalStep[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((step) => {
+      const raw = (step || {}) as Record<string, unknown>;
+      return {
+        role: String(raw.role || "").trim(),
+        minSubtotal: Math.max(0, Number(raw.minSubtotal) || 0),
+        requiredApprovals: Math.max(1, Math.floor(Number(raw.requiredApprovals) || 1)),
+      };
+    })
+    .filter((step) => step.role)
+    .slice(0, MAX_APPROVAL_STEPS);
+};
+
+/** Reads the numbered step fields posted by the settings form. */
+export const getApprovalWorkflowFromForm = (formData: FormData) =>
+  parseApprovalWorkflow(
+    Array.from({ length: MAX_APPROVAL_STEPS }, (_, index) => ({
+      role: formData.get(`approvalStep${index + 1}Role`),
+      minSubtotal: formData.get(`approvalStep${index + 1}MinSubtotal`),
+      requiredApprovals: formData.get(`approvalStep${index + 1}Required`),
+    })),
+  );
+
+export const toWorkflowJson = (steps: ApprovalStep[] | null) =>
+  steps === null ? Prisma.DbNull : steps;
+
+export const getShopApprovalWorkflow = async (shop: string) => {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { approvalWorkflow: true },
+  });
+  return parseApprovalWorkflow(settings?.approvalWorkflow);
+};
+
+/** The workflow stored on the project wins; otherwise the shop default. */
+export const getProjectApprovalWorkflow = async (project: {
+  shop: string;
+  approvalWorkflow: Prisma.JsonValue | null;
+}) =>
+  project.approvalWorkflow !== null
+    ? parseApprovalWorkflow(project.approvalWorkflow)
+    : getShopApprovalWorkflow(project.shop);
+
+export const getApplicableSteps = (steps: ApprovalStep[], subtotal: number) =>
+  steps.filter((step) => subtotal >= step.minSubtotal);
+
+/** Subtotal the thresholds are measured against: the job, or the whole project. */
+export const getApprovalSubtotal = async (projectId: string, jobId: string) => {
+  const items = await prisma.jobItem.findMany({
+    where: {
+      deletedAt: null,
+      job: { projectId, deletedAt: null },
+      ...(jobId ? { jobId } : {}),
+    },
+    select: { quantity: true, priceSnapshot: true },
+  });
+  return items.reduce(
+    (sum, item) => sum + Number(item.priceSnapshot || 0) * item.quantity,
+    0,
+  );
+};
+
+export const getStepApproverIds = (
+  approvers: Array<{ customerId: string; role: string }>,
+  step: ApprovalStep | undefined,
+  requesterId?: string | null,
+) =>
+  step
+    ? approvers
+        .filter(
+          (approver) =>
+            approver.role === step.role && approver.customerId !== requesterId,
+        )
+        .map((approver) => approver.customerId)
+    : [];
+
+export type ApprovalOutcome = "rejected" | "changes-requested";
+
+export type ApprovalHistoryAction =
+  | "submitted"
+  | "auto-approved"
+  | "step-approved"
+  | "approved"
+  | "cancelled"
+  | "unlocked"
+  | ApprovalOutcome;
+
+export const APPROVAL_HISTORY_LABELS: Record<ApprovalHistoryAction, string> = {
+  submitted: "Submitted for approval",
+  "auto-approved": "Approved automatically (below threshold)",
+  "step-approved": "Approved step",
+  approved: "Approved",
+  cancelled: "Approval request cancelled",
+  unlocked: "Unlocked after approval",
+  rejected: "Rejected",
+  "changes-requested": "Requested changes",
+};
+
+export const recordApprovalHistory = (entry: {
+  projectId: string;
+  jobId?: string | null;
+  itemId?: string | null;
+  action: ApprovalHistoryAction;
+  role?: string | null;
+  comment?: string | null;
+  customerId?: string | null;
+}) =>
+  prisma.approvalHistoryEntry.create({
+    data: {
+      projectId: entry.projectId,
+      jobId: entry.jobId || "",
+      itemId: entry.itemId || "",
+      action: entry.action,
+      role: entry.role || null,
+      comment: entry.comment || null,
+      customerId: entry.customerId || null,
+    },
+  });
+
+export const getApprovalEnforcement = async (shop: string) => {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { lockJobsOnApproval: true, requireApprovalForCheckout: true },
+  });
+  return {
+    lockJobsOnApproval: Boolean(settings?.lockJobsOnApproval),
+    requireApprovalForCheckout: Boolean(settings?.requireApprovalForCheckout),
+  };
+};
+
+/**
+ * Locks the approved job (or every job, for a project-level approval) when
+ * the shop locks on approval. Returns the ids that were locked.
+ */
+export const lockApprovedJobs = async (
+  shop: string,
+  projectId: string,
+  jobId: string,
+) => {
+  const { lockJobsOnApproval } = await getApprovalEnforcement(shop);
+  if (!lockJobsOnApproval) return [];
+  const jobs = await prisma.job.findMany({
+    where: {
+      projectId,
+      isLocked: false,
+      deletedAt: null,
+      ...(jobId ? { id: jobId } : {}),
+    },
+    select: { id: true },
+  });
+  const jobIds = jobs.map((job) => job.id);
+  if (jobIds.length > 0) {
+    await prisma.job.updateMany({
+      where: { id: { in: jobIds } },
+      data: { isLocked: true },
+    });
+  }
+  return jobIds;
+};
+
+/** True when the job, or the whole project, has a completed approval. */
+export const isJobApproved = async (projectId: string, jobId: string) => {
+  const approved = await prisma.approvalRequest.findFirst({
+    where: {
+      projectId,
+      itemId: "",
+      jobId: { in: [jobId, ""] },
+      approvedAt: { not: null },
+    },
+    select: { id: true },
+  });
+  return Boolean(approved);
+};
@@ -0,0 +1,292 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { sessionStorage } from "../shopify.server";
+
+export type StoredFile = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+/** Either the bytes to send, or a URL to send the browser to. */
+export type OpenedFile = { content: Buffer } | { url: string };
+
+/**
+ * Where attachment bytes live. `save` returns the key kept on the attachment
+ * row; `open` returns null while the file is not available yet.
+ */
+export type AttachmentStorage = {
+  save: (shop: string, file: StoredFile) => Promise<string>;
+  open: (shop: string, key: string) => Promise<OpenedFile | null>;
+  remove: (shop: string, key: string) => Promise<void>;
+};
+
+const adminGraphql = async <T,>(
+  shop: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T> => {
+  const sessions = await sessionStorage.findSessionsByShop(shop);
+  const accessToken = sessions.find((s) => !s.isOnline)?.accessToken;
+
+  if (!accessToken) {
+    throw new Error("App needs to be reauthorized to store files.");
+  }
+
+  const response = await fetch(
+    `https://${shop}/admin/api/2024-10/graphql.json`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables }),
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error("Failed to reach Shopify Files.");
+  }
+
+  const json = (await response.json()) as {
+    data?: T;
+    errors?: Array<{ message?: string }>;
+  };
+
+  if (json.errors?.length || !json.data) {
+    throw new Error(
+      json.errors?.map((e) => e.message).filter(Boolean).join(", ") ||
+        "Shopify Files request failed.",
+    );
+  }
+
+  return json.data;
+};
+
+const throwUserErrors = (userErrors: Array<{ message?: string }> | undefined) => {
+  if (userErrors?.length) {
+    throw new Error(
+      userErrors.map((e) => e.message).filter(Boolean).join(", ") ||
+        "Shopify Files request failed.",
+    );
+  }
+};
+
+/**
+ * Shopify Files, the same library the admin media picker reads. Uploads go
+ * to a staged target first, then become a file; its CDN URL shows up once
+ * Shopify has processed it.
+ */
+const shopifyFilesStorage: AttachmentStorage = {
+  async save(shop, file) {
+    const isImage = file.contentType.startsWith("image/");
+    const staged = await adminGraphql<{
+      stagedUploadsCreate: {
+        stagedTargets?: Array<{
+          url: string;
+          resourceUrl: string;
+          parameters: Array<{ name: string; value: string }>;
+        }>;
+        userErrors?: Array<{ message?: string }>;
+      };
+    }>(
+      shop,
+      `#graphql
+        mutation ProjectCladStageAttachment($input: [StagedUploadInput!]!) {
+          stagedUploadsCreate(input: $input) {
+            stagedTargets {
+              url
+              resourceUrl
+              parameters {
+                name
+                value
+              }
+            }
+            userErrors {
+              message
+            }
+          }
+        }
+      `,
+      {
+        input: [
+          {
+            filename: file.filename,
+            mimeType: file.contentType,
+            fileSize: String(file.content.length),
+            resource: isImage ? "IMAGE" : "FILE",
+            httpMethod: "POST",
+          },
+        ],
+      },
+    );
+    throwUserErrors(staged.stagedUploadsCreate.userErrors);
+    const target = staged.stagedUploadsCreate.stagedTargets?.[0];
+    if (!target) {
+      throw new Error("Shopify did not return an upload target.");
+    }
+
+    const form = new FormData();
+    target.parameters.forEach((parameter) => {
+      form.append(parameter.name, parameter.value);
+    });
+    form.append(
+      "file",
+      new Blob([new Uint8Array(file.content)], { type: file.contentType }),
+      file.filename,
+    );
+    const upload = await fetch(target.url, { method: "POST", body: form });
+    if (!upload.ok) {
+      throw new Error("Upload to Shopify Files failed.");
+    }
+
+    const created = await adminGraphql<{
+      fileCreate: {
+        files?: Array<{ id: string }>;
+        userErrors?: Array<{ message?: string }>;
+      };
+    }>(
+      shop,
+      `#graphql
+        mutation ProjectCladCreateAttachment($files: [FileCreateInput!]!) {
+          fileCreate(files: $files) {
+            files {
+              id
+            }
+            userErrors {
+              message
+            }
+          }
+        }
+      `,
+      {
+        files: [
+          {
+            originalSource: target.resourceUrl,
+            contentType: isImage ? "IMAGE" : "FILE",
+            filename: file.filename,
+          },
+        ],
+      },
+    );
+    throwUserErrors(created.fileCreate.userErrors);
+    const id = created.fileCreate.files?.[0]?.id;
+    if (!id) {
+      throw new Error("Shopify did not create the file.");
+    }
+    return id;
+  },
+
+  async open(shop, key) {
+    const data = await adminGraphql<{
+      node?: {
+        fileStatus?: string;
+        url?: string | null;
+        image?: { url?: string } | null;
+      } | null;
+    }>(
+      shop,
+      `#graphql
+        query ProjectCladAttachmentUrl($id: ID!) {
+          node(id: $id) {
+            ... on GenericFile {
+              fileStatus
+              url
+            }
+            ... on MediaImage {
+              fileStatus
+              image {
+                url
+              }
+            }
+          }
+        }
+      `,
+      { id: key },
+    );
+    const url = data.node?.url || data.node?.image?.url;
+    return data.node?.fileStatus === "READY" && url ? { url } : null;
+  },
+
+  async remove(shop, key) {
+    const data = await adminGraphql<{
+      fileDelete: { userErrors?: Array<{ message?: string }> };
+    }>(
+      shop,
+      `#graphql
+        mutation ProjectCladDeleteAttachment($fileIds: [ID!]!) {
+          fileDelete(fileIds: $fileIds) {
+            userErrors {
+              message
+            }
+          }
+        }
+      `,
+      { fileIds: [key] },
+    );
+    throwUserErrors(data.fileDelete.userErrors);
+  },
+};
+
+const getLocalDirectory = () =>
+  path.resolve(process.env.ATTACHMENT_DIR || "uploads");
+
+// Keys are "<shop>/<uuid>", always made here, never taken from a request.
+const getLocalPath = (key: string) => {
+  const root = getLocalDirectory();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    throw new Error("Invalid attachment key.");
+  }
+  return filePath;
+};
+
+/** Files on the app server's disk, for hosts with a persistent volume. */
+const localFileStorage: AttachmentStorage = {
+  async save(shop, file) {
+    const key = `${shop}/${randomUUID()}`;
+    const filePath = getLocalPath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, file.content);
+    return key;
+  },
+
+  async open(_shop, key) {
+    try {
+      return { content: await readFile(getLocalPath(key)) };
+    } catch {
+      return null;
+    }
+  },
+
+  async remove(_shop, key) {
+    await rm(getLocalPath(key), { force: true });
+  },
+};
+
+const storageBackends: Record<string, AttachmentStorage> = {
+  shopify: shopifyFilesStorage,
+  local: localFileStorage,
+};
+
+/** Adds or replaces a backend, e.g. object storage on another host. */
+export const registerAttachmentStorage = (
+  name: string,
+  backend: AttachmentStorage,
+) => {
+  storageBackends[name] = backend;
+};
+
+/** The backend new uploads go to, from ATTACHMENT_STORAGE. */
+export const getDefaultStorageName = () =>
+  process.env.ATTACHMENT_STORAGE?.trim() || "shopify";
+
+export const getAttachmentStorage = (name: string) => {
+  const backend = storageBackends[name];
+  if (!backend) {
+    throw new Error(`Attachment storage "${name}" is not available.`);
+  }
+  return backend;
+};
@@ -0,0 +1,183 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { notifyProjectActivity } from "./notifications.server";
+
+export type AuditSource = "storefront" | "admin";
+
+export type AuditEventInput = {
+  shop: string;
+  intent: string;
+  source?: AuditSource;
+  projectId?: string | null;
+  jobId?: string | null;
+  actorCustomerId?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEventView = {
+  id: string;
+  intent: string;
+  summary: string;
+  source: string;
+  projectId: string | null;
+  jobId: string | null;
+  actorCustomerId: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+};
+
+const INTENT_LABELS: Record<string, string> = {
+  "create-job": "Created order",
+  "delete-job": "Deleted order",
+  "delete-job-admin": "Deleted order",
+  "move-job": "Moved order to another project",
+  "copy-job": "Copied order",
+  "reorder-jobs": "Reordered orders",
+  "reorder-items": "Reordered items",
+  "save-order-edit": "Edited order",
+  "save-job": "Saved cart to order",
+  "import-items": "Imported items from CSV",
+  "delete-item": "Removed item",
+  "delete-item-admin": "Removed item",
+  "delete-project": "Deleted project",
+  "restore-job": "Restored order from trash",
+  "restore-item": "Restored item from trash",
+  "restore-project": "Restored project from trash",
+  "restore-revision": "Restored order revision",
+  "accept-live-prices": "Accepted new prices",
+  "replace-item": "Replaced unavailable item",
+  "add-comment": "Commented",
+  "edit-comment": "Edited comment",
+  "delete-comment": "Deleted comment",
+  "upload-attachment": "Uploaded file",
+  "delete-attachment": "Deleted file",
+  "place-order": "Placed order",
+  "place-order-admin": "Placed order",
+  "share-project": "Created share link",
+  "revoke-share-link": "Revoked share link",
+  "redeem-share-link": "Joined through share link",
+  "add-member": "Added member",
+  "remove-member": "Removed member",
+  "submit-for-approval": "Submitted for approval",
+  "cancel-approval-request": "Cancelled approval request",
+  approve: "Approved",
+  "reject-approval-request": "Rejected approval request",
+  "request-changes": "Requested changes",
+  "lock-on-approval": "Locked order after approval",
+  "unlock-job": "Unlocked order",
+  "update-project": "Updated project details",
+  "update-project-details": "Updated project details",
+  "set-project-status": "Changed project status",
+  "set-project-status-admin": "Changed project status",
+  "unlock-pricing": "Unlocked pricing",
+  "email-csv": "Emailed project export",
+  "import-project": "Imported project from backup",
+  "duplicate-project": "Duplicated project",
+  "save-as-template": "Saved project as template",
+  "save-template-admin": "Saved project as template",
+  "create-from-template": "Created project from template",
+  "create-from-template-admin": "Created project from template",
+  "delete-template": "Deleted template",
+  "delete-template-admin": "Deleted template",
+  "reset-sessions": "Reset app sessions",
+  "save-theme": "Changed storefront theme",
+  "save-logo": "Uploaded logo",
+  "save-logo-from-media": "Changed logo",
+  "remove-logo": "Removed logo",
+  "save-nav-buttons": "Changed navigation buttons",
+  "save-approval-workflow": "Changed approval workflow",
+  "save-approval-rules": "Changed approval rules",
+  "save-trash-retention": "Changed trash retention",
+  "save-email-template": "Changed email template",
+  "reset-email-template": "Reset email template",
+  "save-project-approvers": "Changed project approvers",
+  "set-pricing-password": "Set pricing password",
+  "clear-pricing-password": "Cleared pricing password",
+};
+
+export const describeAuditIntent = (intent: string) =>
+  INTENT_LABELS[intent] || intent;
+
+/** Compact item snapshot for before/after values. */
+export const toAuditItem = (item: {
+  variantId: string;
+  quantity: number;
+  priceSnapshot: unknown;
+}) => ({
+  variantId: item.variantId,
+  quantity: item.quantity,
+  priceSnapshot: String(item.priceSnapshot),
+});
+
+// Dates and Decimals serialize to strings, which is what we want to keep.
+const toJsonValue = (value: unknown) =>
+  value === undefined || value === null
+    ? Prisma.DbNull
+    : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+
+/**
+ * Writes one audit event and lets project members know about it. Failures
+ * are logged rather than thrown so a change that already succeeded is never
+ * reported back as an error. Notifications are sent in the background so
+ * email delivery never holds up the request.
+ */
+export const recordAuditEvent = async (event: AuditEventInput) => {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        shop: event.shop,
+        intent: event.intent,
+        source: event.source || "storefront",
+        projectId: event.projectId || null,
+        jobId: event.jobId || null,
+        actorCustomerId: event.actorCustomerId || null,
+        before: toJsonValue(event.before),
+        after: toJsonValue(event.after),
+      },
+    });
+  } catch (error) {
+    console.error("Audit event error:", error);
+  }
+  void notifyProjectActivity({
+    shop: event.shop,
+    intent: event.intent,
+    summary: describeAuditIntent(event.intent),
+    projectId: event.projectId,
+    jobId: event.jobId,
+    actorCustomerId: event.actorCustomerId,
+  }).catch((error) => {
+    console.error("Project notification error:", error);
+  });
+};
+
+/** Most recent events first, for the project and admin activity timelines. */
+export const getAuditEvents = async (
+  shop: string,
+  options: { projectId?: string | null; take?: number } = {},
+): Promise<AuditEventView[]> => {
+  const events = await prisma.auditEvent.findMany({
+    where: {
+      shop,
+      ...(options.projectId !== undefined
+        ? { projectId: options.projectId }
+        : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: options.take ?? 50,
+  });
+
+  return events.map((event) => ({
+    id: event.id,
+    intent: event.intent,
+    summary: describeAuditIntent(event.intent),
+    source: event.source,
+    projectId: event.projectId,
+    jobId: event.jobId,
+    actorCustomerId: event.actorCustomerId,
+    before: event.before,
+    after: event.after,
+    createdAt: event.createdAt.toISOString(),
+  }));
+};
@@ -0,0 +1,110 @@
+import prisma from "../db.server";
+
+type BudgetValue = { toString(): string } | number | null | undefined;
+
+export type BudgetLine = {
+  budget: number | null;
+  spent: number;
+  remaining: number | null;
+  isOver: boolean;
+};
+
+export type BudgetSummary = BudgetLine & {
+  needsApproval: boolean;
+  jobs: Record<string, BudgetLine>;
+};
+
+const toLine = (budget: BudgetValue, spent: number): BudgetLine => {
+  const amount = budget === null || budget === undefined ? null : Number(budget);
+  const remaining = amount === null ? null : amount - spent;
+  return {
+    budget: amount,
+    spent,
+    remaining,
+    isOver: remaining !== null && remaining < -0.005,
+  };
+};
+
+const getItemsTotal = (
+  items: Array<{ quantity: number; priceSnapshot: BudgetValue }>,
+) =>
+  items.reduce(
+    (sum, item) => sum + Number(item.priceSnapshot || 0) * item.quantity,
+    0,
+  );
+
+/**
+ * Reads a budget field. Blank clears the budget; anything that is not a
+ * positive amount throws.
+ */
+export const parseBudget = (value: FormDataEntryValue | null) => {
+  const text = String(value ?? "").replace(/[$,\s]/g, "");
+  if (!text) return null;
+  const amount = Number(text);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Budgets must be a positive amount.");
+  }
+  return Math.round(amount * 100) / 100;
+};
+
+/** Compares each job's and the project's item totals with their budgets. */
+export const summarizeBudgets = (project: {
+  budget: BudgetValue;
+  budgetNeedsApproval: boolean;
+  jobs: Array<{
+    id: string;
+    budget: BudgetValue;
+    items: Array<{ quantity: number; priceSnapshot: BudgetValue }>;
+  }>;
+}): BudgetSummary => {
+  const jobs = Object.fromEntries(
+    project.jobs.map((job) => [job.id, toLine(job.budget, getItemsTotal(job.items))]),
+  );
+  const spent = Object.values(jobs).reduce((sum, line) => sum + line.spent, 0);
+  return {
+    ...toLine(project.budget, spent),
+    needsApproval: project.budgetNeedsApproval,
+    jobs,
+  };
+};
+
+export const getBudgetSummary = async (projectId: string) => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      budget: true,
+      budgetNeedsApproval: true,
+      jobs: {
+        where: { deletedAt: null },
+        select: {
+          id: true,
+          budget: true,
+          items: {
+            where: { deletedAt: null },
+            select: { quantity: true, priceSnapshot: true },
+          },
+        },
+      },
+    },
+  });
+  return project ? summarizeBudgets(project) : null;
+};
+
+/** An order is over budget when it, or the project as a whole, is. */
+export const isJobOverBudget = (summary: BudgetSummary, jobId: string) =>
+  summary.isOver || Boolean(summary.jobs[jobId]?.isOver);
+
+/**
+ * True when a change left the project or the job over a budget it was
+ * within before, so the page can say so once rather than on every visit.
+ */
+export const wentOverBudget = (
+  before: BudgetSummary | null,
+  after: BudgetSummary | null,
+  jobId: string,
+) =>
+  Boolean(
+    after &&
+      ((after.isOver && !before?.isOver) ||
+        (after.jobs[jobId]?.isOver && !before?.jobs[jobId]?.isOver)),
+  );
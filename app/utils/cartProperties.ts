@@ -0,0 +1,6 @@
+/**
+ * Hidden (underscore-prefixed) line item properties stamped on cart lines so
+ * the order webhooks can link a paid checkout back to the job it came from.
+ */
+export const JOB_LINE_PROPERTY = "_projectclad_job";
+export const PROJECT_LINE_PROPERTY = "_projectclad_project";
@@ -0,0 +1,334 @@
+import prisma from "../db.server";
+import { getCustomersByIds } from "./adminCustomers.server";
+import { getVariantInfo } from "./variantCache.server";
+import { isEmailConfigured, sendEmail } from "./email.server";
+import { buildTemplatedEmail } from "./emailTemplates.server";
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export type CommentTarget = { jobId: string; itemId: string };
+
+type MemberInfo = Awaited<ReturnType<typeof getCustomersByIds>>[string];
+
+type CommentProject = {
+  id: string;
+  shop: string;
+  name: string;
+  ownerCustomerId: string;
+  members: { customerId: string }[];
+};
+
+const getMemberIds = (project: CommentProject) =>
+  Array.from(
+    new Set([
+      project.ownerCustomerId,
+      ...project.members.map((member) => member.customerId),
+    ]),
+  );
+
+const getName = (info: MemberInfo | undefined) =>
+  (info
+    ? [info.firstName, info.lastName].filter(Boolean).join(" ").trim() || info.email
+    : null) || "A team member";
+
+const normalize = (value: string | null | undefined) =>
+  (value || "").toLowerCase().replace(/\s+/g, "");
+
+/**
+ * Finds the project members named in a comment. "@jordan", "@JordanLee",
+ * "@jordan.lee" and "@jordan@example.com" all match Jordan Lee at
+ * jordan@example.com; a first name only counts when one member has it.
+ */
+export const resolveMentions = (
+  body: string,
+  members: Array<{ customerId: string; info: MemberInfo | undefined }>,
+) => {
+  const tokens = Array.from(
+    body.matchAll(/(?:^|[^\w@.])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g),
+    (match) => match[1].replace(/\.+$/, "").toLowerCase(),
+  );
+  const mentioned = new Set<string>();
+  tokens.forEach((token) => {
+    const matches = members.filter(({ info }) => {
+      if (!info) return false;
+      const email = normalize(info.email);
+      const fullName = normalize(`${info.firstName || ""}${info.lastName || ""}`);
+      const dottedName = normalize(
+        [info.firstName, info.lastName].filter(Boolean).join("."),
+      );
+      return (
+        token === email ||
+        (email && token === email.split("@")[0]) ||
+        (fullName && token === fullName) ||
+        (dottedName && token === dottedName)
+      );
+    });
+    const byFirstName = members.filter(
+      ({ info }) => info?.firstName && normalize(info.firstName) === token,
+    );
+    const found = matches.length > 0 ? matches : byFirstName.length === 1 ? byFirstName : [];
+    found.forEach(({ customerId }) => mentioned.add(customerId));
+  });
+  return Array.from(mentioned);
+};
+
+export const parseMentionIds = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map((id) => String(id)) : [];
+
+/** Checks the job or item is live in the project. */
+const findTarget = async (projectId: string, target: CommentTarget) => {
+  if (target.itemId) {
+    const item = await prisma.jobItem.findFirst({
+      where: {
+        id: target.itemId,
+        deletedAt: null,
+        job: { projectId, deletedAt: null },
+      },
+      include: { job: { select: { id: true, name: true } } },
+    });
+    return item
+      ? { jobId: item.job.id, itemId: item.id, variantId: item.variantId, jobName: item.job.name }
+      : null;
+  }
+  if (target.jobId) {
+    const job = await prisma.job.findFirst({
+      where: { id: target.jobId, projectId, deletedAt: null },
+      select: { id: true, name: true },
+    });
+    return job ? { jobId: job.id, itemId: "", variantId: null, jobName: job.name } : null;
+  }
+  return { jobId: "", itemId: "", variantId: null, jobName: null };
+};
+
+/** Reads the page's target select: "project", "job:<id>" or "item:<id>". */
+export const parseCommentTarget = (value: string): CommentTarget => {
+  const [kind, id] = value.split(":");
+  if (kind === "item" && id) return { jobId: "", itemId: id };
+  if (kind === "job" && id) return { jobId: id, itemId: "" };
+  return { jobId: "", itemId: "" };
+};
+
+export const watchCommentTarget = (
+  projectId: string,
+  target: CommentTarget,
+  customerId: string,
+) =>
+  prisma.projectCommentWatcher.upsert({
+    where: {
+      projectId_jobId_itemId_customerId: { projectId, ...target, customerId },
+    },
+    update: {},
+    create: { projectId, ...target, customerId },
+  });
+
+export const unwatchCommentTarget = (
+  projectId: string,
+  target: CommentTarget,
+  customerId: string,
+) =>
+  prisma.projectCommentWatcher.deleteMany({
+    where: { projectId, ...target, customerId },
+  });
+
+const sendCommentEmails = async (
+  project: CommentProject,
+  comment: { body: string; authorCustomerId: string },
+  targetLabel: string,
+  recipients: { mentioned: string[]; watchers: string[] },
+  customerInfo: Awaited<ReturnType<typeof getCustomersByIds>>,
+) => {
+  if (!isEmailConfigured()) return;
+  const projectLink = `https://${project.shop}/apps/project-clad/project?id=${encodeURIComponent(project.id)}#comments`;
+  const send = async (customerIds: string[], reason: string) => {
+    if (!customerIds.length) return;
+    const email = await buildTemplatedEmail(project.shop, "comment", {
+      projectName: project.name,
+      authorName: getName(customerInfo[comment.authorCustomerId]),
+      targetLabel,
+      comment: comment.body,
+      reason,
+      projectLink,
+    });
+    for (const customerId of customerIds) {
+      const to = customerInfo[customerId]?.email;
+      if (to) await sendEmail({ ...email, to });
+    }
+  };
+  try {
+    await send(recipients.mentioned, "You were mentioned in this comment.");
+    await send(recipients.watchers, `You are watching comments on ${targetLabel}.`);
+  } catch (error) {
+    console.error("Comment email error:", error);
+  }
+};
+
+const describeTarget = async (
+  shop: string,
+  target: { itemId: string; variantId: string | null; jobName: string | null },
+) => {
+  if (!target.itemId || !target.variantId) return target.jobName || "the project";
+  const info = await getVariantInfo(shop, [target.variantId])
+    .then((variants) => variants[target.variantId as string])
+    .catch(() => null);
+  const itemName = info
+    ? info.title && info.title !== "Default Title"
+      ? `${info.productTitle} — ${info.title}`
+      : info.productTitle
+    : "an item";
+  return `${itemName} in ${target.jobName}`;
+};
+
+/**
+ * Adds a comment or a reply and emails the members it mentions and everyone
+ * watching its target. The author starts watching the target. Throws when
+ * the text is empty or too long, or the target is gone.
+ */
+export const addComment = async (
+  project: CommentProject,
+  options: {
+    authorCustomerId: string;
+    body: string;
+    target: CommentTarget;
+    parentId?: string | null;
+  },
+) => {
+  const body = options.body.trim();
+  if (!body) throw new Error("Write a comment first.");
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be up to ${MAX_COMMENT_LENGTH} characters.`);
+  }
+
+  let requested = options.target;
+  let parentId: string | null = null;
+  if (options.parentId) {
+    const parent = await prisma.projectComment.findFirst({
+      where: { id: options.parentId, projectId: project.id },
+    });
+    if (!parent) throw new Error("That comment no longer exists.");
+    // Threads are one level deep; replies to a reply join the same thread.
+    parentId = parent.parentId || parent.id;
+    requested = { jobId: parent.jobId, itemId: parent.itemId };
+  }
+  const target = await findTarget(project.id, requested);
+  if (!target) throw new Error("That order or item is no longer in the project.");
+
+  const memberIds = getMemberIds(project);
+  const customerInfo = await getCustomersByIds(project.shop, memberIds).catch(
+    () => ({}) as Awaited<ReturnType<typeof getCustomersByIds>>,
+  );
+  const mentioned = resolveMentions(
+    body,
+    memberIds.map((customerId) => ({ customerId, info: customerInfo[customerId] })),
+  );
+  const comment = await prisma.projectComment.create({
+    data: {
+      projectId: project.id,
+      jobId: target.jobId,
+      itemId: target.itemId,
+      parentId,
+      authorCustomerId: options.authorCustomerId,
+      body,
+      mentionedCustomerIds: mentioned,
+    },
+  });
+  const watchTarget = { jobId: target.jobId, itemId: target.itemId };
+  await watchCommentTarget(project.id, watchTarget, options.authorCustomerId);
+
+  const watchers = await prisma.projectCommentWatcher.findMany({
+    where: { projectId: project.id, ...watchTarget, customerId: { in: memberIds } },
+  });
+  const notifyMentioned = mentioned.filter((id) => id !== options.authorCustomerId);
+  await sendCommentEmails(
+    project,
+    comment,
+    await describeTarget(project.shop, target),
+    {
+      mentioned: notifyMentioned,
+      watchers: watchers
+        .map((watcher) => watcher.customerId)
+        .filter((id) => id !== options.authorCustomerId && !notifyMentioned.includes(id)),
+    },
+    customerInfo,
+  );
+  return comment;
+};
+
+/**
+ * Changes the text of the author's own comment. Members newly mentioned by
+ * the edit are emailed; everyone else was told the first time.
+ */
+export const editComment = async (
+  project: CommentProject,
+  commentId: string,
+  authorCustomerId: string,
+  text: string,
+) => {
+  const body = text.trim();
+  if (!body) throw new Error("Write a comment first.");
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be up to ${MAX_COMMENT_LENGTH} characters.`);
+  }
+  const existing = await prisma.projectComment.findFirst({
+    where: { id: commentId, projectId: project.id, deletedAt: null },
+  });
+  if (!existing) throw new Error("That comment no longer exists.");
+  if (existing.authorCustomerId !== authorCustomerId) {
+    throw new Error("Only the author can change a comment.");
+  }
+
+  const memberIds = getMemberIds(project);
+  const customerInfo = await getCustomersByIds(project.shop, memberIds).catch(
+    () => ({}) as Awaited<ReturnType<typeof getCustomersByIds>>,
+  );
+  const mentioned = resolveMentions(
+    body,
+    memberIds.map((customerId) => ({ customerId, info: customerInfo[customerId] })),
+  );
+  const updated = await prisma.projectComment.update({
+    where: { id: existing.id },
+    data: {
+      body,
+      editedAt: new Date(),
+      mentionedCustomerIds: mentioned,
+    },
+  });
+
+  const previous = parseMentionIds(existing.mentionedCustomerIds);
+  const target = await findTarget(project.id, existing);
+  await sendCommentEmails(
+    project,
+    updated,
+    target ? await describeTarget(project.shop, target) : "the project",
+    {
+      mentioned: mentioned.filter(
+        (id) => id !== authorCustomerId && !previous.includes(id),
+      ),
+      watchers: [],
+    },
+    customerInfo,
+  );
+  return { before: existing, after: updated };
+};
+
+/**
+ * Removes the author's own comment. A comment with replies stays as a
+ * placeholder so the thread still reads in order.
+ */
+export const deleteComment = async (
+  projectId: string,
+  commentId: string,
+  authorCustomerId: string,
+) => {
+  const existing = await prisma.projectComment.findFirst({
+    where: { id: commentId, projectId, deletedAt: null },
+  });
+  if (!existing) throw new Error("That comment no longer exists.");
+  if (existing.authorCustomerId !== authorCustomerId) {
+    throw new Error("Only the author can delete a comment.");
+  }
+  await prisma.projectComment.update({
+    where: { id: existing.id },
+    data: { deletedAt: new Date() },
+  });
+  return existing;
+};
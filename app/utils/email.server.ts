@@ -32,7 +32,13 @@ export type SendEmailOptions = {
   subject: string;
   text?: string;
   html?: string;
-  attachments?: Array<{ filename: string; content: string | Buffer }>;
+  attachments?: Array<{
+    filename: string;
+    content: string | Buffer;
+    contentType?: string;
+    /** Content id for images referenced from the HTML as cid:… */
+    cid?: string;
+  }>;
 };
 
 export async function sendEmail(options: SendEmailOptions): Promise<void> {
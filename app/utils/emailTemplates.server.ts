@@ -0,0 +1,419 @@
+import prisma from "../db.server";
+import { getCustomersByIds } from "./adminCustomers.server";
+import {
+  isEmailConfigured,
+  sendEmail,
+  type SendEmailOptions,
+} from "./email.server";
+
+export const EMAIL_TEMPLATE_TYPES = [
+  "approval-request",
+  "approval-granted",
+  "approval-returned",
+  "member-added",
+  "export",
+  "activity",
+  "digest",
+  "comment",
+] as const;
+
+export type EmailTemplateType = (typeof EMAIL_TEMPLATE_TYPES)[number];
+
+export type EmailTemplateContent = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+type EmailTemplateDefinition = {
+  label: string;
+  description: string;
+  variables: Record<string, string>;
+  defaults: EmailTemplateContent;
+};
+
+const LOGO_CID = "projectclad-shop-logo";
+
+// Available in every template.
+const COMMON_VARIABLES: Record<string, string> = {
+  shopName: "Your shop's myshopify domain",
+};
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<
+  EmailTemplateType,
+  EmailTemplateDefinition
+> = {
+  "approval-request": {
+    label: "Approval request",
+    description: "Sent to approvers when an order or project is submitted, and at each next approval step.",
+    variables: {
+      projectName: "Project name",
+      contextLabel: "What was submitted, e.g. “Order 1 in Project A”",
+      requesterName: "Who submitted it",
+      stepText: "The current approval step, when the shop uses an approval workflow",
+      approveLink: "Link to review and approve",
+    },
+    defaults: {
+      subject: "Approval request: {{contextLabel}}",
+      html: [
+        "<p>{{requesterName}} has submitted the following for approval: <strong>{{contextLabel}}</strong></p>",
+        "<p>{{stepText}}</p>",
+        '<p><a href="{{approveLink}}">View and approve</a></p>',
+      ].join("\n"),
+      text: "{{requesterName}} has submitted the following for approval: {{contextLabel}}\n\n{{stepText}}\n\nView and approve: {{approveLink}}",
+    },
+  },
+  "approval-granted": {
+    label: "Approval granted",
+    description: "Sent to project members once an order or project is fully approved.",
+    variables: {
+      projectName: "Project name",
+      contextLabel: "What was approved",
+      approverName: "Who gave the final approval",
+      items: "The approved items, one per line",
+      projectLink: "Link to the project",
+    },
+    defaults: {
+      subject: "Order approved: {{contextLabel}}",
+      html: [
+        "<p>{{approverName}} has approved: <strong>{{contextLabel}}</strong></p>",
+        "<p>{{items}}</p>",
+        '<p><a href="{{projectLink}}">View project</a></p>',
+      ].join("\n"),
+      text: "{{approverName}} has approved: {{contextLabel}}\n\n{{items}}\n\nView project: {{projectLink}}",
+    },
+  },
+  "approval-returned": {
+    label: "Approval sent back",
+    description: "Sent to whoever submitted an order or project when an approver rejects it or asks for changes.",
+    variables: {
+      projectName: "Project name",
+      contextLabel: "What was sent back",
+      deciderName: "Who sent it back",
+      outcomeTitle: "“Order rejected” or “Changes requested”",
+      outcomeVerb: "“rejected” or “requested changes to”",
+      comment: "The approver's comment",
+      projectLink: "Link to update the order",
+    },
+    defaults: {
+      subject: "{{outcomeTitle}}: {{contextLabel}}",
+      html: [
+        "<p>{{deciderName}} has {{outcomeVerb}}: <strong>{{contextLabel}}</strong></p>",
+        '<blockquote style="margin:0 0 16px;padding-left:12px;border-left:3px solid #d1d5db;">{{comment}}</blockquote>',
+        '<p><a href="{{projectLink}}">Update the order and submit it again</a></p>',
+      ].join("\n"),
+      text: "{{deciderName}} has {{outcomeVerb}}: {{contextLabel}}\n\nComment:\n{{comment}}\n\nUpdate the order and submit it again: {{projectLink}}",
+    },
+  },
+  "member-added": {
+    label: "Member added",
+    description: "Sent to a customer when they are added to a project.",
+    variables: {
+      projectName: "Project name",
+      inviterName: "Who added them",
+      role: "“view” or “edit”",
+      projectLink: "Link to the project",
+    },
+    defaults: {
+      subject: "You've been added to {{projectName}}",
+      html: [
+        "<p>{{inviterName}} added you to <strong>{{projectName}}</strong> with {{role}} access.</p>",
+        '<p><a href="{{projectLink}}">Open the project</a></p>',
+      ].join("\n"),
+      text: "{{inviterName}} added you to {{projectName}} with {{role}} access.\n\nOpen the project: {{projectLink}}",
+    },
+  },
+  export: {
+    label: "Project export",
+    description: "Sent with the project CSV from the admin.",
+    variables: {
+      projectName: "Project name",
+    },
+    defaults: {
+      subject: "ProjectClad project export: {{projectName}}",
+      html: "<p>The export for <strong>{{projectName}}</strong> is attached as a CSV file.</p>",
+      text: "The export for {{projectName}} is attached as a CSV file.",
+    },
+  },
+  activity: {
+    label: "Project activity",
+    description: "Sent right away to members who chose instant notifications for a kind of change.",
+    variables: {
+      projectName: "Project name",
+      summary: "What changed, e.g. “Removed item”",
+      actorName: "Who made the change",
+      jobName: "The order it happened in, when there is one",
+      projectLink: "Link to the project",
+      preferencesLink: "Link to the member's notification settings",
+    },
+    defaults: {
+      subject: "{{projectName}}: {{summary}}",
+      html: [
+        "<p>{{actorName}} made a change in <strong>{{projectName}}</strong>: {{summary}}</p>",
+        "<p>{{jobName}}</p>",
+        '<p><a href="{{projectLink}}">View project</a></p>',
+        '<p style="font-size:12px;color:#6b7280;"><a href="{{preferencesLink}}">Change what you are notified about</a></p>',
+      ].join("\n"),
+      text: "{{actorName}} made a change in {{projectName}}: {{summary}}\n\n{{jobName}}\n\nView project: {{projectLink}}\n\nChange what you are notified about: {{preferencesLink}}",
+    },
+  },
+  digest: {
+    label: "Daily digest",
+    description: "Sent once a day to members who chose a digest, listing changes across their projects.",
+    variables: {
+      count: "Number of changes listed",
+      entries: "The changes, grouped by project",
+      preferencesLink: "Link to the member's notification settings",
+    },
+    defaults: {
+      subject: "Your project activity: {{count}} updates",
+      html: [
+        "<p>Here is what changed in your projects since your last digest.</p>",
+        "<p>{{entries}}</p>",
+        '<p style="font-size:12px;color:#6b7280;"><a href="{{preferencesLink}}">Change what you are notified about</a></p>',
+      ].join("\n"),
+      text: "Here is what changed in your projects since your last digest.\n\n{{entries}}\n\nChange what you are notified about: {{preferencesLink}}",
+    },
+  },
+  comment: {
+    label: "Comment",
+    description: "Sent to members mentioned in a comment and to everyone watching comments on a project, order or item.",
+    variables: {
+      projectName: "Project name",
+      authorName: "Who wrote the comment",
+      targetLabel: "What the comment is about, e.g. “Level 2 cladding”",
+      comment: "The comment text",
+      reason: "Why the member is getting this email",
+      projectLink: "Link to the project's comments",
+    },
+    defaults: {
+      subject: "{{authorName}} commented on {{targetLabel}}",
+      html: [
+        "<p>{{authorName}} commented on <strong>{{targetLabel}}</strong> in {{projectName}}:</p>",
+        '<blockquote style="margin:0 0 16px;padding-left:12px;border-left:3px solid #d1d5db;">{{comment}}</blockquote>',
+        '<p><a href="{{projectLink}}">Reply in the project</a></p>',
+        '<p style="font-size:12px;color:#6b7280;">{{reason}}</p>',
+      ].join("\n"),
+      text: "{{authorName}} commented on {{targetLabel}} in {{projectName}}:\n\n{{comment}}\n\nReply in the project: {{projectLink}}\n\n{{reason}}",
+    },
+  },
+};
+
+/** Values used for the admin preview. */
+export const EMAIL_TEMPLATE_SAMPLES: Record<string, string> = {
+  projectName: "Riverside Offices",
+  contextLabel: "Level 2 cladding in Riverside Offices",
+  requesterName: "Jordan Lee",
+  stepText: "Approval step 1 of 2: Manager",
+  approveLink: "https://example.myshopify.com/apps/project-clad/project?id=sample&approve=1",
+  approverName: "Sam Patel",
+  deciderName: "Sam Patel",
+  outcomeTitle: "Changes requested",
+  outcomeVerb: "requested changes to",
+  items: "• Panel — Charcoal (×24)\n• Trim kit (×6)",
+  projectLink: "https://example.myshopify.com/apps/project-clad/project?id=sample",
+  inviterName: "Jordan Lee",
+  role: "edit",
+  summary: "Removed item",
+  actorName: "Jordan Lee",
+  jobName: "Level 2 cladding",
+  preferencesLink: "https://example.myshopify.com/apps/project-clad/notifications",
+  count: "3",
+  authorName: "Sam Patel",
+  targetLabel: "Panel — Charcoal in Level 2 cladding",
+  comment: "@Jordan can we swap these for the 3m lengths?",
+  reason: "You were mentioned in this comment.",
+  entries:
+    "Riverside Offices\n• Mar 27, 9:14 AM — Jordan Lee: Removed item • Level 2 cladding\n• Mar 27, 11:02 AM — Sam Patel: Added member",
+};
+
+export const isEmailTemplateType = (value: unknown): value is EmailTemplateType =>
+  EMAIL_TEMPLATE_TYPES.includes(value as EmailTemplateType);
+
+export const getTemplateVariables = (type: EmailTemplateType) => ({
+  ...COMMON_VARIABLES,
+  ...EMAIL_TEMPLATE_DEFINITIONS[type].variables,
+});
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// {{ name }} placeholders; unknown names render as nothing.
+const fillPlaceholders = (
+  template: string,
+  variables: Record<string, string>,
+  encode: (value: string) => string,
+) =>
+  template.replace(/\{\{\s*([a-zA-Z]+)\s*\}\}/g, (_, name: string) =>
+    encode(variables[name] ?? ""),
+  );
+
+const wrapHtml = (body: string, logoSrc: string | null, shopName: string) =>
+  [
+    "<!doctype html>",
+    '<html><body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#1f2937;line-height:1.5;">',
+    '<div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">',
+    logoSrc
+      ? `<img src="${logoSrc}" alt="${escapeHtml(shopName)}" style="display:block;max-height:60px;max-width:200px;margin-bottom:16px;" />`
+      : "",
+    body,
+    "</div>",
+    "</body></html>",
+  ].join("\n");
+
+/**
+ * Fills a template. HTML values are escaped and keep their line breaks; the
+ * logo is referenced by content id, or inlined for previews.
+ */
+export const renderEmailTemplate = (
+  template: EmailTemplateContent,
+  variables: Record<string, string>,
+  options: { logoSrc?: string | null } = {},
+): EmailTemplateContent => ({
+  subject: fillPlaceholders(template.subject, variables, (value) => value)
+    .replace(/\s+/g, " ")
+    .trim(),
+  html: wrapHtml(
+    fillPlaceholders(template.html, variables, (value) =>
+      escapeHtml(value).replace(/\n/g, "<br />"),
+    ).replace(/<p>\s*<\/p>\n?/g, ""),
+    options.logoSrc ?? null,
+    variables.shopName || "",
+  ),
+  text: fillPlaceholders(template.text, variables, (value) => value)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim(),
+});
+
+export const getEmailTemplates = async (shop: string) => {
+  const saved = await prisma.emailTemplate.findMany({ where: { shop } });
+  return EMAIL_TEMPLATE_TYPES.map((type) => {
+    const custom = saved.find((template) => template.type === type);
+    const definition = EMAIL_TEMPLATE_DEFINITIONS[type];
+    return {
+      type,
+      label: definition.label,
+      description: definition.description,
+      variables: getTemplateVariables(type),
+      subject: custom?.subject ?? definition.defaults.subject,
+      html: custom?.html ?? definition.defaults.html,
+      text: custom?.text ?? definition.defaults.text,
+      isCustom: Boolean(custom),
+    };
+  });
+};
+
+export const saveEmailTemplate = (
+  shop: string,
+  type: EmailTemplateType,
+  content: EmailTemplateContent,
+) =>
+  prisma.emailTemplate.upsert({
+    where: { shop_type: { shop, type } },
+    update: content,
+    create: { shop, type, ...content },
+  });
+
+/** Goes back to the built-in template. */
+export const resetEmailTemplate = (shop: string, type: EmailTemplateType) =>
+  prisma.emailTemplate.deleteMany({ where: { shop, type } });
+
+const readLogo = (logoDataUrl: string | null | undefined) => {
+  const match = logoDataUrl?.match(/^data:([^;,]+);base64,(.*)$/);
+  return match
+    ? { contentType: match[1], content: Buffer.from(match[2], "base64") }
+    : null;
+};
+
+/**
+ * Renders the shop's template for an email, ready to spread into sendEmail
+ * with a recipient. The shop logo travels as an inline attachment since most
+ * mail clients block data URLs.
+ */
+export const buildTemplatedEmail = async (
+  shop: string,
+  type: EmailTemplateType,
+  variables: Record<string, string>,
+): Promise<Omit<SendEmailOptions, "to">> => {
+  const [custom, settings] = await Promise.all([
+    prisma.emailTemplate.findUnique({ where: { shop_type: { shop, type } } }),
+    prisma.shopSettings.findUnique({
+      where: { shop },
+      select: { logoDataUrl: true },
+    }),
+  ]);
+  const logo = readLogo(settings?.logoDataUrl);
+  const rendered = renderEmailTemplate(
+    custom ?? EMAIL_TEMPLATE_DEFINITIONS[type].defaults,
+    { shopName: shop, ...variables },
+    { logoSrc: logo ? `cid:${LOGO_CID}` : null },
+  );
+  return {
+    ...rendered,
+    attachments: logo
+      ? [
+          {
+            filename: `logo.${logo.contentType.split("/")[1] || "png"}`,
+            content: logo.content,
+            contentType: logo.contentType,
+            cid: LOGO_CID,
+          },
+        ]
+      : [],
+  };
+};
+
+/** Renders a draft with sample values for the admin preview. */
+export const previewEmailTemplate = async (
+  shop: string,
+  content: EmailTemplateContent,
+) => {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { logoDataUrl: true },
+  });
+  return renderEmailTemplate(
+    content,
+    { shopName: shop, ...EMAIL_TEMPLATE_SAMPLES },
+    { logoSrc: settings?.logoDataUrl || null },
+  );
+};
+
+/**
+ * Lets a customer know they were added to a project. Failures are logged
+ * rather than thrown; the member has been added either way.
+ */
+export const sendMemberAddedEmail = async (
+  shop: string,
+  options: {
+    projectId: string;
+    projectName: string;
+    email: string;
+    role: string;
+    inviterCustomerId: string;
+  },
+) => {
+  if (!isEmailConfigured()) return;
+  try {
+    const customerInfo = await getCustomersByIds(shop, [
+      options.inviterCustomerId,
+    ]).catch(() => ({}) as Awaited<ReturnType<typeof getCustomersByIds>>);
+    const inviter = customerInfo[options.inviterCustomerId];
+    const email = await buildTemplatedEmail(shop, "member-added", {
+      projectName: options.projectName,
+      inviterName:
+        [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ").trim() ||
+        "A team member",
+      role: options.role,
+      projectLink: `https://${shop}/apps/project-clad/project?id=${encodeURIComponent(options.projectId)}`,
+    });
+    await sendEmail({ ...email, to: options.email });
+  } catch (error) {
+    console.error("Member added email error:", error);
+  }
+};
@@ -1,6 +1,6 @@
 import prisma from "../db.server";
 import { getCustomersByIds } from "./adminCustomers.server";
-import { getAdminVariantInfo } from "./adminVariants.server";
+import { getVariantInfo } from "./variantCache.server";
 
 const escapeCell = (value: string) => {
   const safe = value.replace(/"/g, '""');
@@ -14,8 +14,14 @@ export async function getCsvForProjectIds(
   if (projectIds.length === 0) return "";
 
   const projects = await prisma.project.findMany({
-    where: { shop, id: { in: projectIds } },
-    include: { members: true, jobs: { include: { items: true } } },
+    where: { shop, id: { in: projectIds }, deletedAt: null },
+    include: {
+      members: true,
+      jobs: {
+        where: { deletedAt: null },
+        include: { items: { where: { deletedAt: null } } },
+      },
+    },
     orderBy: { createdAt: "desc" },
   });
 
@@ -30,7 +36,7 @@ export async function getCsvForProjectIds(
   const variantIds = projects.flatMap((project) =>
     project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
   );
-  const variantInfo = await getAdminVariantInfo(shop, variantIds).catch(
+  const variantInfo = await getVariantInfo(shop, variantIds).catch(
     () => ({}),
   );
 
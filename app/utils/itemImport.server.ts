@@ -0,0 +1,254 @@
+import {
+  getAdminVariantPrices,
+  getAdminVariantsBySku,
+} from "./adminVariants.server";
+import { getVariantInfo } from "./variantCache.server";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+type ImportRow = {
+  line: number;
+  identifier: string;
+  // "either" is a headerless first column: tried as a SKU, then as a variant id.
+  kind: "sku" | "variant" | "either";
+  quantity: number;
+};
+
+export type ItemImportMatch = {
+  line: number;
+  identifier: string;
+  variantId: string;
+  displayName: string;
+  quantity: number;
+  price: string;
+};
+
+export type ItemImportError = {
+  line: number;
+  message: string;
+};
+
+const SKU_HEADERS = ["sku"];
+const VARIANT_HEADERS = ["variant_id", "variant id", "variantid", "variant"];
+const QUANTITY_HEADERS = ["quantity", "qty"];
+
+// Splits one CSV line, honouring quoted cells and doubled quotes.
+const parseCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const toVariantId = (value: string) => {
+  const match = value.match(/^(?:gid:\/\/shopify\/ProductVariant\/)?(\d+)$/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Reads "SKU or variant ID, quantity" rows. A header row naming sku,
+ * variant_id and quantity columns is optional.
+ */
+export const parseItemCsv = (text: string) => {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const rows: ImportRow[] = [];
+  const errors: ItemImportError[] = [];
+
+  const header = parseCsvLine(lines[0] || "").map((cell) => cell.toLowerCase());
+  const findColumn = (names: string[]) =>
+    header.findIndex((cell) => names.includes(cell));
+  const skuColumn = findColumn(SKU_HEADERS);
+  const variantColumn = findColumn(VARIANT_HEADERS);
+  const quantityColumn = findColumn(QUANTITY_HEADERS);
+  const hasHeader =
+    (skuColumn >= 0 || variantColumn >= 0) && quantityColumn >= 0;
+
+  lines.forEach((raw, index) => {
+    if (hasHeader && index === 0) return;
+    if (!raw.trim()) return;
+    const line = index + 1;
+    const cells = parseCsvLine(raw);
+
+    let identifier = "";
+    let kind: ImportRow["kind"] = "either";
+    let quantityCell = "";
+    if (hasHeader) {
+      const variantCell = variantColumn >= 0 ? cells[variantColumn] || "" : "";
+      const skuCell = skuColumn >= 0 ? cells[skuColumn] || "" : "";
+      identifier = variantCell || skuCell;
+      kind = variantCell ? "variant" : "sku";
+      quantityCell = cells[quantityColumn] || "";
+    } else {
+      identifier = cells[0] || "";
+      kind = identifier.startsWith("gid://") ? "variant" : "either";
+      quantityCell = cells[1] || "";
+    }
+
+    if (!identifier) {
+      errors.push({ line, message: "SKU or variant ID is missing." });
+      return;
+    }
+    if (kind === "variant" && !toVariantId(identifier)) {
+      errors.push({ line, message: `"${identifier}" is not a variant ID.` });
+      return;
+    }
+    const quantity = Number(quantityCell);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      errors.push({
+        line,
+        message: "Quantity must be a whole number greater than 0.",
+      });
+      return;
+    }
+    rows.push({ line, identifier, kind, quantity });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      rows: [],
+      errors: [
+        {
+          line: 0,
+          message: `Import up to ${MAX_IMPORT_ROWS} rows at a time.`,
+        },
+      ],
+    };
+  }
+
+  return { rows, errors };
+};
+
+/**
+ * Parses the CSV and resolves every row to a variant with its current price.
+ * Throws when the admin lookups fail; unmatched rows come back as errors.
+ */
+export const resolveItemImport = async (shop: string, text: string) => {
+  const { rows, errors } = parseItemCsv(text);
+
+  const skuRows = rows.filter((row) => row.kind !== "variant");
+  const skuMatches = await getAdminVariantsBySku(
+    shop,
+    skuRows.map((row) => row.identifier),
+  );
+
+  const resolved: Array<{ row: ImportRow; variantId: string; match?: ItemImportMatch }> = [];
+  rows.forEach((row) => {
+    if (row.kind === "variant") {
+      resolved.push({ row, variantId: toVariantId(row.identifier) || "" });
+      return;
+    }
+    const matches = skuMatches[row.identifier.toLowerCase()] || [];
+    if (matches.length > 1) {
+      errors.push({
+        line: row.line,
+        message: `SKU "${row.identifier}" matches ${matches.length} variants. Use the variant ID instead.`,
+      });
+      return;
+    }
+    if (matches.length === 1) {
+      const [match] = matches;
+      resolved.push({
+        row,
+        variantId: match.variantId,
+        match: {
+          line: row.line,
+          identifier: row.identifier,
+          variantId: match.variantId,
+          displayName: match.displayName,
+          quantity: row.quantity,
+          price: match.price,
+        },
+      });
+      return;
+    }
+    const variantId = row.kind === "either" ? toVariantId(row.identifier) : null;
+    if (variantId) {
+      resolved.push({ row, variantId });
+      return;
+    }
+    errors.push({
+      line: row.line,
+      message: `SKU "${row.identifier}" was not found.`,
+    });
+  });
+
+  const variantIds = resolved
+    .filter((entry) => !entry.match)
+    .map((entry) => entry.variantId);
+  const [prices, info] = await Promise.all([
+    getAdminVariantPrices(shop, variantIds),
+    getVariantInfo(shop, variantIds),
+  ]);
+
+  const matches: ItemImportMatch[] = [];
+  resolved.forEach(({ row, variantId, match }) => {
+    if (match) {
+      matches.push(match);
+      return;
+    }
+    const price = prices[variantId];
+    if (price === undefined) {
+      errors.push({
+        line: row.line,
+        message:
+          row.kind === "either"
+            ? `"${row.identifier}" is not a known SKU or variant ID.`
+            : `Variant ${row.identifier} was not found.`,
+      });
+      return;
+    }
+    const variant = info[variantId];
+    matches.push({
+      line: row.line,
+      identifier: row.identifier,
+      variantId,
+      displayName: variant
+        ? variant.title && variant.title !== "Default Title"
+          ? `${variant.productTitle} — ${variant.title}`
+          : variant.productTitle
+        : `Variant ${variantId}`,
+      quantity: row.quantity,
+      price,
+    });
+  });
+
+  return {
+    matches: matches.sort((a, b) => a.line - b.line),
+    errors: errors.sort((a, b) => a.line - b.line),
+  };
+};
+
+/** One entry per variant, so repeated rows add up instead of duplicating. */
+export const mergeImportMatches = (matches: ItemImportMatch[]) => {
+  const merged = new Map<string, { variantId: string; quantity: number; priceSnapshot: string }>();
+  matches.forEach((match) => {
+    const existing = merged.get(match.variantId);
+    merged.set(match.variantId, {
+      variantId: match.variantId,
+      quantity: (existing?.quantity || 0) + match.quantity,
+      priceSnapshot: match.price,
+    });
+  });
+  return Array.from(merged.values());
+};
@@ -0,0 +1,86 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+export type QuantityMode = "add" | "replace";
+
+export type JobItemInput = {
+  variantId: string;
+  quantity: number;
+  priceSnapshot: Prisma.Decimal | string;
+};
+
+export const getNextSortOrder = async (jobId: string) => {
+  const result = await prisma.jobItem.aggregate({
+    where: { jobId },
+    _max: { sortOrder: true },
+  });
+  return (result._max.sortOrder ?? 0) + 1;
+};
+
+/**
+ * Writes items into a job. "replace" swaps out every item in the job;
+ * "add" raises the quantity of variants already there and appends the rest.
+ * A trashed item for a variant being added is dropped, since a job holds
+ * each variant once.
+ */
+export const applyJobItems = async (
+  jobId: string,
+  items: JobItemInput[],
+  quantityMode: QuantityMode,
+) => {
+  if (quantityMode === "replace") {
+    await prisma.$transaction([
+      prisma.jobItem.deleteMany({
+        where: {
+          jobId,
+          OR: [
+            { deletedAt: null },
+            { variantId: { in: items.map((item) => item.variantId) } },
+          ],
+        },
+      }),
+      prisma.jobItem.createMany({
+        data: items.map((item, index) => ({
+          jobId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          priceSnapshot: item.priceSnapshot,
+          sortOrder: index + 1,
+        })),
+      }),
+    ]);
+    return;
+  }
+
+  let nextSortOrder = await getNextSortOrder(jobId);
+  for (const item of items) {
+    const existing = await prisma.jobItem.findFirst({
+      where: { jobId, variantId: item.variantId },
+    });
+
+    if (existing?.deletedAt) {
+      await prisma.jobItem.delete({ where: { id: existing.id } });
+    }
+
+    if (existing && !existing.deletedAt) {
+      await prisma.jobItem.update({
+        where: { id: existing.id },
+        data: {
+          quantity: existing.quantity + item.quantity,
+          priceSnapshot: item.priceSnapshot,
+        },
+      });
+    } else {
+      await prisma.jobItem.create({
+        data: {
+          jobId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          priceSnapshot: item.priceSnapshot,
+          sortOrder: nextSortOrder,
+        },
+      });
+      nextSortOrder += 1;
+    }
+  }
+};
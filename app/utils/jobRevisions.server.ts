@@ -0,0 +1,194 @@
+import prisma from "../db.server";
+import { describeAuditIntent } from "./auditLog.server";
+import { applyJobItems } from "./jobItems.server";
+
+export type RevisionItem = {
+  variantId: string;
+  quantity: number;
+  priceSnapshot: string;
+};
+
+export type RevisionDiff = {
+  added: RevisionItem[];
+  removed: RevisionItem[];
+  changed: Array<{
+    variantId: string;
+    fromQuantity: number;
+    toQuantity: number;
+    fromPrice: string;
+    toPrice: string;
+  }>;
+  fromSubtotal: number;
+  toSubtotal: number;
+};
+
+/** 1 → A, 26 → Z, 27 → AA. */
+export const getRevisionLabel = (number: number) => {
+  let label = "";
+  for (let rest = number; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    label = String.fromCharCode(65 + ((rest - 1) % 26)) + label;
+  }
+  return `Rev ${label}`;
+};
+
+export const describeRevisionReason = (reason: string) =>
+  reason === "original" ? "Before tracked changes" : describeAuditIntent(reason);
+
+export const parseRevisionItems = (value: unknown): RevisionItem[] =>
+  Array.isArray(value)
+    ? value.map((item) => {
+        const raw = (item || {}) as Record<string, unknown>;
+        return {
+          variantId: String(raw.variantId || ""),
+          quantity: Number(raw.quantity) || 0,
+          priceSnapshot: String(raw.priceSnapshot ?? "0"),
+        };
+      })
+    : [];
+
+export const getRevisionSubtotal = (items: RevisionItem[]) =>
+  items.reduce((sum, item) => sum + Number(item.priceSnapshot) * item.quantity, 0);
+
+const getLiveItems = async (jobId: string): Promise<RevisionItem[]> => {
+  const items = await prisma.jobItem.findMany({
+    where: { jobId, deletedAt: null },
+    orderBy: { sortOrder: "asc" },
+  });
+  return items.map((item) => ({
+    variantId: item.variantId,
+    quantity: item.quantity,
+    priceSnapshot: item.priceSnapshot.toString(),
+  }));
+};
+
+const createRevision = async (
+  jobId: string,
+  items: RevisionItem[],
+  options: { reason: string; note?: string | null; customerId?: string | null },
+) => {
+  const latest = await prisma.jobRevision.findFirst({
+    where: { jobId },
+    orderBy: { number: "desc" },
+    select: { number: true },
+  });
+  return prisma.jobRevision.create({
+    data: {
+      jobId,
+      number: (latest?.number ?? 0) + 1,
+      reason: options.reason,
+      note: options.note || null,
+      items,
+      createdByCustomerId: options.customerId || null,
+    },
+  });
+};
+
+/**
+ * Keeps the job's current items as Rev A when it has no revisions yet, so the
+ * first tracked change can be compared with what came before. Call it before
+ * changing the items.
+ */
+export const ensureBaseRevision = async (jobId: string) => {
+  const count = await prisma.jobRevision.count({ where: { jobId } });
+  if (count > 0) return;
+  await createRevision(jobId, await getLiveItems(jobId), { reason: "original" });
+};
+
+/**
+ * Snapshots the job's items after a change. Saves that left the items as they
+ * were are skipped; a submit for approval is always kept.
+ */
+export const recordJobRevision = async (
+  jobId: string,
+  options: { reason: string; note?: string | null; customerId?: string | null },
+) => {
+  const items = await getLiveItems(jobId);
+  if (options.reason !== "submit-for-approval") {
+    const latest = await prisma.jobRevision.findFirst({
+      where: { jobId },
+      orderBy: { number: "desc" },
+    });
+    if (
+      latest &&
+      JSON.stringify(parseRevisionItems(latest.items)) === JSON.stringify(items)
+    ) {
+      return null;
+    }
+  }
+  return createRevision(jobId, items, options);
+};
+
+/** Marks what went out for approval: the job, or every live job in the project. */
+export const recordSubmissionRevisions = async (
+  projectId: string,
+  jobId: string,
+  customerId: string,
+) => {
+  const jobIds = jobId
+    ? [jobId]
+    : (
+        await prisma.job.findMany({
+          where: { projectId, deletedAt: null },
+          select: { id: true },
+        })
+      ).map((job) => job.id);
+  for (const id of jobIds) {
+    await recordJobRevision(id, { reason: "submit-for-approval", customerId });
+  }
+};
+
+export const diffRevisionItems = (
+  from: RevisionItem[],
+  to: RevisionItem[],
+): RevisionDiff => {
+  const fromByVariant = new Map(from.map((item) => [item.variantId, item]));
+  const toByVariant = new Map(to.map((item) => [item.variantId, item]));
+  const changed: RevisionDiff["changed"] = [];
+  to.forEach((item) => {
+    const previous = fromByVariant.get(item.variantId);
+    if (
+      previous &&
+      (previous.quantity !== item.quantity ||
+        Number(previous.priceSnapshot) !== Number(item.priceSnapshot))
+    ) {
+      changed.push({
+        variantId: item.variantId,
+        fromQuantity: previous.quantity,
+        toQuantity: item.quantity,
+        fromPrice: previous.priceSnapshot,
+        toPrice: item.priceSnapshot,
+      });
+    }
+  });
+  return {
+    added: to.filter((item) => !fromByVariant.has(item.variantId)),
+    removed: from.filter((item) => !toByVariant.has(item.variantId)),
+    changed,
+    fromSubtotal: getRevisionSubtotal(from),
+    toSubtotal: getRevisionSubtotal(to),
+  };
+};
+
+/**
+ * Puts the job's items back the way they were in a revision, prices included,
+ * and records that as a new revision. Returns null when the revision is not
+ * on this job.
+ */
+export const restoreJobRevision = async (
+  jobId: string,
+  revisionId: string,
+  customerId: string | null,
+) => {
+  const revision = await prisma.jobRevision.findFirst({
+    where: { id: revisionId, jobId },
+  });
+  if (!revision) return null;
+  await ensureBaseRevision(jobId);
+  await applyJobItems(jobId, parseRevisionItems(revision.items), "replace");
+  await recordJobRevision(jobId, {
+    reason: "restore-revision",
+    note: `Restored ${getRevisionLabel(revision.number)}`,
+    customerId,
+  });
+  return revision;
+};
@@ -0,0 +1,304 @@
+import prisma from "../db.server";
+import { getCustomersByIds } from "./adminCustomers.server";
+import { isEmailConfigured, sendEmail } from "./email.server";
+import { buildTemplatedEmail } from "./emailTemplates.server";
+
+export const NOTIFICATION_CATEGORIES = [
+  "orders",
+  "items",
+  "approvals",
+  "members",
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export type NotificationDelivery = "instant" | "digest";
+
+export type NotificationPreferenceView = Record<NotificationCategory, boolean> & {
+  delivery: NotificationDelivery;
+};
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  orders: "Orders added, moved or deleted",
+  items: "Item and quantity changes",
+  approvals: "Approval requests and decisions",
+  members: "Members joining or leaving",
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCE: NotificationPreferenceView = {
+  orders: true,
+  items: false,
+  approvals: true,
+  members: false,
+  delivery: "instant",
+};
+
+export const NOTIFICATIONS_PATH = "/apps/project-clad/notifications";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INTENT_CATEGORIES: Record<string, NotificationCategory> = {
+  "create-job": "orders",
+  "copy-job": "orders",
+  "move-job": "orders",
+  "delete-job": "orders",
+  "delete-job-admin": "orders",
+  "restore-job": "orders",
+  "save-job": "orders",
+  "save-order-edit": "items",
+  "delete-item": "items",
+  "delete-item-admin": "items",
+  "restore-item": "items",
+  "import-items": "items",
+  "accept-live-prices": "items",
+  "replace-item": "items",
+  "restore-revision": "items",
+  "submit-for-approval": "approvals",
+  approve: "approvals",
+  "reject-approval-request": "approvals",
+  "request-changes": "approvals",
+  "cancel-approval-request": "approvals",
+  "unlock-job": "approvals",
+  "add-member": "members",
+  "remove-member": "members",
+  "redeem-share-link": "members",
+};
+
+// These send their own email, so instant recipients don't get a second one.
+const DEDICATED_EMAIL_INTENTS = new Set([
+  "submit-for-approval",
+  "approve",
+  "reject-approval-request",
+  "request-changes",
+]);
+
+const toPreferenceView = (
+  preference?: {
+    orders: boolean;
+    items: boolean;
+    approvals: boolean;
+    members: boolean;
+    delivery: string;
+  } | null,
+): NotificationPreferenceView =>
+  preference
+    ? {
+        orders: preference.orders,
+        items: preference.items,
+        approvals: preference.approvals,
+        members: preference.members,
+        delivery: preference.delivery === "digest" ? "digest" : "instant",
+      }
+    : DEFAULT_NOTIFICATION_PREFERENCE;
+
+const getCustomerName = (
+  customer: { firstName: string | null; lastName: string | null; email: string | null } | undefined,
+) =>
+  (customer
+    ? [customer.firstName, customer.lastName].filter(Boolean).join(" ").trim() ||
+      customer.email
+    : null) || "A team member";
+
+/** The customer's choices for each project, with defaults filled in. */
+export const getNotificationPreferences = async (
+  customerId: string,
+  projectIds: string[],
+) => {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { customerId, projectId: { in: projectIds } },
+  });
+  return Object.fromEntries(
+    projectIds.map((projectId) => [
+      projectId,
+      toPreferenceView(saved.find((preference) => preference.projectId === projectId)),
+    ]),
+  ) as Record<string, NotificationPreferenceView>;
+};
+
+export const saveNotificationPreference = (
+  projectId: string,
+  customerId: string,
+  preference: NotificationPreferenceView,
+) =>
+  prisma.notificationPreference.upsert({
+    where: { projectId_customerId: { projectId, customerId } },
+    update: preference,
+    create: { projectId, customerId, ...preference },
+  });
+
+/**
+ * Splits recipients by how they want to hear about a category. Members who
+ * turned the category off are in neither list.
+ */
+export const getRecipientsByDelivery = async (
+  projectId: string,
+  customerIds: string[],
+  category: NotificationCategory,
+) => {
+  const uniqueIds = Array.from(new Set(customerIds));
+  const saved = await prisma.notificationPreference.findMany({
+    where: { projectId, customerId: { in: uniqueIds } },
+  });
+  const instant: string[] = [];
+  const digest: string[] = [];
+  uniqueIds.forEach((id) => {
+    const preference = toPreferenceView(
+      saved.find((entry) => entry.customerId === id),
+    );
+    if (!preference[category]) return;
+    (preference.delivery === "digest" ? digest : instant).push(id);
+  });
+  return { instant, digest };
+};
+
+/**
+ * Emails project members about a change, or saves it for their digest, as
+ * each of them chose. Runs after the audit event is written; failures are
+ * logged so they never undo or report back on the change itself.
+ */
+export const notifyProjectActivity = async (event: {
+  shop: string;
+  intent: string;
+  summary: string;
+  projectId?: string | null;
+  jobId?: string | null;
+  actorCustomerId?: string | null;
+}) => {
+  const category = INTENT_CATEGORIES[event.intent];
+  if (!category || !event.projectId) return;
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: event.projectId, shop: event.shop, deletedAt: null },
+      include: { members: true },
+    });
+    if (!project) return;
+    const { instant, digest } = await getRecipientsByDelivery(
+      project.id,
+      [project.ownerCustomerId, ...project.members.map((member) => member.customerId)].filter(
+        (id) => id !== event.actorCustomerId,
+      ),
+      category,
+    );
+    if (!instant.length && !digest.length) return;
+
+    const customerInfo = await getCustomersByIds(
+      event.shop,
+      [...instant, ...(event.actorCustomerId ? [event.actorCustomerId] : [])],
+    ).catch(() => ({}) as Awaited<ReturnType<typeof getCustomersByIds>>);
+    const actorName = event.actorCustomerId
+      ? getCustomerName(customerInfo[event.actorCustomerId])
+      : "Shop staff";
+    const job = event.jobId
+      ? await prisma.job.findUnique({
+          where: { id: event.jobId },
+          select: { name: true },
+        })
+      : null;
+    const summary = `${actorName}: ${event.summary}${job ? ` • ${job.name}` : ""}`;
+
+    if (digest.length) {
+      await prisma.notificationDigestEntry.createMany({
+        data: digest.map((customerId) => ({
+          projectId: project.id,
+          customerId,
+          category,
+          summary,
+        })),
+      });
+    }
+    if (!instant.length || DEDICATED_EMAIL_INTENTS.has(event.intent) || !isEmailConfigured()) {
+      return;
+    }
+    const email = await buildTemplatedEmail(event.shop, "activity", {
+      projectName: project.name,
+      summary: event.summary,
+      actorName,
+      jobName: job?.name || "",
+      projectLink: `https://${event.shop}/apps/project-clad/project?id=${encodeURIComponent(project.id)}`,
+      preferencesLink: `https://${event.shop}${NOTIFICATIONS_PATH}`,
+    });
+    for (const customerId of instant) {
+      const to = customerInfo[customerId]?.email;
+      if (to) await sendEmail({ ...email, to });
+    }
+  } catch (error) {
+    console.error("Project notification error:", error);
+  }
+};
+
+/**
+ * Sends each member one email with everything saved for their digest, once
+ * the oldest entry is a day old. Entries are claimed (deleted) before the
+ * email goes out, so overlapping runs never send the same digest twice.
+ * Runs in the background from page loaders, so failures are logged rather
+ * than thrown.
+ */
+export const sendDueDigests = async (shop: string) => {
+  if (!isEmailConfigured()) return;
+  try {
+    const pending = await prisma.notificationDigestEntry.groupBy({
+      by: ["customerId"],
+      where: { project: { shop } },
+      _min: { createdAt: true },
+    });
+    const cutoff = Date.now() - DAY_MS;
+    const dueIds = pending
+      .filter((entry) => entry._min.createdAt && entry._min.createdAt.getTime() <= cutoff)
+      .map((entry) => entry.customerId);
+    if (!dueIds.length) return;
+
+    const customerInfo = await getCustomersByIds(shop, dueIds);
+    for (const customerId of dueIds) {
+      // Entries for customers without an email address are dropped too.
+      const entries = await prisma
+        .$transaction(async (tx) => {
+          const claimed = await tx.notificationDigestEntry.findMany({
+            where: { customerId, project: { shop } },
+            include: { project: { select: { name: true } } },
+            orderBy: { createdAt: "asc" },
+          });
+          const { count } = await tx.notificationDigestEntry.deleteMany({
+            where: { id: { in: claimed.map((entry) => entry.id) } },
+          });
+          if (count !== claimed.length) {
+            throw new Error("Digest entries were claimed by another run.");
+          }
+          return claimed;
+        })
+        .catch(() => []);
+      const to = customerInfo[customerId]?.email;
+      if (!to || !entries.length) continue;
+
+      const byProject = new Map<string, typeof entries>();
+      entries.forEach((entry) => {
+        byProject.set(entry.project.name, [
+          ...(byProject.get(entry.project.name) ?? []),
+          entry,
+        ]);
+      });
+      const lines = Array.from(byProject.entries()).map(
+        ([projectName, projectEntries]) =>
+          [
+            projectName,
+            ...projectEntries.map(
+              (entry) =>
+                `• ${entry.createdAt.toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })} — ${entry.summary}`,
+            ),
+          ].join("\n"),
+      );
+      const email = await buildTemplatedEmail(shop, "digest", {
+        count: String(entries.length),
+        entries: lines.join("\n\n"),
+        preferencesLink: `https://${shop}${NOTIFICATIONS_PATH}`,
+      });
+      await sendEmail({ ...email, to });
+    }
+  } catch (error) {
+    console.error("Digest email error:", error);
+  }
+};
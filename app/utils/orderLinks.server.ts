@@ -0,0 +1,73 @@
+import prisma from "../db.server";
+import { JOB_LINE_PROPERTY } from "./cartProperties";
+
+type OrderAttribute = { name?: string; value?: unknown };
+
+export type OrderWebhookPayload = {
+  id?: number | string;
+  name?: string;
+  financial_status?: string | null;
+  line_items?: Array<{ properties?: OrderAttribute[] | null }> | null;
+};
+
+// Only line properties count: cart attributes outlive the checkout they were
+// set for and would tie later orders to the same job.
+const getAttributedJobIds = (order: OrderWebhookPayload) => {
+  const jobIds = (order.line_items || [])
+    .flatMap((line) => line.properties || [])
+    .filter((attribute) => attribute.name === JOB_LINE_PROPERTY)
+    .map((attribute) => String(attribute.value ?? "").trim())
+    .filter(Boolean);
+  return Array.from(new Set(jobIds));
+};
+
+/**
+ * Links every job referenced by the order's cart lines once the order is
+ * paid; returns the job ids. Unpaid orders are linked by orders/paid later.
+ */
+export const linkOrderToJobs = async (
+  shop: string,
+  order: OrderWebhookPayload,
+): Promise<string[]> => {
+  const orderId = order.id ? String(order.id) : "";
+  const jobIds = getAttributedJobIds(order);
+  if (!orderId || jobIds.length === 0 || order.financial_status !== "paid") {
+    return [];
+  }
+
+  const jobs = await prisma.job.findMany({
+    where: {
+      id: { in: jobIds },
+      deletedAt: null,
+      project: { shop, deletedAt: null },
+    },
+    select: { id: true },
+  });
+
+  for (const job of jobs) {
+    // Webhooks can be delivered more than once; keep the first link.
+    await prisma.jobOrderLink.upsert({
+      where: { jobId: job.id },
+      update: {},
+      create: { jobId: job.id, orderId, orderName: order.name || null },
+    });
+  }
+
+  return jobs.map((job) => job.id);
+};
+
+/** Removes the links for a cancelled order so its jobs become editable again. */
+export const unlinkOrder = async (
+  shop: string,
+  order: OrderWebhookPayload,
+): Promise<number> => {
+  const orderId = order.id ? String(order.id) : "";
+  if (!orderId) {
+    return 0;
+  }
+
+  const result = await prisma.jobOrderLink.deleteMany({
+    where: { orderId, job: { project: { shop } } },
+  });
+  return result.count;
+};
@@ -0,0 +1,426 @@
+import { deflateSync, inflateSync } from "node:zlib";
+
+// US Letter, in points.
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfImage = { name: string; width: number; height: number };
+
+type ImageObject = {
+  dict: string;
+  data: Buffer;
+  smask?: { dict: string; data: Buffer };
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Characters outside Latin-1 that the standard fonts can still draw.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if (code === 0x09) return " ";
+      return code >= 0x20 && code <= 0xff && !(code >= 0x7f && code < 0xa0)
+        ? char
+        : "?";
+    })
+    .join("");
+
+const escapeText = (text: string) =>
+  toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const NARROW = new Set(" .,:;'!|iljtfI()[]-/".split(""));
+const WIDE = new Set("mwMW@%".split(""));
+
+/**
+ * Approximate Helvetica width in points. Close enough for truncating and
+ * right-aligning; bold runs a little wider.
+ */
+export const measureText = (text: string, size: number, font: PdfFont = "regular") => {
+  const units = Array.from(text).reduce((sum, char) => {
+    if (/[0-9]/.test(char)) return sum + 556;
+    if (NARROW.has(char)) return sum + 278;
+    if (WIDE.has(char)) return sum + 889;
+    if (/[A-Z]/.test(char)) return sum + 667;
+    return sum + 530;
+  }, 0);
+  return (units * size * (font === "bold" ? 1.05 : 1)) / 1000;
+};
+
+/** Splits text into at most maxLines lines; the last one is cut with an ellipsis. */
+export const wrapText = (
+  text: string,
+  size: number,
+  maxWidth: number,
+  maxLines = 2,
+  font: PdfFont = "regular",
+) => {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (measureText(next, size, font) <= maxWidth || !current) {
+      current = next;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  if (lines.length <= maxLines) {
+    return lines.map((line) => truncateText(line, size, maxWidth, font));
+  }
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncateText(
+    `${kept[maxLines - 1]} ${lines.slice(maxLines).join(" ")}`,
+    size,
+    maxWidth,
+    font,
+  );
+  return kept;
+};
+
+export const truncateText = (
+  text: string,
+  size: number,
+  maxWidth: number,
+  font: PdfFont = "regular",
+) => {
+  if (measureText(text, size, font) <= maxWidth) return text;
+  let cut = text;
+  while (cut && measureText(`${cut}…`, size, font) > maxWidth) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut.trimEnd()}…`;
+};
+
+const readJpeg = (data: Buffer): ImageObject | null => {
+  let offset = 2;
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    const isFrame =
+      marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+    if (isFrame) {
+      const height = data.readUInt16BE(offset + 5);
+      const width = data.readUInt16BE(offset + 7);
+      const components = data[offset + 9];
+      const colorSpace =
+        components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+      // Adobe writes CMYK JPEGs inverted.
+      const decode = components === 4 ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+      return {
+        dict: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`,
+        data,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const unfilterPng = (data: Buffer, width: number, height: number, bpp: number) => {
+  const stride = width * bpp;
+  const out = Buffer.alloc(stride * height);
+  let pos = 0;
+  for (let y = 0; y < height; y += 1) {
+    const filter = data[pos];
+    pos += 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x += 1) {
+      const raw = data[pos];
+      pos += 1;
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[row - stride + x - bpp] : 0;
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const toLeft = Math.abs(estimate - left);
+        const toUp = Math.abs(estimate - up);
+        const toUpLeft = Math.abs(estimate - upLeft);
+        value =
+          raw +
+          (toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft);
+      }
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+/** 8-bit, non-interlaced PNGs only; anything else is skipped. */
+const readPng = (data: Buffer): ImageObject | null => {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || bitDepth !== 8 || interlace !== 0) return null;
+  const compressed = Buffer.concat(idat);
+  const base = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8`;
+
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    const colors = colorType === 2 ? 3 : 1;
+    const colorSpace =
+      colorType === 0
+        ? "/DeviceGray"
+        : colorType === 2
+          ? "/DeviceRGB"
+          : palette
+            ? `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString("hex")}>]`
+            : null;
+    if (!colorSpace) return null;
+    return {
+      dict: `${base} /ColorSpace ${colorSpace} /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${width} >>`,
+      data: compressed,
+    };
+  }
+
+  if (colorType === 4 || colorType === 6) {
+    const channels = colorType === 6 ? 4 : 2;
+    const pixels = unfilterPng(inflateSync(compressed), width, height, channels);
+    const colorChannels = channels - 1;
+    const color = Buffer.alloc(width * height * colorChannels);
+    const alpha = Buffer.alloc(width * height);
+    for (let index = 0; index < width * height; index += 1) {
+      pixels.copy(
+        color,
+        index * colorChannels,
+        index * channels,
+        index * channels + colorChannels,
+      );
+      alpha[index] = pixels[index * channels + colorChannels];
+    }
+    return {
+      dict: `${base} /ColorSpace ${colorType === 6 ? "/DeviceRGB" : "/DeviceGray"} /Filter /FlateDecode`,
+      data: deflateSync(color),
+      smask: {
+        dict: `${base} /ColorSpace /DeviceGray /Filter /FlateDecode`,
+        data: deflateSync(alpha),
+      },
+    };
+  }
+  return null;
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const readImage = (data: Buffer) => {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) return readJpeg(data);
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return readPng(data);
+  } catch (error) {
+    console.error("PDF image error:", error);
+  }
+  return null;
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * A small PDF writer with the two standard Helvetica faces, lines, filled
+ * rectangles and JPEG/PNG images. Positions are in points from the top-left
+ * corner of the page; text is placed by its baseline.
+ */
+export const createPdf = () => {
+  const pages: string[][] = [];
+  const images: ImageObject[] = [];
+
+  const flip = (y: number) => formatNumber(PAGE_HEIGHT - y);
+
+  return {
+    addPage() {
+      pages.push([]);
+      return pages.length - 1;
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    text(
+      page: number,
+      x: number,
+      y: number,
+      value: string,
+      options: { size?: number; font?: PdfFont; gray?: number; align?: "left" | "right" } = {},
+    ) {
+      const size = options.size ?? 10;
+      const font = options.font ?? "regular";
+      const left =
+        options.align === "right" ? x - measureText(value, size, font) : x;
+      pages[page].push(
+        `BT /${FONT_NAMES[font]} ${size} Tf ${formatNumber(options.gray ?? 0)} g ${formatNumber(left)} ${flip(y)} Td (${escapeText(value)}) Tj ET`,
+      );
+    },
+
+    line(
+      page: number,
+      x1: number,
+      y1: number,
+      x2: number,
+      y2: number,
+      options: { width?: number; gray?: number } = {},
+    ) {
+      pages[page].push(
+        `${formatNumber(options.width ?? 0.5)} w ${formatNumber(options.gray ?? 0.8)} G ${formatNumber(x1)} ${flip(y1)} m ${formatNumber(x2)} ${flip(y2)} l S`,
+      );
+    },
+
+    rect(
+      page: number,
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      options: { gray?: number } = {},
+    ) {
+      pages[page].push(
+        `${formatNumber(options.gray ?? 0.95)} g ${formatNumber(x)} ${flip(y + height)} ${formatNumber(width)} ${formatNumber(height)} re f`,
+      );
+    },
+
+    /** Returns null for formats the writer cannot embed. */
+    addImage(data: Buffer): PdfImage | null {
+      const image = readImage(data);
+      if (!image) return null;
+      images.push(image);
+      const size = image.dict.match(/\/Width (\d+) \/Height (\d+)/);
+      return {
+        name: `Im${images.length}`,
+        width: Number(size?.[1] || 0),
+        height: Number(size?.[2] || 0),
+      };
+    },
+
+    image(page: number, image: PdfImage, x: number, y: number, width: number, height: number) {
+      pages[page].push(
+        `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${flip(y + height)} cm /${image.name} Do Q`,
+      );
+    },
+
+    toBuffer() {
+      const chunks: Buffer[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const write = (chunk: string | Buffer) => {
+        const buffer = typeof chunk === "string" ? Buffer.from(chunk, "latin1") : chunk;
+        chunks.push(buffer);
+        length += buffer.length;
+      };
+      const writeObject = (id: number, dict: string, stream?: Buffer) => {
+        offsets[id] = length;
+        if (stream) {
+          write(`${id} 0 obj\n<< ${dict} /Length ${stream.length} >>\nstream\n`);
+          write(stream);
+          write("\nendstream\nendobj\n");
+        } else {
+          write(`${id} 0 obj\n${dict}\nendobj\n`);
+        }
+      };
+
+      // 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs.
+      const imageIds: number[] = [];
+      let nextId = 5;
+      images.forEach((image) => {
+        imageIds.push(nextId);
+        nextId += image.smask ? 2 : 1;
+      });
+      const pageIds = pages.map((_, index) => nextId + index * 2);
+      const xObjects = images
+        .map((_, index) => `/Im${index + 1} ${imageIds[index]} 0 R`)
+        .join(" ");
+
+      write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+      writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+      writeObject(
+        2,
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+      );
+      writeObject(
+        3,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      );
+      writeObject(
+        4,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      );
+      images.forEach((image, index) => {
+        const id = imageIds[index];
+        if (image.smask) {
+          writeObject(id, `${image.dict} /SMask ${id + 1} 0 R`, image.data);
+          writeObject(id + 1, image.smask.dict, image.smask.data);
+        } else {
+          writeObject(id, image.dict, image.data);
+        }
+      });
+      pages.forEach((operations, index) => {
+        const pageId = pageIds[index];
+        writeObject(
+          pageId,
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageId + 1} 0 R >>`,
+        );
+        writeObject(
+          pageId + 1,
+          "/Filter /FlateDecode",
+          deflateSync(Buffer.from(operations.join("\n"), "latin1")),
+        );
+      });
+
+      const objectCount = pageIds.length ? pageIds[pageIds.length - 1] + 2 : nextId;
+      const xrefOffset = length;
+      write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+      for (let id = 1; id < objectCount; id += 1) {
+        write(`${String(offsets[id] ?? 0).padStart(10, "0")} 00000 n \n`);
+      }
+      write(
+        `trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+      );
+      return Buffer.concat(chunks);
+    },
+  };
+};
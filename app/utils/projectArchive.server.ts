@@ -0,0 +1,439 @@
+import crypto from "node:crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+export const PROJECT_EXPORT_FORMAT = "projectclad-project";
+export const PROJECT_EXPORT_VERSION = 1;
+
+type ProjectRole = "view" | "edit";
+
+/**
+ * Versioned snapshot of one project. Jobs and items keep their original ids
+ * only so approval history can point at them; import assigns new ids.
+ */
+export type ProjectExport = {
+  format: typeof PROJECT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  shop: string;
+  project: {
+    name: string;
+    ownerCustomerId: string;
+    poNumber: string | null;
+    companyName: string | null;
+    approvalWorkflow: Prisma.JsonValue | null;
+    createdAt: string;
+  };
+  jobs: Array<{
+    id: string;
+    name: string;
+    sortOrder: number;
+    isLocked: boolean;
+    /** Set when the job had been ordered; older exports leave it out. */
+    orderName?: string | null;
+    createdAt: string;
+    items: Array<{
+      id?: string;
+      variantId: string;
+      quantity: number;
+      priceSnapshot: string;
+      sortOrder: number;
+    }>;
+  }>;
+  members: Array<{ customerId: string; role: ProjectRole }>;
+  approvers: Array<{ customerId: string; role: string }>;
+  shareTokens: Array<{
+    token: string;
+    role: ProjectRole;
+    createdAt: string;
+    createdByCustomerId: string | null;
+    expiresAt: string | null;
+    maxUses: number | null;
+    useCount: number;
+    revokedAt: string | null;
+  }>;
+  approvalHistory: Array<{
+    jobId: string;
+    itemId: string;
+    action: string;
+    role: string | null;
+    comment: string | null;
+    customerId: string | null;
+    createdAt: string;
+  }>;
+};
+
+export const getProjectExport = async (
+  shop: string,
+  projectId: string,
+): Promise<ProjectExport | null> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, shop, deletedAt: null },
+    include: {
+      jobs: {
+        where: { deletedAt: null },
+        orderBy: { sortOrder: "asc" },
+        include: {
+          items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+          orderLink: true,
+        },
+      },
+      members: true,
+      approvers: true,
+      shareTokens: { orderBy: { createdAt: "asc" } },
+      approvalHistory: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  if (!project) return null;
+
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version: PROJECT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    shop,
+    project: {
+      name: project.name,
+      ownerCustomerId: project.ownerCustomerId,
+      poNumber: project.poNumber,
+      companyName: project.companyName,
+      approvalWorkflow: project.approvalWorkflow,
+      createdAt: project.createdAt.toISOString(),
+    },
+    jobs: project.jobs.map((job) => ({
+      id: job.id,
+      name: job.name,
+      sortOrder: job.sortOrder,
+      isLocked: job.isLocked,
+      orderName: job.orderLink ? job.orderLink.orderName || job.orderLink.orderId : null,
+      createdAt: job.createdAt.toISOString(),
+      items: job.items.map((item) => ({
+        id: item.id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        priceSnapshot: item.priceSnapshot.toString(),
+        sortOrder: item.sortOrder,
+      })),
+    })),
+    members: project.members.map((member) => ({
+      customerId: member.customerId,
+      role: member.role,
+    })),
+    approvers: project.approvers.map((approver) => ({
+      customerId: approver.customerId,
+      role: approver.role,
+    })),
+    shareTokens: project.shareTokens.map((shareToken) => ({
+      token: shareToken.token,
+      role: shareToken.role,
+      createdAt: shareToken.createdAt.toISOString(),
+      createdByCustomerId: shareToken.createdByCustomerId,
+      expiresAt: shareToken.expiresAt?.toISOString() ?? null,
+      maxUses: shareToken.maxUses,
+      useCount: shareToken.useCount,
+      revokedAt: shareToken.revokedAt?.toISOString() ?? null,
+    })),
+    approvalHistory: project.approvalHistory.map((entry) => ({
+      jobId: entry.jobId,
+      itemId: entry.itemId,
+      action: entry.action,
+      role: entry.role,
+      comment: entry.comment,
+      customerId: entry.customerId,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+  };
+};
+
+const PROJECT_ROLES: ProjectRole[] = ["view", "edit"];
+
+const isDateText = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isOptionalText = (value: unknown) =>
+  value === null || value === undefined || typeof value === "string";
+
+const isOptionalDate = (value: unknown) =>
+  value === null || value === undefined || isDateText(value);
+
+const isCustomerId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "";
+
+// Missing lists are empty; anything other than a list is refused.
+const readList = <T>(value: T[] | undefined, label: string): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`The export's ${label} are not a list.`);
+  }
+  return value;
+};
+
+/** Parses and checks an uploaded export; throws with a message for the form. */
+export const parseProjectExport = (text: string): ProjectExport => {
+  let data: Partial<ProjectExport>;
+  try {
+    data = JSON.parse(text) as Partial<ProjectExport>;
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (data?.format !== PROJECT_EXPORT_FORMAT) {
+    throw new Error("The file is not a ProjectClad project export.");
+  }
+  if (
+    typeof data.version !== "number" ||
+    data.version > PROJECT_EXPORT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported export version ${String(data.version)}. Update the app and try again.`,
+    );
+  }
+  if (!data.project?.name || !Array.isArray(data.jobs)) {
+    throw new Error("The export is missing its project or orders.");
+  }
+  if (
+    typeof data.project.name !== "string" ||
+    !isOptionalText(data.project.ownerCustomerId) ||
+    !isOptionalText(data.project.poNumber) ||
+    !isOptionalText(data.project.companyName)
+  ) {
+    throw new Error("The export's project details are invalid.");
+  }
+  if (!isOptionalDate(data.project.createdAt)) {
+    throw new Error("The export's project has an invalid creation date.");
+  }
+  data.jobs.forEach((job, jobIndex) => {
+    const jobLabel = `Order ${jobIndex + 1}`;
+    if (!job || typeof job.name !== "string" || !job.name.trim()) {
+      throw new Error(`${jobLabel} in the export has no name.`);
+    }
+    if (!isOptionalDate(job.createdAt)) {
+      throw new Error(`${jobLabel} (${job.name}) has an invalid creation date.`);
+    }
+    if (job.items !== undefined && !Array.isArray(job.items)) {
+      throw new Error(`${jobLabel} (${job.name}) has an invalid item list.`);
+    }
+    const variantIds = new Set<string>();
+    (job.items || []).forEach((item, itemIndex) => {
+      const itemLabel = `Item ${itemIndex + 1} of ${job.name}`;
+      if (!item || !String(item.variantId ?? "").trim()) {
+        throw new Error(`${itemLabel} has no product variant.`);
+      }
+      if (variantIds.has(String(item.variantId))) {
+        throw new Error(`${itemLabel} repeats a product already in that order.`);
+      }
+      variantIds.add(String(item.variantId));
+      if (!Number.isInteger(Number(item.quantity)) || Number(item.quantity) < 0) {
+        throw new Error(`${itemLabel} has an invalid quantity.`);
+      }
+      if (!Number.isFinite(Number(item.priceSnapshot ?? 0))) {
+        throw new Error(`${itemLabel} has an invalid price.`);
+      }
+    });
+  });
+
+  const members = readList(data.members, "members");
+  members.forEach((member, index) => {
+    if (!member || !isCustomerId(member.customerId)) {
+      throw new Error(`Member ${index + 1} in the export has no customer.`);
+    }
+    if (!PROJECT_ROLES.includes(member.role)) {
+      throw new Error(`Member ${index + 1} in the export has an invalid role.`);
+    }
+  });
+  const approvers = readList(data.approvers, "approvers");
+  approvers.forEach((approver, index) => {
+    if (!approver || !isCustomerId(approver.customerId)) {
+      throw new Error(`Approver ${index + 1} in the export has no customer.`);
+    }
+    if (typeof approver.role !== "string" || !approver.role.trim()) {
+      throw new Error(`Approver ${index + 1} in the export has no approval role.`);
+    }
+  });
+  const shareTokens = readList(data.shareTokens, "share links");
+  shareTokens.forEach((shareToken, index) => {
+    const label = `Share link ${index + 1} in the export`;
+    if (!shareToken || typeof shareToken.token !== "string" || !shareToken.token.trim()) {
+      throw new Error(`${label} has no token.`);
+    }
+    if (!PROJECT_ROLES.includes(shareToken.role)) {
+      throw new Error(`${label} has an invalid role.`);
+    }
+    if (!isOptionalText(shareToken.createdByCustomerId)) {
+      throw new Error(`${label} has an invalid creator.`);
+    }
+    if (
+      !isOptionalDate(shareToken.createdAt) ||
+      !isOptionalDate(shareToken.expiresAt) ||
+      !isOptionalDate(shareToken.revokedAt)
+    ) {
+      throw new Error(`${label} has an invalid date.`);
+    }
+    if (
+      (shareToken.maxUses !== null &&
+        shareToken.maxUses !== undefined &&
+        (!Number.isInteger(shareToken.maxUses) || shareToken.maxUses < 1)) ||
+      (shareToken.useCount !== undefined &&
+        (!Number.isInteger(shareToken.useCount) || shareToken.useCount < 0))
+    ) {
+      throw new Error(`${label} has an invalid use limit or count.`);
+    }
+  });
+  const approvalHistory = readList(data.approvalHistory, "approval history entries");
+  approvalHistory.forEach((entry, index) => {
+    const label = `Approval history entry ${index + 1} in the export`;
+    if (!entry || typeof entry.action !== "string" || !entry.action.trim()) {
+      throw new Error(`${label} has no action.`);
+    }
+    if (
+      !isOptionalText(entry.jobId) ||
+      !isOptionalText(entry.itemId) ||
+      !isOptionalText(entry.role) ||
+      !isOptionalText(entry.comment) ||
+      !isOptionalText(entry.customerId)
+    ) {
+      throw new Error(`${label} has invalid details.`);
+    }
+    if (!isOptionalDate(entry.createdAt)) {
+      throw new Error(`${label} has an invalid date.`);
+    }
+  });
+
+  return {
+    ...data,
+    members,
+    approvers,
+    shareTokens,
+    approvalHistory,
+  } as ProjectExport;
+};
+
+const toDate = (value: string | null | undefined) =>
+  value ? new Date(value) : null;
+
+/**
+ * Recreates an exported project in `shop`. Customer ids only mean something
+ * in the shop they came from, so a cross-shop import keeps no members,
+ * approvers or share links and needs an owner. Approval requests and placed
+ * orders are not carried over; locked and ordered jobs come back locked.
+ */
+export const importProjectExport = async (
+  shop: string,
+  data: ProjectExport,
+  options: { ownerCustomerId?: string | null } = {},
+) => {
+  const sameShop = data.shop === shop;
+  const ownerCustomerId =
+    options.ownerCustomerId || (sameShop ? data.project.ownerCustomerId : "");
+  if (!ownerCustomerId) {
+    throw new Error("Choose an owner for a project from another shop.");
+  }
+  const keepCustomer = (customerId: string | null | undefined) =>
+    sameShop ? customerId || null : null;
+
+  return prisma.$transaction(async (tx) => {
+    const project = await tx.project.create({
+      data: {
+        shop,
+        name: data.project.name,
+        ownerCustomerId,
+        poNumber: data.project.poNumber,
+        companyName: data.project.companyName,
+        approvalWorkflow:
+          data.project.approvalWorkflow === null ||
+          data.project.approvalWorkflow === undefined
+            ? Prisma.DbNull
+            : (data.project.approvalWorkflow as Prisma.InputJsonValue),
+        members: {
+          create: [
+            { customerId: ownerCustomerId, role: "edit" as const },
+            ...(sameShop ? data.members : [])
+              .filter((member) => member.customerId !== ownerCustomerId)
+              .map((member) => ({
+                customerId: member.customerId,
+                role: member.role === "edit" ? ("edit" as const) : ("view" as const),
+              })),
+          ],
+        },
+        approvers: {
+          create: (sameShop ? data.approvers : []).map((approver) => ({
+            customerId: approver.customerId,
+            role: approver.role,
+          })),
+        },
+      },
+    });
+
+    const jobIds = new Map<string, string>();
+    const itemIds = new Map<string, string>();
+    for (const job of data.jobs) {
+      const created = await tx.job.create({
+        data: {
+          projectId: project.id,
+          name: job.name,
+          sortOrder: Number(job.sortOrder) || 0,
+          // The order itself is not imported, but what it bought stays fixed.
+          isLocked: Boolean(job.isLocked || job.orderName),
+          createdAt: toDate(job.createdAt) ?? undefined,
+          items: {
+            create: (job.items || []).map((item) => ({
+              variantId: String(item.variantId),
+              quantity: Number(item.quantity),
+              priceSnapshot: new Prisma.Decimal(item.priceSnapshot ?? 0),
+              sortOrder: Number(item.sortOrder) || 0,
+            })),
+          },
+        },
+        include: { items: { select: { id: true, variantId: true } } },
+      });
+      jobIds.set(job.id, created.id);
+      // A variant appears once per job, so it ties old item ids to new ones.
+      (job.items || []).forEach((item) => {
+        const match = created.items.find(
+          (createdItem) => createdItem.variantId === String(item.variantId),
+        );
+        if (item.id && match) itemIds.set(item.id, match.id);
+      });
+    }
+
+    if (sameShop && data.shareTokens.length > 0) {
+      // A restored link keeps its token unless that token is still in use.
+      const taken = await tx.projectShareToken.findMany({
+        where: { token: { in: data.shareTokens.map((shareToken) => shareToken.token) } },
+        select: { token: true },
+      });
+      const takenTokens = new Set(taken.map((shareToken) => shareToken.token));
+      await tx.projectShareToken.createMany({
+        data: data.shareTokens.map((shareToken) => ({
+          projectId: project.id,
+          token: takenTokens.has(shareToken.token)
+            ? crypto.randomBytes(16).toString("hex")
+            : shareToken.token,
+          role: shareToken.role === "edit" ? ("edit" as const) : ("view" as const),
+          createdAt: toDate(shareToken.createdAt) ?? undefined,
+          createdByCustomerId: shareToken.createdByCustomerId,
+          expiresAt: toDate(shareToken.expiresAt),
+          maxUses: shareToken.maxUses,
+          useCount: shareToken.useCount,
+          revokedAt: toDate(shareToken.revokedAt),
+        })),
+      });
+    }
+
+    if (data.approvalHistory.length > 0) {
+      await tx.approvalHistoryEntry.createMany({
+        data: data.approvalHistory.map((entry) => ({
+          projectId: project.id,
+          jobId: entry.jobId ? jobIds.get(entry.jobId) || "" : "",
+          itemId: entry.itemId ? itemIds.get(entry.itemId) || "" : "",
+          action: entry.action,
+          role: entry.role,
+          comment: entry.comment,
+          customerId: keepCustomer(entry.customerId),
+          createdAt: toDate(entry.createdAt) ?? undefined,
+        })),
+      });
+    }
+
+    return project;
+  });
+};
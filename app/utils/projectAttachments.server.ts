@@ -0,0 +1,170 @@
+import prisma from "../db.server";
+import {
+  getAttachmentStorage,
+  getDefaultStorageName,
+} from "./attachmentStorage.server";
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Drawings, specs and photos; anything else is turned away at upload.
+const ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  dwg: "application/acad",
+  dxf: "application/dxf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv",
+  txt: "text/plain",
+  zip: "application/zip",
+};
+
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+export type AttachmentPreview = "image" | "pdf" | null;
+
+/** Browsers show these inline; the rest are downloads only. */
+export const getAttachmentPreview = (contentType: string): AttachmentPreview => {
+  if (contentType === "application/pdf") return "pdf";
+  if (contentType.startsWith("image/") && contentType !== "image/heic") {
+    return "image";
+  }
+  return null;
+};
+
+const getExtension = (filename: string) =>
+  filename.includes(".") ? filename.split(".").pop()?.toLowerCase() || "" : "";
+
+// Keeps the name readable in a Content-Disposition header.
+const cleanFilename = (filename: string) =>
+  filename.replace(/[\\/\r\n"]+/g, "-").trim().slice(0, 200) || "attachment";
+
+export const listProjectAttachments = (projectId: string) =>
+  prisma.projectAttachment.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Stores an upload for the project, or for one of its live jobs. Throws when
+ * the file is empty, too large or of a type we don't keep.
+ */
+export const addProjectAttachment = async (
+  shop: string,
+  projectId: string,
+  options: { jobId: string; file: File; customerId: string | null },
+) => {
+  const { file } = options;
+  if (file.size === 0) {
+    throw new Error("Choose a file to upload.");
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(
+      `Files can be up to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`,
+    );
+  }
+  const contentType = ATTACHMENT_TYPES[getExtension(file.name)];
+  if (!contentType) {
+    throw new Error("Upload drawings, documents or photos (PDF, images, DWG, DXF, Office, CSV, ZIP).");
+  }
+  if (options.jobId) {
+    const job = await prisma.job.findFirst({
+      where: { id: options.jobId, projectId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!job) {
+      throw new Error("That order is no longer in the project.");
+    }
+  }
+
+  const storage = getDefaultStorageName();
+  const filename = cleanFilename(file.name);
+  const storageKey = await getAttachmentStorage(storage).save(shop, {
+    filename,
+    contentType,
+    content: Buffer.from(await file.arrayBuffer()),
+  });
+  return prisma.projectAttachment.create({
+    data: {
+      projectId,
+      jobId: options.jobId,
+      filename,
+      contentType,
+      size: file.size,
+      storage,
+      storageKey,
+      uploadedByCustomerId: options.customerId,
+    },
+  });
+};
+
+export const findProjectAttachment = (projectId: string, attachmentId: string) =>
+  prisma.projectAttachment.findFirst({
+    where: { id: attachmentId, projectId },
+  });
+
+export const openProjectAttachment = (
+  shop: string,
+  attachment: { storage: string; storageKey: string },
+) => getAttachmentStorage(attachment.storage).open(shop, attachment.storageKey);
+
+const removeStoredFiles = async (
+  shop: string,
+  attachments: Array<{ storage: string; storageKey: string }>,
+) => {
+  for (const attachment of attachments) {
+    try {
+      await getAttachmentStorage(attachment.storage).remove(shop, attachment.storageKey);
+    } catch (error) {
+      console.error("Attachment removal error:", error);
+    }
+  }
+};
+
+/** Returns the removed attachment, or null when it is not on this project. */
+export const deleteProjectAttachment = async (
+  shop: string,
+  projectId: string,
+  attachmentId: string,
+) => {
+  const attachment = await findProjectAttachment(projectId, attachmentId);
+  if (!attachment) return null;
+  await prisma.projectAttachment.delete({ where: { id: attachment.id } });
+  await removeStoredFiles(shop, [attachment]);
+  return attachment;
+};
+
+/**
+ * Removes the stored files and rows for attachments on projects and jobs
+ * about to be purged; a job's attachments are not tied to it by a foreign
+ * key, so they would outlive it otherwise.
+ */
+export const purgeAttachments = async (
+  shop: string,
+  where: { projectIds: string[]; jobIds: string[] },
+) => {
+  if (!where.projectIds.length && !where.jobIds.length) return;
+  const attachments = await prisma.projectAttachment.findMany({
+    where: {
+      project: { shop },
+      OR: [
+        { projectId: { in: where.projectIds } },
+        { jobId: { in: where.jobIds } },
+      ],
+    },
+  });
+  if (!attachments.length) return;
+  await prisma.projectAttachment.deleteMany({
+    where: { id: { in: attachments.map((attachment) => attachment.id) } },
+  });
+  await removeStoredFiles(shop, attachments);
+};
@@ -0,0 +1,127 @@
+import type { Prisma } from "@prisma/client";
+import {
+  getProjectStatusWhere,
+  parseProjectStatusFilter,
+} from "./projectStatus.server";
+
+export const PROJECT_PAGE_SIZE = 20;
+
+export const PROJECT_SCOPES = ["all", "owned", "shared"] as const;
+export const PROJECT_APPROVAL_FILTERS = ["any", "pending", "approved", "none"] as const;
+export const PROJECT_SORTS = ["newest", "oldest", "updated", "name"] as const;
+
+export type ProjectScope = (typeof PROJECT_SCOPES)[number];
+export type ProjectApprovalFilter = (typeof PROJECT_APPROVAL_FILTERS)[number];
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export const PROJECT_SCOPE_LABELS: Record<ProjectScope, string> = {
+  all: "Mine and shared",
+  owned: "Projects I own",
+  shared: "Shared with me",
+};
+
+export const PROJECT_APPROVAL_FILTER_LABELS: Record<ProjectApprovalFilter, string> = {
+  any: "Any approval status",
+  pending: "Awaiting approval",
+  approved: "Approved",
+  none: "Not submitted",
+};
+
+export const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  updated: "Recently updated",
+  name: "Name (A–Z)",
+};
+
+const pick = <T extends string>(values: readonly T[], value: string | null, fallback: T) =>
+  values.find((entry) => entry === value) ?? fallback;
+
+/** Reads the list's search, filters, sort and cursor from the page URL. */
+export const parseProjectListQuery = (searchParams: URLSearchParams) => ({
+  search: (searchParams.get("q") || "").trim().slice(0, 100),
+  status: parseProjectStatusFilter(searchParams.get("status")),
+  scope: pick(PROJECT_SCOPES, searchParams.get("scope"), "all"),
+  approval: pick(PROJECT_APPROVAL_FILTERS, searchParams.get("approval"), "any"),
+  sort: pick(PROJECT_SORTS, searchParams.get("sort"), "newest"),
+  cursor: searchParams.get("cursor") || "",
+});
+
+export type ProjectListQuery = ReturnType<typeof parseProjectListQuery>;
+
+/**
+ * The projects the customer can see that match the query. `variantIds` are
+ * the products whose titles matched the search text.
+ */
+export const getProjectListWhere = (
+  shop: string,
+  customerId: string,
+  query: ProjectListQuery,
+  variantIds: string[],
+): Prisma.ProjectWhereInput => {
+  const and: Prisma.ProjectWhereInput[] = [
+    query.scope === "owned"
+      ? { ownerCustomerId: customerId }
+      : query.scope === "shared"
+        ? { ownerCustomerId: { not: customerId }, members: { some: { customerId } } }
+        : {
+            OR: [
+              { ownerCustomerId: customerId },
+              { members: { some: { customerId } } },
+            ],
+          },
+  ];
+
+  if (query.search) {
+    const contains = { contains: query.search, mode: "insensitive" as const };
+    and.push({
+      OR: [
+        { name: contains },
+        { poNumber: contains },
+        { companyName: contains },
+        ...(variantIds.length
+          ? [
+              {
+                jobs: {
+                  some: {
+                    deletedAt: null,
+                    items: { some: { deletedAt: null, variantId: { in: variantIds } } },
+                  },
+                },
+              },
+            ]
+          : []),
+      ],
+    });
+  }
+
+  // Item-level requests don't count; these are order and project approvals.
+  if (query.approval === "pending") {
+    and.push({
+      approvalRequests: { some: { itemId: "", approvedAt: null, outcome: null } },
+    });
+  } else if (query.approval === "approved") {
+    and.push({
+      approvalRequests: { some: { itemId: "", approvedAt: { not: null } } },
+    });
+  } else if (query.approval === "none") {
+    and.push({ approvalRequests: { none: { itemId: "" } } });
+  }
+
+  return {
+    shop,
+    deletedAt: null,
+    ...getProjectStatusWhere(query.status),
+    AND: and,
+  };
+};
+
+// The id breaks ties so the cursor always lands on the same row.
+export const getProjectListOrderBy = (
+  sort: ProjectSort,
+): Prisma.ProjectOrderByWithRelationInput[] => {
+  if (sort === "oldest") return [{ createdAt: "asc" }, { id: "asc" }];
+  if (sort === "updated") return [{ updatedAt: "desc" }, { id: "desc" }];
+  if (sort === "name") return [{ name: "asc" }, { id: "asc" }];
+  return [{ createdAt: "desc" }, { id: "desc" }];
+};
@@ -0,0 +1,153 @@
+import prisma from "../db.server";
+
+export const PROJECT_STATUSES = [
+  "draft",
+  "active",
+  "on_hold",
+  "completed",
+  "archived",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  on_hold: "On hold",
+  completed: "Completed",
+  archived: "Archived",
+};
+
+// Projects start active and can be put back to draft while they are being
+// planned. Archived projects only come back as active; everything else can
+// be archived.
+const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ["active", "archived"],
+  active: ["draft", "on_hold", "completed", "archived"],
+  on_hold: ["active", "completed", "archived"],
+  completed: ["active", "archived"],
+  archived: ["active"],
+};
+
+/** The list filter: "open" is every status but archived. */
+export const PROJECT_STATUS_FILTERS = ["open", ...PROJECT_STATUSES, "all"] as const;
+
+export type ProjectStatusFilter = (typeof PROJECT_STATUS_FILTERS)[number];
+
+export const toProjectStatus = (value: string | null | undefined): ProjectStatus =>
+  PROJECT_STATUSES.find((status) => status === value) ?? "active";
+
+export const parseProjectStatusFilter = (
+  value: string | null | undefined,
+): ProjectStatusFilter =>
+  PROJECT_STATUS_FILTERS.find((filter) => filter === value) ?? "open";
+
+/** A `where` clause for the filter, for prisma.project queries. */
+export const getProjectStatusWhere = (filter: ProjectStatusFilter) =>
+  filter === "all"
+    ? {}
+    : filter === "open"
+      ? { status: { not: "archived" } }
+      : { status: filter };
+
+export const getNextProjectStatuses = (status: string) =>
+  PROJECT_STATUS_TRANSITIONS[toProjectStatus(status)];
+
+export const isProjectArchived = (project: { status: string }) =>
+  project.status === "archived";
+
+/**
+ * A `where` clause for projects the customer can move or copy orders into:
+ * live, not archived, and owned or shared with edit access.
+ */
+export const getOrderTargetProjectWhere = (shop: string, customerId: string) => ({
+  shop,
+  deletedAt: null,
+  status: { not: "archived" },
+  OR: [
+    { ownerCustomerId: customerId },
+    { members: { some: { customerId, role: "edit" as const } } },
+  ],
+});
+
+/** The target of a move or copy, or null when the customer can't use it. */
+export const findOrderTargetProject = (
+  shop: string,
+  customerId: string,
+  projectId: string,
+) =>
+  prisma.project.findFirst({
+    where: { ...getOrderTargetProjectWhere(shop, customerId), id: projectId },
+    select: { id: true },
+  });
+
+/**
+ * Moves a project to a new status. Throws when the move isn't allowed from
+ * its current status; returns the project before and after.
+ */
+export const changeProjectStatus = async (
+  shop: string,
+  projectId: string,
+  status: string,
+) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, shop, deletedAt: null },
+    select: { id: true, status: true, archivedAt: true },
+  });
+  if (!project) throw new Error("Project not found.");
+  const next = PROJECT_STATUSES.find((value) => value === status);
+  if (!next || !getNextProjectStatuses(project.status).includes(next)) {
+    throw new Error(
+      `A project that is ${PROJECT_STATUS_LABELS[toProjectStatus(project.status)].toLowerCase()} can't be moved to ${
+        next ? PROJECT_STATUS_LABELS[next].toLowerCase() : "that status"
+      }.`,
+    );
+  }
+  const updated = await prisma.project.update({
+    where: { id: project.id },
+    data: {
+      status: next,
+      archivedAt: next === "archived" ? new Date() : null,
+    },
+    select: { id: true, status: true, archivedAt: true },
+  });
+  return { before: project, after: updated };
+};
+
+/**
+ * Archives the projects of the given jobs once every live job in them has
+ * an order, when the shop turned that on. Returns the archived project ids.
+ */
+export const archiveFullyOrderedProjects = async (
+  shop: string,
+  jobIds: string[],
+) => {
+  if (!jobIds.length) return [];
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { autoArchiveOrderedProjects: true },
+  });
+  if (!settings?.autoArchiveOrderedProjects) return [];
+
+  const projects = await prisma.project.findMany({
+    where: {
+      shop,
+      deletedAt: null,
+      status: { not: "archived" },
+      jobs: { some: { id: { in: jobIds } } },
+    },
+    include: {
+      jobs: { where: { deletedAt: null }, include: { orderLink: true } },
+    },
+  });
+  const ready = projects.filter(
+    (project) =>
+      project.jobs.length > 0 && project.jobs.every((job) => job.orderLink),
+  );
+  if (!ready.length) return [];
+  await prisma.project.updateMany({
+    where: { id: { in: ready.map((project) => project.id) } },
+    data: { status: "archived", archivedAt: new Date() },
+  });
+  return ready.map((project) => project.id);
+};
@@ -0,0 +1,254 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { getAdminVariantPrices } from "./adminVariants.server";
+
+export type TemplateJob = {
+  name: string;
+  items: Array<{ variantId: string; quantity: number }>;
+};
+
+export type ProjectTemplateView = {
+  id: string;
+  name: string;
+  isShopTemplate: boolean;
+  jobCount: number;
+  itemCount: number;
+  createdAt: string;
+};
+
+export const parseTemplateJobs = (value: unknown): TemplateJob[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((job) => {
+      const raw = (job || {}) as Record<string, unknown>;
+      const items = Array.isArray(raw.items) ? raw.items : [];
+      return {
+        name: String(raw.name || "").trim(),
+        items: items
+          .map((item) => {
+            const rawItem = (item || {}) as Record<string, unknown>;
+            return {
+              variantId: String(rawItem.variantId || ""),
+              quantity: Math.floor(Number(rawItem.quantity) || 0),
+            };
+          })
+          .filter((item) => item.variantId && item.quantity > 0),
+      };
+    })
+    .filter((job) => job.name);
+};
+
+const getLiveJobs = (projectId: string) =>
+  prisma.job.findMany({
+    where: { projectId, deletedAt: null },
+    orderBy: { sortOrder: "asc" },
+    include: {
+      items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+    },
+  });
+
+// Customers see the shop's templates and their own; shop staff see all.
+const getTemplateWhere = (shop: string, customerId?: string) =>
+  customerId === undefined
+    ? { shop }
+    : {
+        shop,
+        OR: [{ createdByCustomerId: null }, { createdByCustomerId: customerId }],
+      };
+
+export const toTemplateView = (template: {
+  id: string;
+  name: string;
+  createdByCustomerId: string | null;
+  jobs: Prisma.JsonValue;
+  createdAt: Date;
+}): ProjectTemplateView => {
+  const jobs = parseTemplateJobs(template.jobs);
+  return {
+    id: template.id,
+    name: template.name,
+    isShopTemplate: !template.createdByCustomerId,
+    jobCount: jobs.length,
+    itemCount: jobs.reduce((sum, job) => sum + job.items.length, 0),
+    createdAt: template.createdAt.toISOString(),
+  };
+};
+
+export const listProjectTemplates = async (shop: string, customerId?: string) => {
+  const templates = await prisma.projectTemplate.findMany({
+    where: getTemplateWhere(shop, customerId),
+    orderBy: { name: "asc" },
+  });
+  return templates.map(toTemplateView);
+};
+
+/** Saves the project's live jobs, variants and quantities; prices are not kept. */
+export const saveProjectTemplate = async (
+  shop: string,
+  projectId: string,
+  options: { name: string; createdByCustomerId: string | null },
+) => {
+  const jobs = await getLiveJobs(projectId);
+  const templateJobs: TemplateJob[] = jobs.map((job) => ({
+    name: job.name,
+    items: job.items.map((item) => ({
+      variantId: item.variantId,
+      quantity: item.quantity,
+    })),
+  }));
+  return prisma.projectTemplate.create({
+    data: {
+      shop,
+      name: options.name,
+      createdByCustomerId: options.createdByCustomerId,
+      jobs: templateJobs,
+    },
+  });
+};
+
+/** Returns false when no template matched; customers can only delete their own. */
+export const deleteProjectTemplate = async (
+  shop: string,
+  templateId: string,
+  customerId?: string,
+) => {
+  const result = await prisma.projectTemplate.deleteMany({
+    where: {
+      id: templateId,
+      shop,
+      ...(customerId === undefined ? {} : { createdByCustomerId: customerId }),
+    },
+  });
+  return result.count > 0;
+};
+
+/**
+ * Starts a project from a template with prices snapshotted now. Variants the
+ * shop no longer sells are left out and counted in skippedItems. Returns null
+ * when the template is not available; throws when the price lookup fails.
+ */
+export const createProjectFromTemplate = async (
+  shop: string,
+  templateId: string,
+  options: {
+    name: string;
+    ownerCustomerId: string;
+    poNumber?: string | null;
+    companyName?: string | null;
+    customerId?: string;
+  },
+) => {
+  const template = await prisma.projectTemplate.findFirst({
+    where: { id: templateId, ...getTemplateWhere(shop, options.customerId) },
+  });
+  if (!template) return null;
+
+  const jobs = parseTemplateJobs(template.jobs);
+  const prices = await getAdminVariantPrices(
+    shop,
+    Array.from(
+      new Set(jobs.flatMap((job) => job.items.map((item) => item.variantId))),
+    ),
+  );
+  let skippedItems = 0;
+
+  const project = await prisma.project.create({
+    data: {
+      shop,
+      name: options.name,
+      ownerCustomerId: options.ownerCustomerId,
+      poNumber: options.poNumber || null,
+      companyName: options.companyName || null,
+      members: {
+        create: { customerId: options.ownerCustomerId, role: "edit" },
+      },
+      jobs: {
+        create: jobs.map((job, jobIndex) => {
+          const pricedItems = job.items.filter(
+            (item) => prices[item.variantId] !== undefined,
+          );
+          skippedItems += job.items.length - pricedItems.length;
+          return {
+            name: job.name,
+            sortOrder: jobIndex + 1,
+            items: {
+              create: pricedItems.map((item, index) => ({
+                variantId: item.variantId,
+                quantity: item.quantity,
+                priceSnapshot: new Prisma.Decimal(prices[item.variantId]),
+                sortOrder: index + 1,
+              })),
+            },
+          };
+        }),
+      },
+    },
+  });
+
+  return { project, template, skippedItems };
+};
+
+/**
+ * Copies a project's live jobs and items in their current order, keeping the
+ * original price snapshots. Locks, placed orders, approvals and share links
+ * stay with the original. Returns null when the project is not found.
+ */
+export const duplicateProject = async (
+  shop: string,
+  projectId: string,
+  options: { ownerCustomerId: string; includeMembers: boolean },
+) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, shop, deletedAt: null },
+    include: { members: true, approvers: true },
+  });
+  if (!project) return null;
+  const jobs = await getLiveJobs(projectId);
+
+  return prisma.project.create({
+    data: {
+      shop,
+      name: `${project.name} (Copy)`,
+      ownerCustomerId: options.ownerCustomerId,
+      poNumber: project.poNumber,
+      companyName: project.companyName,
+      approvalWorkflow:
+        project.approvalWorkflow === null
+          ? Prisma.DbNull
+          : (project.approvalWorkflow as Prisma.InputJsonValue),
+      members: {
+        create: [
+          { customerId: options.ownerCustomerId, role: "edit" as const },
+          ...(options.includeMembers ? project.members : [])
+            .filter((member) => member.customerId !== options.ownerCustomerId)
+            .map((member) => ({
+              customerId: member.customerId,
+              role: member.role,
+            })),
+        ],
+      },
+      approvers: {
+        create: (options.includeMembers ? project.approvers : []).map(
+          (approver) => ({
+            customerId: approver.customerId,
+            role: approver.role,
+          }),
+        ),
+      },
+      jobs: {
+        create: jobs.map((job) => ({
+          name: job.name,
+          sortOrder: job.sortOrder,
+          items: {
+            create: job.items.map((item) => ({
+              variantId: item.variantId,
+              quantity: item.quantity,
+              priceSnapshot: item.priceSnapshot,
+              sortOrder: item.sortOrder,
+            })),
+          },
+        })),
+      },
+    },
+  });
+};
@@ -0,0 +1,301 @@
+import prisma from "../db.server";
+import { getVariantInfo } from "./variantCache.server";
+import {
+  createPdf,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  truncateText,
+  wrapText,
+  type PdfImage,
+} from "./pdf.server";
+
+const MARGIN = 48;
+const ROW_HEIGHT = 40;
+const THUMBNAIL_SIZE = 32;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const toFileSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "project";
+
+const readDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:[^;,]+;base64,(.*)$/);
+  return match ? Buffer.from(match[1], "base64") : null;
+};
+
+// Shopify's CDN resizes on request, so thumbnails stay small.
+const fetchImage = async (url: string) => {
+  try {
+    const sized = new URL(url);
+    if (sized.hostname.endsWith("cdn.shopify.com")) {
+      sized.searchParams.set("width", "96");
+    }
+    const response = await fetch(sized, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) return null;
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return bytes.length > MAX_IMAGE_BYTES ? null : bytes;
+  } catch {
+    return null;
+  }
+};
+
+const fitInside = (image: PdfImage, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+/**
+ * Builds the quote for a whole project, or for one job when jobId is given.
+ * Prices, line totals and subtotals are left out when showPrices is false.
+ * Returns null when the project or job is not found.
+ */
+export const createQuotePdf = async (
+  shop: string,
+  projectId: string,
+  options: { jobId?: string | null; showPrices?: boolean } = {},
+) => {
+  const showPrices = options.showPrices ?? true;
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, shop, deletedAt: null },
+    include: {
+      jobs: {
+        where: {
+          deletedAt: null,
+          ...(options.jobId ? { id: options.jobId } : {}),
+        },
+        orderBy: { sortOrder: "asc" },
+        include: {
+          items: { where: { deletedAt: null }, orderBy: { sortOrder: "asc" } },
+          orderLink: true,
+        },
+      },
+    },
+  });
+  if (!project || (options.jobId && project.jobs.length === 0)) return null;
+
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { logoDataUrl: true },
+  });
+  const variantInfo = await getVariantInfo(
+    shop,
+    project.jobs.flatMap((job) => job.items.map((item) => item.variantId)),
+  ).catch(() => ({}) as Awaited<ReturnType<typeof getVariantInfo>>);
+
+  const pdf = createPdf();
+  const logoBytes = settings?.logoDataUrl ? readDataUrl(settings.logoDataUrl) : null;
+  const logo = logoBytes ? pdf.addImage(logoBytes) : null;
+  const imageUrls = Array.from(
+    new Set(
+      Object.values(variantInfo)
+        .map((info) => info.imageUrl)
+        .filter((url): url is string => Boolean(url)),
+    ),
+  );
+  const thumbnails = new Map<string, PdfImage>();
+  const fetched = await Promise.all(imageUrls.map((url) => fetchImage(url)));
+  fetched.forEach((bytes, index) => {
+    const image = bytes ? pdf.addImage(bytes) : null;
+    if (image) thumbnails.set(imageUrls[index], image);
+  });
+
+  const job = options.jobId ? project.jobs[0] : null;
+  const title = "Quote";
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = showPrices
+    ? { item: MARGIN + 44, quantity: right - 150, price: right - 75, total: right }
+    : { item: MARGIN + 44, quantity: right, price: 0, total: 0 };
+  const itemWidth = (showPrices ? columns.quantity - 40 : columns.quantity - 50) - columns.item;
+
+  let page = pdf.addPage();
+  let y = MARGIN;
+
+  // Header: logo on the left, document details on the right.
+  if (logo) {
+    const size = fitInside(logo, 180, 60);
+    pdf.image(page, logo, MARGIN, y, size.width, size.height);
+  }
+  pdf.text(page, right, y + 18, title, { size: 20, font: "bold", align: "right" });
+  const issuedOn = new Date().toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  pdf.text(page, right, y + 36, issuedOn, { size: 10, gray: 0.4, align: "right" });
+  y += 80;
+
+  const details: Array<[string, string | null]> = [
+    ["Project", project.name],
+    ["Company", project.companyName],
+    ["PO number", project.poNumber],
+    ["Order", job ? job.name : null],
+  ];
+  details
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .forEach(([label, value]) => {
+      pdf.text(page, MARGIN, y, label, { size: 10, font: "bold" });
+      pdf.text(page, MARGIN + 80, y, truncateText(value, 10, right - MARGIN - 80), {
+        size: 10,
+      });
+      y += 16;
+    });
+  y += 12;
+
+  const newPage = () => {
+    page = pdf.addPage();
+    y = MARGIN;
+    pdf.text(page, MARGIN, y, truncateText(`${title} • ${project.name}`, 9, right - MARGIN), {
+      size: 9,
+      gray: 0.4,
+    });
+    y += 20;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - 24) newPage();
+  };
+  const drawTableHeader = () => {
+    pdf.rect(page, MARGIN, y, right - MARGIN, 20);
+    pdf.text(page, columns.item, y + 14, "Item", { size: 9, font: "bold" });
+    pdf.text(page, columns.quantity, y + 14, "Qty", { size: 9, font: "bold", align: "right" });
+    if (showPrices) {
+      pdf.text(page, columns.price, y + 14, "Unit price", {
+        size: 9,
+        font: "bold",
+        align: "right",
+      });
+      pdf.text(page, columns.total, y + 14, "Total", { size: 9, font: "bold", align: "right" });
+    }
+    y += 20;
+  };
+
+  let projectTotal = 0;
+  for (const currentJob of project.jobs) {
+    ensureSpace(24 + 20 + ROW_HEIGHT);
+    const jobLabel = currentJob.orderLink?.orderName
+      ? `${currentJob.name} (ordered as ${currentJob.orderLink.orderName})`
+      : currentJob.name;
+    pdf.text(page, MARGIN, y + 14, truncateText(jobLabel, 12, right - MARGIN, "bold"), {
+      size: 12,
+      font: "bold",
+    });
+    y += 24;
+    drawTableHeader();
+
+    let jobTotal = 0;
+    if (currentJob.items.length === 0) {
+      pdf.text(page, columns.item, y + 16, "No items.", { size: 10, gray: 0.4 });
+      y += 24;
+    }
+    for (const item of currentJob.items) {
+      if (y + ROW_HEIGHT > PAGE_HEIGHT - MARGIN - 24) {
+        newPage();
+        drawTableHeader();
+      }
+      const info = variantInfo[item.variantId];
+      const displayName = info
+        ? info.title && info.title !== "Default Title"
+          ? `${info.productTitle} — ${info.title}`
+          : info.productTitle
+        : `Variant ${item.variantId}`;
+      const thumbnail = info?.imageUrl ? thumbnails.get(info.imageUrl) : null;
+      if (thumbnail) {
+        const size = fitInside(thumbnail, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+        pdf.image(
+          page,
+          thumbnail,
+          MARGIN + (THUMBNAIL_SIZE - size.width) / 2 + 4,
+          y + (ROW_HEIGHT - size.height) / 2,
+          size.width,
+          size.height,
+        );
+      }
+      const lines = wrapText(displayName, 10, itemWidth);
+      lines.forEach((line, index) => {
+        pdf.text(page, columns.item, y + (lines.length === 1 ? 24 : 18 + index * 12), line, {
+          size: 10,
+        });
+      });
+      pdf.text(page, columns.quantity, y + 24, String(item.quantity), {
+        size: 10,
+        align: "right",
+      });
+      const price = Number(item.priceSnapshot || 0);
+      const lineTotal = price * item.quantity;
+      jobTotal += lineTotal;
+      if (showPrices) {
+        pdf.text(page, columns.price, y + 24, price.toFixed(2), { size: 10, align: "right" });
+        pdf.text(page, columns.total, y + 24, lineTotal.toFixed(2), {
+          size: 10,
+          align: "right",
+        });
+      }
+      y += ROW_HEIGHT;
+      pdf.line(page, MARGIN, y, right, y);
+    }
+    projectTotal += jobTotal;
+
+    if (showPrices) {
+      ensureSpace(24);
+      pdf.text(page, columns.price, y + 16, "Subtotal", { size: 10, font: "bold", align: "right" });
+      pdf.text(page, columns.total, y + 16, jobTotal.toFixed(2), {
+        size: 10,
+        font: "bold",
+        align: "right",
+      });
+      y += 24;
+    }
+    y += 16;
+  }
+
+  if (showPrices && !job && project.jobs.length > 1) {
+    ensureSpace(30);
+    pdf.line(page, columns.quantity, y, right, y, { width: 1, gray: 0 });
+    pdf.text(page, columns.price, y + 18, "Project total", {
+      size: 11,
+      font: "bold",
+      align: "right",
+    });
+    pdf.text(page, columns.total, y + 18, projectTotal.toFixed(2), {
+      size: 11,
+      font: "bold",
+      align: "right",
+    });
+  }
+
+  // Footers go on last, once the page count is known.
+  for (let index = 0; index < pdf.pageCount; index += 1) {
+    const footerY = PAGE_HEIGHT - MARGIN + 12;
+    pdf.text(index, MARGIN, footerY, shop, { size: 8, gray: 0.5 });
+    const pageLabel = `Page ${index + 1} of ${pdf.pageCount}`;
+    pdf.text(index, right, footerY, pageLabel, { size: 8, gray: 0.5, align: "right" });
+  }
+
+  const filename = `quote-${toFileSlug(project.name)}${job ? `-${toFileSlug(job.name)}` : ""}.pdf`;
+  return { filename, content: pdf.toBuffer(), project, job };
+};
+
+/**
+ * The quote to attach to an approval email, when the shop has turned that on.
+ * Never throws: a quote that cannot be built should not hold up the request.
+ */
+export const getApprovalQuoteAttachments = async (
+  shop: string,
+  projectId: string,
+  jobId: string,
+) => {
+  try {
+    const settings = await prisma.shopSettings.findUnique({
+      where: { shop },
+      select: { attachQuoteToApprovalEmails: true },
+    });
+    if (!settings?.attachQuoteToApprovalEmails) return [];
+    const quote = await createQuotePdf(shop, projectId, { jobId: jobId || null });
+    return quote ? [{ filename: quote.filename, content: quote.content }] : [];
+  } catch (error) {
+    console.error("Approval quote error:", error);
+    return [];
+  }
+};
@@ -0,0 +1,176 @@
+import crypto from "node:crypto";
+import prisma from "../db.server";
+
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30];
+
+export type ShareTokenStatus = "active" | "expired" | "exhausted" | "revoked";
+
+type ShareTokenState = {
+  expiresAt: Date | null;
+  maxUses: number | null;
+  useCount: number;
+  revokedAt: Date | null;
+};
+
+export const getShareLinkPath = (token: string) =>
+  `/apps/project-clad/share/${token}`;
+
+export const getShareTokenStatus = (
+  shareToken: ShareTokenState,
+  now = new Date(),
+): ShareTokenStatus => {
+  if (shareToken.revokedAt) return "revoked";
+  if (shareToken.expiresAt && shareToken.expiresAt <= now) return "expired";
+  if (shareToken.maxUses !== null && shareToken.useCount >= shareToken.maxUses) {
+    return "exhausted";
+  }
+  return "active";
+};
+
+const STATUS_MESSAGES: Record<Exclude<ShareTokenStatus, "active">, string> = {
+  revoked: "This share link has been revoked. Ask the project owner for a new link.",
+  expired: "This share link has expired. Ask the project owner for a new link.",
+  exhausted:
+    "This share link has reached its use limit. Ask the project owner for a new link.",
+};
+
+const NOT_FOUND_MESSAGE = "Share link not found.";
+
+/**
+ * The page shown for a share link that can't be used: one of the fixed
+ * messages above, never the text of an unexpected error.
+ */
+export const getShareLinkError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : "";
+  if (message === NOT_FOUND_MESSAGE) {
+    return { message, status: 404 };
+  }
+  if (Object.values(STATUS_MESSAGES).includes(message)) {
+    return { message, status: 410 };
+  }
+  return {
+    message: "This share link can't be used right now. Try again later.",
+    status: 500,
+  };
+};
+
+const toPositiveInt = (value: string | null | undefined) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/** Creates a share token; expiry and use limits are optional. */
+export const createShareToken = async (
+  projectId: string,
+  options: {
+    role?: string | null;
+    expiresInDays?: string | null;
+    maxUses?: string | null;
+    createdByCustomerId?: string | null;
+  },
+) => {
+  const expiresInDays = toPositiveInt(options.expiresInDays);
+  return prisma.projectShareToken.create({
+    data: {
+      projectId,
+      token: crypto.randomBytes(16).toString("hex"),
+      role: options.role === "edit" ? "edit" : "view",
+      createdByCustomerId: options.createdByCustomerId || null,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      maxUses: toPositiveInt(options.maxUses),
+    },
+  });
+};
+
+/**
+ * Adds the customer to the token's project. Each customer counts once
+ * against the use limit, so opening the same link again is harmless.
+ * Throws with a customer-facing message when the link can't be used.
+ */
+export const redeemShareToken = async (
+  shop: string,
+  token: string,
+  customerId: string,
+) =>
+  prisma.$transaction(async (tx) => {
+    const shareToken = await tx.projectShareToken.findFirst({
+      where: { token, project: { shop, deletedAt: null } },
+      include: {
+        redemptions: { where: { customerId } },
+        project: { select: { ownerCustomerId: true } },
+      },
+    });
+
+    if (!shareToken) {
+      throw new Error(NOT_FOUND_MESSAGE);
+    }
+
+    const alreadyRedeemed = shareToken.redemptions.length > 0;
+    const status = getShareTokenStatus(shareToken);
+    if (status === "revoked" || status === "expired") {
+      throw new Error(STATUS_MESSAGES[status]);
+    }
+    if (status === "exhausted" && !alreadyRedeemed) {
+      throw new Error(STATUS_MESSAGES[status]);
+    }
+
+    if (!alreadyRedeemed) {
+      // The limit is checked in the update itself, so two customers opening
+      // the link at once can't both take the last use.
+      const { count } = await tx.projectShareToken.updateMany({
+        where: {
+          id: shareToken.id,
+          ...(shareToken.maxUses !== null
+            ? { useCount: { lt: shareToken.maxUses } }
+            : {}),
+        },
+        data: { useCount: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new Error(STATUS_MESSAGES.exhausted);
+      }
+      await tx.shareTokenRedemption.create({
+        data: { shareTokenId: shareToken.id, customerId },
+      });
+    }
+
+    // A link only ever raises access: the owner stays owner and an editor
+    // who opens a view link keeps editing.
+    if (customerId !== shareToken.project.ownerCustomerId) {
+      const member = await tx.projectMember.findUnique({
+        where: {
+          projectId_customerId: {
+            projectId: shareToken.projectId,
+            customerId,
+          },
+        },
+      });
+      if (!member) {
+        await tx.projectMember.create({
+          data: {
+            projectId: shareToken.projectId,
+            customerId,
+            role: shareToken.role,
+          },
+        });
+      } else if (member.role !== "edit" && shareToken.role === "edit") {
+        await tx.projectMember.update({
+          where: { id: member.id },
+          data: { role: "edit" },
+        });
+      }
+    }
+
+    return { shareToken, alreadyRedeemed };
+  });
+
+/** Revokes a token that belongs to the project; returns false if none matched. */
+export const revokeShareToken = async (projectId: string, shareTokenId: string) => {
+  const result = await prisma.projectShareToken.updateMany({
+    where: { id: shareTokenId, projectId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+};
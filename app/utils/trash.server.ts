@@ -0,0 +1,138 @@
+import prisma from "../db.server";
+import { ensureBaseRevision } from "./jobRevisions.server";
+import { purgeAttachments } from "./projectAttachments.server";
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseTrashRetentionDays = (value: unknown) => {
+  const days = Number(value);
+  return TRASH_RETENTION_OPTIONS.includes(days) ? days : null;
+};
+
+export const getTrashRetentionDays = async (shop: string) => {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { trashRetentionDays: true },
+  });
+  return settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/** When something deleted at `deletedAt` will be purged for good. */
+export const getPurgeDate = (deletedAt: Date, retentionDays: number) =>
+  new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+
+/**
+ * Permanently removes trash older than the shop's retention period. Runs
+ * from page loaders, so failures are logged rather than thrown.
+ */
+export const purgeExpiredTrash = async (shop: string) => {
+  try {
+    const retentionDays = await getTrashRetentionDays(shop);
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const [expiredProjects, expiredJobs] = await Promise.all([
+      prisma.project.findMany({
+        where: { shop, deletedAt: { lt: cutoff } },
+        select: { id: true },
+      }),
+      prisma.job.findMany({
+        where: { deletedAt: { lt: cutoff }, project: { shop } },
+        select: { id: true },
+      }),
+    ]);
+    await purgeAttachments(shop, {
+      projectIds: expiredProjects.map((project) => project.id),
+      jobIds: expiredJobs.map((job) => job.id),
+    });
+    // Removing a project or job cascades to everything it contains.
+    await prisma.$transaction([
+      prisma.jobItem.deleteMany({
+        where: { deletedAt: { lt: cutoff }, job: { project: { shop } } },
+      }),
+      prisma.job.deleteMany({
+        where: { deletedAt: { lt: cutoff }, project: { shop } },
+      }),
+      prisma.project.deleteMany({
+        where: { shop, deletedAt: { lt: cutoff } },
+      }),
+    ]);
+  } catch (error) {
+    console.error("Trash purge error:", error);
+  }
+};
+
+export const trashData = (deletedByCustomerId: string | null) => ({
+  deletedAt: new Date(),
+  deletedByCustomerId,
+});
+
+const restoreData = { deletedAt: null, deletedByCustomerId: null };
+
+/** Deleted jobs, and items deleted from jobs that are still live. */
+export const getProjectTrash = async (projectId: string) => {
+  const [jobs, items] = await Promise.all([
+    prisma.job.findMany({
+      where: { projectId, deletedAt: { not: null } },
+      include: { items: { where: { deletedAt: null } } },
+      orderBy: { deletedAt: "desc" },
+    }),
+    prisma.jobItem.findMany({
+      where: {
+        deletedAt: { not: null },
+        job: { projectId, deletedAt: null },
+      },
+      include: { job: { select: { name: true } } },
+      orderBy: { deletedAt: "desc" },
+    }),
+  ]);
+  return { jobs, items };
+};
+
+export const getDeletedProjects = (shop: string, ownerCustomerId: string) =>
+  prisma.project.findMany({
+    where: { shop, ownerCustomerId, deletedAt: { not: null } },
+    orderBy: { deletedAt: "desc" },
+  });
+
+/** Returns the restored job, or null when it is not in this project's trash. */
+export const restoreJob = async (projectId: string, jobId: string) => {
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, projectId, deletedAt: { not: null } },
+  });
+  if (!job) return null;
+  return prisma.job.update({ where: { id: jobId }, data: restoreData });
+};
+
+/**
+ * Returns the restored item, or null when it is not in the trash. Items can
+ * only go back into a job that is live and unlocked.
+ */
+export const restoreItem = async (projectId: string, itemId: string) => {
+  const item = await prisma.jobItem.findFirst({
+    where: { id: itemId, deletedAt: { not: null }, job: { projectId } },
+    include: { job: { include: { orderLink: true } } },
+  });
+  if (!item) return null;
+  if (item.job.deletedAt) {
+    throw new Error("Restore the order before restoring its items.");
+  }
+  if (item.job.isLocked || item.job.orderLink) {
+    throw new Error("The order is locked.");
+  }
+  await ensureBaseRevision(item.jobId);
+  return prisma.jobItem.update({ where: { id: itemId }, data: restoreData });
+};
+
+export const restoreProject = async (
+  shop: string,
+  projectId: string,
+  ownerCustomerId: string,
+) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, shop, ownerCustomerId, deletedAt: { not: null } },
+  });
+  if (!project) return null;
+  return prisma.project.update({ where: { id: projectId }, data: restoreData });
+};
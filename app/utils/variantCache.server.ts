@@ -0,0 +1,172 @@
+import prisma from "../db.server";
+import {
+  getAdminVariantInfo,
+  type VariantInfo,
+} from "./adminVariants.server";
+
+/** The parts of a products/update webhook body the cache reads. */
+export type ProductWebhookPayload = {
+  id?: number | string;
+  title?: string;
+  handle?: string;
+  status?: string;
+  image?: { id?: number | string; src?: string; alt?: string | null } | null;
+  images?: Array<{ id?: number | string; src?: string; alt?: string | null }>;
+  variants?: Array<{
+    id?: number | string;
+    title?: string;
+    price?: string | number | null;
+    sku?: string | null;
+    image_id?: number | string | null;
+  }>;
+};
+
+const toVariantInfo = (row: {
+  productId: string;
+  title: string;
+  productTitle: string;
+  imageUrl: string | null;
+  imageAlt: string | null;
+  productHandle: string | null;
+  price: { toString(): string } | null;
+  sku: string | null;
+  productStatus: string;
+}): VariantInfo => ({
+  productId: row.productId,
+  title: row.title,
+  productTitle: row.productTitle,
+  imageUrl: row.imageUrl,
+  imageAlt: row.imageAlt,
+  productHandle: row.productHandle,
+  price: row.price === null ? null : row.price.toString(),
+  sku: row.sku,
+  productStatus: row.productStatus,
+});
+
+const saveVariants = async (shop: string, variants: Record<string, VariantInfo>) => {
+  for (const [variantId, info] of Object.entries(variants)) {
+    const data = {
+      productId: info.productId,
+      title: info.title,
+      productTitle: info.productTitle,
+      imageUrl: info.imageUrl,
+      imageAlt: info.imageAlt,
+      productHandle: info.productHandle,
+      price: info.price,
+      sku: info.sku,
+      productStatus: info.productStatus,
+    };
+    await prisma.variantCache.upsert({
+      where: { shop_variantId: { shop, variantId } },
+      create: { shop, variantId, ...data },
+      update: data,
+    });
+  }
+};
+
+/**
+ * Product details keyed by variant id, from the cache first. Variants not
+ * cached yet are fetched from the Admin API and stored; variants that no
+ * longer exist are left out, as with getAdminVariantInfo, unless the cache
+ * saw them deleted.
+ */
+export const getVariantInfo = async (
+  shop: string,
+  variantIds: string[],
+): Promise<Record<string, VariantInfo>> => {
+  const uniqueIds = Array.from(new Set(variantIds.filter(Boolean)));
+  if (uniqueIds.length === 0) {
+    return {};
+  }
+
+  const rows = await prisma.variantCache.findMany({
+    where: { shop, variantId: { in: uniqueIds } },
+  });
+  const results: Record<string, VariantInfo> = Object.fromEntries(
+    rows.map((row) => [row.variantId, toVariantInfo(row)]),
+  );
+
+  const missing = uniqueIds.filter((variantId) => !results[variantId]);
+  if (missing.length > 0) {
+    const fetched = await getAdminVariantInfo(shop, missing);
+    await saveVariants(shop, fetched);
+    Object.assign(results, fetched);
+  }
+
+  return results;
+};
+
+/** False for variants that are gone, or whose product is archived or a draft. */
+export const isVariantAvailable = (info: VariantInfo | null | undefined) =>
+  info?.productStatus === "ACTIVE";
+
+/**
+ * Rewrites the cached variants of an updated product from the webhook body.
+ * Only variants already cached are kept; the rest are filled when read.
+ */
+export const refreshCachedProduct = async (
+  shop: string,
+  payload: ProductWebhookPayload,
+) => {
+  if (!payload.id) return 0;
+  const productId = String(payload.id);
+  const variants = payload.variants || [];
+
+  // Variants dropped from the product are gone from the catalog; their rows
+  // stay so saved items can still show what they were.
+  await prisma.variantCache.updateMany({
+    where: {
+      shop,
+      productId,
+      variantId: { notIn: variants.map((variant) => String(variant.id)) },
+    },
+    data: { productStatus: "DELETED" },
+  });
+
+  const cached = await prisma.variantCache.findMany({
+    where: {
+      shop,
+      variantId: { in: variants.map((variant) => String(variant.id)) },
+    },
+    select: { variantId: true },
+  });
+  const cachedIds = new Set(cached.map((row) => row.variantId));
+  const productTitle = payload.title || "Product";
+
+  const updated: Record<string, VariantInfo> = {};
+  variants.forEach((variant) => {
+    const variantId = String(variant.id);
+    if (!variant.id || !cachedIds.has(variantId)) return;
+    const image =
+      payload.images?.find(
+        (entry) => variant.image_id && String(entry.id) === String(variant.image_id),
+      ) ||
+      payload.image ||
+      null;
+    updated[variantId] = {
+      productId,
+      title: variant.title || "",
+      productTitle,
+      imageUrl: image?.src || null,
+      imageAlt: image?.alt || productTitle,
+      productHandle: payload.handle || null,
+      price: variant.price == null ? null : String(variant.price),
+      sku: variant.sku || null,
+      productStatus: (payload.status || "active").toUpperCase(),
+    };
+  });
+  await saveVariants(shop, updated);
+  return Object.keys(updated).length;
+};
+
+export const markCachedProductDeleted = async (
+  shop: string,
+  productId: number | string | undefined,
+) => {
+  if (!productId) return 0;
+  const { count } = await prisma.variantCache.updateMany({
+    where: { shop, productId: String(productId) },
+    data: { productStatus: "DELETED" },
+  });
+  return count;
+};
@@ -368,7 +368,9 @@
 
     const result = await response.json();
     if (result?.projectId) {
-      window.location.href = `/apps/project-clad/project?id=${result.projectId}`;
+      window.location.href = `/apps/project-clad/project?id=${result.projectId}${
+        result.overBudget ? "&budget=over" : ""
+      }`;
     } else {
       window.location.href = "/apps/project-clad/projects";
     }
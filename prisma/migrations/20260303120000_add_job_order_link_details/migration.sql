@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "JobOrderLink" ADD COLUMN "orderName" TEXT;
+ALTER TABLE "JobOrderLink" ADD COLUMN "draftOrderId" TEXT;
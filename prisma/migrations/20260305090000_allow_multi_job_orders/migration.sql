@@ -0,0 +1,7 @@
+-- One checkout can contain lines from several jobs, so orderId is no longer unique
+
+-- DropIndex
+DROP INDEX IF EXISTS "JobOrderLink_orderId_key";
+
+-- CreateIndex
+CREATE INDEX "JobOrderLink_orderId_idx" ON "JobOrderLink"("orderId");
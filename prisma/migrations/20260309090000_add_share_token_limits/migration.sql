@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "ProjectShareToken" ADD COLUMN "createdByCustomerId" TEXT;
+ALTER TABLE "ProjectShareToken" ADD COLUMN "expiresAt" TIMESTAMP;
+ALTER TABLE "ProjectShareToken" ADD COLUMN "maxUses" INTEGER;
+ALTER TABLE "ProjectShareToken" ADD COLUMN "useCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ProjectShareToken" ADD COLUMN "revokedAt" TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "ShareTokenRedemption" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shareTokenId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "redeemedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ShareTokenRedemption_shareTokenId_fkey" FOREIGN KEY ("shareTokenId") REFERENCES "ProjectShareToken" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShareTokenRedemption_shareTokenId_customerId_key" ON "ShareTokenRedemption"("shareTokenId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "ShareTokenRedemption_shareTokenId_idx" ON "ShareTokenRedemption"("shareTokenId");
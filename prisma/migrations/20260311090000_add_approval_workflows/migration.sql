@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "approvalWorkflow" JSONB;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "approvalWorkflow" JSONB;
+
+-- AlterTable
+ALTER TABLE "ApprovalRequest" ADD COLUMN "requestedByCustomerId" TEXT;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "steps" JSONB;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "currentStep" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ApprovalDecision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "approvalRequestId" TEXT NOT NULL,
+    "stepIndex" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "decidedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApprovalDecision_approvalRequestId_fkey" FOREIGN KEY ("approvalRequestId") REFERENCES "ApprovalRequest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalDecision_approvalRequestId_stepIndex_customerId_key" ON "ApprovalDecision"("approvalRequestId", "stepIndex", "customerId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDecision_approvalRequestId_idx" ON "ApprovalDecision"("approvalRequestId");
+
+-- CreateTable
+CREATE TABLE "ProjectApprover" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    CONSTRAINT "ProjectApprover_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectApprover_projectId_customerId_role_key" ON "ProjectApprover"("projectId", "customerId", "role");
+
+-- CreateIndex
+CREATE INDEX "ProjectApprover_projectId_idx" ON "ProjectApprover"("projectId");
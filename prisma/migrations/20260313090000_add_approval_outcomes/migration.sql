@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "ApprovalRequest" ADD COLUMN "outcome" TEXT;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "outcomeComment" TEXT;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "outcomeAt" TIMESTAMP;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "outcomeByCustomerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ApprovalHistoryEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL DEFAULT '',
+    "itemId" TEXT NOT NULL DEFAULT '',
+    "action" TEXT NOT NULL,
+    "role" TEXT,
+    "comment" TEXT,
+    "customerId" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApprovalHistoryEntry_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalHistoryEntry_projectId_jobId_itemId_idx" ON "ApprovalHistoryEntry"("projectId", "jobId", "itemId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "lockJobsOnApproval" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ShopSettings" ADD COLUMN "requireApprovalForCheckout" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "deletedAt" TIMESTAMP;
+ALTER TABLE "Project" ADD COLUMN "deletedByCustomerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "deletedAt" TIMESTAMP;
+ALTER TABLE "Job" ADD COLUMN "deletedByCustomerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "JobItem" ADD COLUMN "deletedAt" TIMESTAMP;
+ALTER TABLE "JobItem" ADD COLUMN "deletedByCustomerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "trashRetentionDays" INTEGER NOT NULL DEFAULT 30;
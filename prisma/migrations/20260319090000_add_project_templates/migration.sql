@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProjectTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdByCustomerId" TEXT,
+    "jobs" JSONB NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectTemplate_shop_idx" ON "ProjectTemplate"("shop");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "JobRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "note" TEXT,
+    "items" JSONB NOT NULL,
+    "createdByCustomerId" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "JobRevision_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobRevision_jobId_number_key" ON "JobRevision"("jobId", "number");
+
+-- CreateIndex
+CREATE INDEX "JobRevision_jobId_idx" ON "JobRevision"("jobId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "attachQuoteToApprovalEmails" BOOLEAN NOT NULL DEFAULT false;
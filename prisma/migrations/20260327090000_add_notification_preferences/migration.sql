@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "orders" BOOLEAN NOT NULL DEFAULT true,
+    "items" BOOLEAN NOT NULL DEFAULT false,
+    "approvals" BOOLEAN NOT NULL DEFAULT true,
+    "members" BOOLEAN NOT NULL DEFAULT false,
+    "delivery" TEXT NOT NULL DEFAULT 'instant',
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP NOT NULL,
+    CONSTRAINT "NotificationPreference_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "NotificationDigestEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "NotificationDigestEntry_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationPreference_projectId_customerId_key" ON "NotificationPreference"("projectId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "NotificationDigestEntry_customerId_idx" ON "NotificationDigestEntry"("customerId");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ProjectComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL DEFAULT '',
+    "itemId" TEXT NOT NULL DEFAULT '',
+    "parentId" TEXT,
+    "authorCustomerId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "mentionedCustomerIds" JSONB,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "editedAt" TIMESTAMP,
+    "deletedAt" TIMESTAMP,
+    CONSTRAINT "ProjectComment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ProjectComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ProjectComment" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ProjectCommentWatcher" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL DEFAULT '',
+    "itemId" TEXT NOT NULL DEFAULT '',
+    "customerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectCommentWatcher_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectComment_projectId_idx" ON "ProjectComment"("projectId");
+
+-- CreateIndex
+CREATE INDEX "ProjectComment_parentId_idx" ON "ProjectComment"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectCommentWatcher_projectId_jobId_itemId_customerId_key" ON "ProjectCommentWatcher"("projectId", "jobId", "itemId", "customerId");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ProjectAttachment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL DEFAULT '',
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storage" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "uploadedByCustomerId" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectAttachment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectAttachment_projectId_idx" ON "ProjectAttachment"("projectId");
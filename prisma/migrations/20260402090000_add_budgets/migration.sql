@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "budget" DECIMAL;
+ALTER TABLE "Project" ADD COLUMN "budgetNeedsApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "budget" DECIMAL;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE "Project" ADD COLUMN "archivedAt" TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "autoArchiveOrderedProjects" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Project_shop_status_idx" ON "Project"("shop", "status");
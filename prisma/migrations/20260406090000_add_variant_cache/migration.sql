@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "VariantCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "imageAlt" TEXT,
+    "productHandle" TEXT,
+    "price" DECIMAL,
+    "sku" TEXT,
+    "updatedAt" TIMESTAMP NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VariantCache_shop_variantId_key" ON "VariantCache"("shop", "variantId");
+
+-- CreateIndex
+CREATE INDEX "VariantCache_shop_productId_idx" ON "VariantCache"("shop", "productId");
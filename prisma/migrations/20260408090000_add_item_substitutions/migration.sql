@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "JobItem" ADD COLUMN "substitutedVariantId" TEXT;
+ALTER TABLE "JobItem" ADD COLUMN "substitutedAt" TIMESTAMP;
+ALTER TABLE "JobItem" ADD COLUMN "substitutedByCustomerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "VariantCache" ADD COLUMN "productStatus" TEXT NOT NULL DEFAULT 'ACTIVE';
+
+-- Rows cached before product status was tracked can't be trusted as active;
+-- the cache refills from the Admin API on the next read.
+DELETE FROM "VariantCache";